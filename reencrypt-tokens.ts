@@ -0,0 +1,27 @@
+import pool, { initializeDatabase } from "./src/db";
+import { reencryptAllOAuthTokens } from "./src/oauth";
+
+// Encrypt plaintext OAuth tokens and re-wrap rows still using an old TOKEN_ENCRYPTION_KEYS entry.
+// Run after adding a new key at the front of TOKEN_ENCRYPTION_KEYS:
+//   bun run reencrypt-tokens.ts
+async function reencryptTokens() {
+  try {
+    // Make sure the encryption columns exist before touching rows
+    await initializeDatabase();
+
+    const { updated, failed } = await reencryptAllOAuthTokens();
+    console.log(`\n✅ Re-encrypted ${updated} OAuth account(s)`);
+
+    await pool.end();
+    if (failed > 0) {
+      console.error(`❌ ${failed} account(s) could not be re-encrypted; see errors above`);
+      process.exit(1);
+    }
+  } catch (error) {
+    console.error("Error:", error);
+    await pool.end();
+    process.exit(1);
+  }
+}
+
+reencryptTokens();
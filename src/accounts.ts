@@ -0,0 +1,211 @@
+/**
+ * Account pool module
+ * An owner can connect several Claude accounts; each request is routed to one of them
+ * Supports round-robin, least-used-in-window and sticky-per-key selection
+ */
+
+import { createHash } from "crypto";
+import pool from "./db";
+import { OAuthToken } from "./oauth";
+import { PLAN_LIMITS, PlanType, getPlanLimits, resolvePlanType } from "./limits";
+
+export type AccountStrategy = "round_robin" | "least_used" | "sticky";
+
+export const ACCOUNT_STRATEGIES: AccountStrategy[] = ["round_robin", "least_used", "sticky"];
+
+// Cooldown applied after a 429 when upstream does not send retry-after
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+export interface AccountUsage {
+  credits: number;
+  requests: number;
+  windowHours: number;
+  creditsPerWindow: number;
+  percentage: number;
+}
+
+/**
+ * List all Claude accounts connected by an owner, oldest first
+ * @param userId - Owner user ID
+ */
+export async function listAccounts(userId: string): Promise<OAuthToken[]> {
+  const result = await pool.query(
+    "SELECT * FROM oauth_tokens WHERE user_id = $1 ORDER BY created_at ASC, id ASC",
+    [userId]
+  );
+  return result.rows as OAuthToken[];
+}
+
+/**
+ * Get the owner's account selection strategy
+ * @param userId - Owner user ID
+ */
+export async function getAccountStrategy(userId: string): Promise<AccountStrategy> {
+  const result = await pool.query("SELECT account_strategy FROM users WHERE id = $1", [userId]);
+  const strategy = result.rows[0]?.account_strategy as AccountStrategy | undefined;
+  return strategy && ACCOUNT_STRATEGIES.includes(strategy) ? strategy : "round_robin";
+}
+
+/**
+ * Set the owner's account selection strategy
+ * @param userId - Owner user ID
+ * @param strategy - Selection strategy
+ */
+export async function setAccountStrategy(userId: string, strategy: AccountStrategy): Promise<{ success: boolean; error?: string }> {
+  if (!ACCOUNT_STRATEGIES.includes(strategy)) {
+    return { success: false, error: `Invalid strategy. Must be one of: ${ACCOUNT_STRATEGIES.join(", ")}` };
+  }
+
+  const result = await pool.query("UPDATE users SET account_strategy = $1 WHERE id = $2", [strategy, userId]);
+  if ((result.rowCount || 0) === 0) {
+    return { success: false, error: "User not found" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Update an account's label and plan type
+ * A null plan type means the account inherits the owner's plan
+ */
+export async function updateAccount(
+  userId: string,
+  accountId: string,
+  updates: { label?: string | null; planType?: PlanType | null }
+): Promise<{ success: boolean; error?: string }> {
+  if (updates.planType && !PLAN_LIMITS[updates.planType]) {
+    return { success: false, error: "Invalid plan type. Must be one of: " + Object.keys(PLAN_LIMITS).join(", ") };
+  }
+
+  const result = await pool.query(
+    `UPDATE oauth_tokens
+     SET label = CASE WHEN $1 THEN $2 ELSE label END,
+         plan_type = CASE WHEN $3 THEN $4 ELSE plan_type END
+     WHERE id = $5 AND user_id = $6`,
+    [
+      updates.label !== undefined, updates.label ?? null,
+      updates.planType !== undefined, updates.planType ?? null,
+      accountId, userId,
+    ]
+  );
+
+  if ((result.rowCount || 0) === 0) {
+    return { success: false, error: "Account not found" };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Resolve the plan an account is subscribed to
+ * @param account - Claude account
+ * @param ownerPlan - Owner's plan, used when the account has none of its own
+ */
+export function getAccountPlan(account: OAuthToken, ownerPlan: PlanType): PlanType {
+  const plan = account.plan_type as PlanType | null;
+  return plan && PLAN_LIMITS[plan] ? plan : ownerPlan;
+}
+
+/**
+ * Get an account's usage within its plan's rolling window
+ * @param accountId - Claude account ID
+ * @param planType - The account's plan
+ */
+export async function getAccountUsage(accountId: string, planType: PlanType): Promise<AccountUsage> {
+  const limits = getPlanLimits(planType);
+  const windowStart = Date.now() - limits.windowHours * 60 * 60 * 1000;
+
+  const result = await pool.query(
+    `SELECT COALESCE(SUM(credits_used), 0) as credits, COUNT(*) as requests
+     FROM api_key_usage_history
+     WHERE account_id = $1 AND timestamp >= $2`,
+    [accountId, windowStart]
+  );
+
+  const credits = Number(result.rows[0].credits);
+
+  return {
+    credits,
+    requests: Number(result.rows[0].requests),
+    windowHours: limits.windowHours,
+    creditsPerWindow: limits.creditsPerWindow,
+    percentage: Math.round((credits / limits.creditsPerWindow) * 100),
+  };
+}
+
+// Stable index for sticky routing: the same key always starts at the same account
+function stickyIndex(keyId: string, count: number): number {
+  const digest = createHash("sha256").update(keyId).digest();
+  return digest.readUInt32BE(0) % count;
+}
+
+/**
+ * Order an owner's accounts for a request according to their strategy
+ * The first account is the primary choice; the rest are failover candidates.
+ * Accounts cooling down after a 429 are moved towards the end, followed by revoked ones.
+ * @param userId - Owner user ID
+ * @param keyId - API key making the request (used by the sticky strategy)
+ * @returns Accounts in the order they should be tried
+ */
+export async function selectAccounts(userId: string, keyId: string): Promise<OAuthToken[]> {
+  const accounts = await listAccounts(userId);
+  if (accounts.length <= 1) {
+    return accounts;
+  }
+
+  const strategy = await getAccountStrategy(userId);
+  let ordered: OAuthToken[];
+
+  if (strategy === "sticky") {
+    const start = stickyIndex(keyId, accounts.length);
+    ordered = [...accounts.slice(start), ...accounts.slice(0, start)];
+  } else if (strategy === "least_used") {
+    const ownerResult = await pool.query("SELECT plan_type FROM users WHERE id = $1", [userId]);
+    const ownerPlan = resolvePlanType(ownerResult.rows[0]?.plan_type);
+
+    const usage = await Promise.all(
+      accounts.map(async (account) => {
+        const windowUsage = await getAccountUsage(account.id, getAccountPlan(account, ownerPlan));
+        return { account, share: windowUsage.credits / windowUsage.creditsPerWindow };
+      })
+    );
+    ordered = usage
+      .sort((a, b) => a.share - b.share)
+      .map((entry) => entry.account);
+  } else {
+    // Round robin: least recently used first
+    ordered = [...accounts].sort((a, b) => Number(a.last_used_at ?? 0) - Number(b.last_used_at ?? 0));
+  }
+
+  const now = Date.now();
+  const isCoolingDown = (account: OAuthToken) => Boolean(account.rate_limited_until && Number(account.rate_limited_until) > now);
+  const isRevoked = (account: OAuthToken) => account.health_status === "revoked";
+
+  const available = ordered.filter((account) => !isCoolingDown(account) && !isRevoked(account));
+  const coolingDown = ordered.filter((account) => isCoolingDown(account) && !isRevoked(account));
+  const revoked = ordered.filter(isRevoked);
+
+  return [...available, ...coolingDown, ...revoked];
+}
+
+/**
+ * Record that an account served a request (drives round-robin ordering)
+ */
+export async function markAccountUsed(accountId: string): Promise<void> {
+  await pool.query("UPDATE oauth_tokens SET last_used_at = $1 WHERE id = $2", [Date.now(), accountId]);
+}
+
+/**
+ * Put an account on cooldown after upstream rate limited it
+ * @param accountId - Claude account ID
+ * @param retryAfter - Upstream retry-after header value (seconds), if any
+ */
+export async function markAccountRateLimited(accountId: string, retryAfter?: string | null): Promise<void> {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  const cooldownMs = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+
+  await pool.query(
+    "UPDATE oauth_tokens SET rate_limited_until = $1 WHERE id = $2",
+    [Date.now() + cooldownMs, accountId]
+  );
+}
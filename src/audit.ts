@@ -0,0 +1,310 @@
+/**
+ * Audit logs
+ * One proxy_requests row per proxied call made with a valid API key: status,
+ * latency, stream flag, upstream request id and error details. Invitation and
+ * assignment changes of a key are recorded in key_events.
+ */
+
+import pool from "./db";
+import { SSEParser } from "./stream";
+import { recordRequestMetrics } from "./metrics";
+import { finishServerSpan } from "./tracing";
+import type { Span } from "@opentelemetry/api";
+
+export interface ProxyRequestLog {
+  keyId: string | null;
+  path: string;
+  method: string;
+  model: string | null;
+  stream: boolean;
+  startedAt: number;
+  // When the first upstream byte arrived: response headers for JSON, the first chunk for streams
+  firstByteAt: number | null;
+  upstreamRequestId: string | null;
+  // Server span of the request, ended when the request is recorded
+  span: Span | null;
+}
+
+export interface ProxyRequestRecord {
+  id: number;
+  key_id: string;
+  path: string;
+  method: string;
+  model: string | null;
+  status: number;
+  ttfb_ms: number | null;
+  duration_ms: number;
+  stream: boolean;
+  upstream_request_id: string | null;
+  error_type: string | null;
+  error_message: string | null;
+  timestamp: number;
+}
+
+export type KeyEventAction =
+  | "invitation_sent"
+  | "invitation_resent"
+  | "invitation_accepted"
+  | "invitation_declined"
+  | "invitation_cancelled"
+  | "assignment_revoked";
+
+export interface KeyEventRecord {
+  id: number;
+  key_id: string;
+  action: KeyEventAction;
+  // The user who acted (owner or invitee), null once their account is deleted
+  actor_user_id: string | null;
+  actor_email: string | null;
+  // The invitee or assignee the action concerns
+  email: string | null;
+  created_at: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+// Cursors are SERIAL ids, which never exceed the INTEGER range
+const MAX_CURSOR = 2147483647;
+
+/**
+ * Parse the ?limit= and ?cursor= query parameters of a paginated list
+ * @returns The page options, or an error if either is not a positive integer in range
+ */
+export function parsePageQuery(
+  limit: string | undefined,
+  cursor: string | undefined
+): { success: boolean; options?: { limit?: number; cursor: number | null }; error?: string } {
+  if ((limit && !/^\d+$/.test(limit)) || (cursor && !/^\d+$/.test(cursor))) {
+    return { success: false, error: "limit and cursor must be positive integers" };
+  }
+  if (cursor && Number(cursor) > MAX_CURSOR) {
+    return { success: false, error: `cursor must be at most ${MAX_CURSOR}` };
+  }
+  return {
+    success: true,
+    options: { limit: limit ? Number(limit) : undefined, cursor: cursor ? Number(cursor) : null },
+  };
+}
+
+/**
+ * Start tracking a proxied call; fields are filled in as the proxy learns them
+ */
+export function startProxyRequest(path: string, method: string): ProxyRequestLog {
+  return {
+    keyId: null,
+    path,
+    method,
+    model: null,
+    stream: false,
+    startedAt: Date.now(),
+    firstByteAt: null,
+    upstreamRequestId: null,
+    span: null,
+  };
+}
+
+// Pull error type and message out of an Anthropic-style or proxy error body
+function extractError(body: any): { type: string | null; message: string | null } {
+  const error = body?.error;
+  if (typeof error === "string") {
+    return { type: null, message: error };
+  }
+  if (error && typeof error === "object") {
+    return { type: error.type ?? null, message: error.message ?? null };
+  }
+  return { type: null, message: null };
+}
+
+async function recordProxyRequest(
+  log: ProxyRequestLog,
+  status: number,
+  error: { type: string | null; message: string | null }
+): Promise<void> {
+  const now = Date.now();
+  const ttfbMs = log.firstByteAt === null ? null : log.firstByteAt - log.startedAt;
+  recordRequestMetrics(log.path, status, log.model, now - log.startedAt, ttfbMs);
+  if (log.span) {
+    finishServerSpan(log.span, status, {
+      "claude_proxy.key_id": log.keyId ?? "",
+      "gen_ai.request.model": log.model ?? "",
+      "claude_proxy.stream": log.stream,
+      ...(error.type ? { "error.type": error.type } : {}),
+    });
+  }
+
+  // Calls without a valid key cannot be attributed to anyone
+  if (!log.keyId) return;
+
+  try {
+    await pool.query(
+      `INSERT INTO proxy_requests
+       (key_id, path, method, model, status, ttfb_ms, duration_ms, stream, upstream_request_id, error_type, error_message, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        log.keyId, log.path, log.method, log.model, status,
+        ttfbMs, now - log.startedAt, log.stream, log.upstreamRequestId,
+        error.type, error.message?.slice(0, 2000) ?? null, log.startedAt,
+      ]
+    );
+  } catch (dbError) {
+    // Don't fail the request if logging fails
+    console.error("[Audit] Failed to record proxy request:", dbError);
+  }
+}
+
+/**
+ * Record a proxied call once its response is known
+ * JSON responses are recorded immediately. Streams are recorded when they end or the
+ * client disconnects, so the duration covers the whole stream and mid-stream error
+ * events are captured.
+ * @returns The response to send to the client (a wrapped stream for SSE)
+ */
+export async function finishProxyRequest(log: ProxyRequestLog, response: Response): Promise<Response> {
+  if (!log.keyId) {
+    await recordProxyRequest(log, response.status, { type: null, message: null });
+    return response;
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  if (!contentType.includes("text/event-stream") || !response.body) {
+    const error = response.ok
+      ? { type: null, message: null }
+      : extractError(await response.clone().json().catch(() => null));
+    await recordProxyRequest(log, response.status, error);
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  let error = { type: null as string | null, message: null as string | null };
+  let recorded = false;
+  log.firstByteAt = null;
+
+  const complete = async () => {
+    if (recorded) return;
+    recorded = true;
+    await recordProxyRequest(log, response.status, error);
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          await complete();
+          controller.close();
+          return;
+        }
+
+        log.firstByteAt ??= Date.now();
+        for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+          if (event.event === "error") {
+            try {
+              error = extractError(JSON.parse(event.data));
+            } catch {
+              error = { type: null, message: event.data };
+            }
+          }
+        }
+        controller.enqueue(value);
+      } catch (streamError) {
+        error = { type: "stream_error", message: streamError instanceof Error ? streamError.message : String(streamError) };
+        await complete();
+        controller.error(streamError);
+      }
+    },
+
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason);
+      } catch {
+        // Upstream may already be closed
+      }
+      error = { type: "client_disconnected", message: null };
+      await complete();
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * List logged requests for a key, newest first
+ * @param cursor - Only return requests with a smaller id (the previous page's next_cursor)
+ * @returns The page and the cursor of the next page, or null on the last page
+ */
+export async function listProxyRequests(
+  keyId: string,
+  options: { limit?: number; cursor?: number | null } = {}
+): Promise<{ requests: ProxyRequestRecord[]; next_cursor: number | null }> {
+  const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  // Fetch one extra row to know whether there is another page
+  const result = await pool.query(
+    `SELECT id, key_id, path, method, model, status, ttfb_ms, duration_ms, stream,
+            upstream_request_id, error_type, error_message, timestamp
+     FROM proxy_requests
+     WHERE key_id = $1 AND ($2::int IS NULL OR id < $2)
+     ORDER BY id DESC
+     LIMIT $3`,
+    [keyId, options.cursor ?? null, limit + 1]
+  );
+
+  const rows = result.rows.slice(0, limit).map((row) => ({ ...row, timestamp: Number(row.timestamp) }));
+  const hasMore = result.rows.length > limit;
+
+  return {
+    requests: rows,
+    next_cursor: hasMore ? rows[rows.length - 1].id : null,
+  };
+}
+
+/**
+ * Record an invitation or assignment change of a key
+ * Failures are logged and swallowed so they never fail the change itself.
+ */
+export async function recordKeyEvent(
+  keyId: string,
+  actorUserId: string,
+  action: KeyEventAction,
+  email: string | null
+): Promise<void> {
+  try {
+    await pool.query(
+      "INSERT INTO key_events (key_id, actor_user_id, action, email, created_at) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, actorUserId, action, email, Date.now()]
+    );
+  } catch (error) {
+    console.error(`[Audit] Failed to record ${action} for key ${keyId}:`, error);
+  }
+}
+
+/**
+ * List a key's invitation and assignment history, newest first
+ * @param cursor - Only return events with a smaller id (the previous page's next_cursor)
+ */
+export async function listKeyEvents(
+  keyId: string,
+  options: { limit?: number; cursor?: number | null } = {}
+): Promise<{ events: KeyEventRecord[]; next_cursor: number | null }> {
+  const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+  const result = await pool.query(
+    `SELECT e.id, e.key_id, e.action, e.actor_user_id, u.email AS actor_email, e.email, e.created_at
+     FROM key_events e
+     LEFT JOIN users u ON u.id = e.actor_user_id
+     WHERE e.key_id = $1 AND ($2::int IS NULL OR e.id < $2)
+     ORDER BY e.id DESC
+     LIMIT $3`,
+    [keyId, options.cursor ?? null, limit + 1]
+  );
+
+  const events = result.rows.slice(0, limit).map((row) => ({ ...row, created_at: Number(row.created_at) }));
+  const hasMore = result.rows.length > limit;
+
+  return {
+    events,
+    next_cursor: hasMore ? events[events.length - 1].id : null,
+  };
+}
@@ -79,6 +79,15 @@ export function verifyToken(token: string): JWTPayload | null {
   }
 }
 
+// Check whether an email belongs to an admin (listed in ADMIN_EMAILS, comma-separated)
+export function isAdmin(email: string): boolean {
+  const admins = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
+
 // Get user by ID
 export async function getUserById(userId: string): Promise<User | null> {
   try {
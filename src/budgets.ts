@@ -0,0 +1,304 @@
+/**
+ * Dollar budget module
+ * Owners can cap the dollar cost (api_key_usage_history.cost) of one key or of all
+ * of their keys over a calendar month or a custom period. A "hard" budget rejects
+ * requests once it is spent; a "warn" budget only flags them.
+ */
+
+import pool from "./db";
+
+export type BudgetPeriod = "monthly" | "custom";
+export type BudgetMode = "hard" | "warn";
+
+const BUDGET_PERIODS: BudgetPeriod[] = ["monthly", "custom"];
+const BUDGET_MODES: BudgetMode[] = ["hard", "warn"];
+// amount_usd is stored in cents, so smaller amounts would round to zero
+const MIN_AMOUNT_USD = 0.01;
+
+// Spent warn-only budgets already logged, with the start of the period they were logged in
+const loggedWarnings = new Map<string, number>();
+
+export interface BudgetInput {
+  amountUsd: number;
+  period?: BudgetPeriod;
+  // ISO dates bounding a custom period (start inclusive, end exclusive)
+  periodStart?: string;
+  periodEnd?: string;
+  mode?: BudgetMode;
+}
+
+export interface BudgetStatus {
+  // "key" budgets cap one key, "owner" budgets all of the owner's keys
+  scope: "key" | "owner";
+  keyId: string | null;
+  amountUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+  percentage: number;
+  period: BudgetPeriod;
+  periodStart: Date;
+  periodEnd: Date;
+  mode: BudgetMode;
+  // False outside a custom period; inactive budgets are reported but not enforced
+  isActive: boolean;
+  isOverBudget: boolean;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  reason?: string;
+  budgets: BudgetStatus[];
+  exceededBudget?: BudgetStatus;
+  // Spent warn-only budgets; the request goes through
+  warnings: BudgetStatus[];
+}
+
+interface BudgetRow {
+  key_id: string | null;
+  amount_usd: string;
+  period: BudgetPeriod;
+  period_start: string | null;
+  period_end: string | null;
+  mode: BudgetMode;
+}
+
+/**
+ * Validate a budget sent by an owner
+ * @returns An error message, or null if the budget is valid
+ */
+export function validateBudget(budget: any): string | null {
+  if (!budget || typeof budget !== "object") {
+    return "Budget must be an object";
+  }
+  if (typeof budget.amountUsd !== "number" || !Number.isFinite(budget.amountUsd) || budget.amountUsd < MIN_AMOUNT_USD) {
+    return `amountUsd must be a number of at least ${MIN_AMOUNT_USD}`;
+  }
+  if (budget.period !== undefined && !BUDGET_PERIODS.includes(budget.period)) {
+    return `period must be one of: ${BUDGET_PERIODS.join(", ")}`;
+  }
+  if (budget.mode !== undefined && !BUDGET_MODES.includes(budget.mode)) {
+    return `mode must be one of: ${BUDGET_MODES.join(", ")}`;
+  }
+  if (budget.period === "custom") {
+    const start = Date.parse(budget.periodStart);
+    const end = Date.parse(budget.periodEnd);
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      return "A custom period needs periodStart and periodEnd dates";
+    }
+    if (end <= start) {
+      return "periodEnd must be after periodStart";
+    }
+  }
+  return null;
+}
+
+/**
+ * Set the dollar budget of one key (owner only)
+ */
+export async function setKeyBudget(
+  keyId: string,
+  ownerId: string,
+  budget: BudgetInput
+): Promise<{ success: boolean; error?: string }> {
+  const error = validateBudget(budget);
+  if (error) {
+    return { success: false, error };
+  }
+
+  try {
+    const key = await pool.query("SELECT 1 FROM api_keys WHERE id = $1 AND user_id = $2", [keyId, ownerId]);
+    if (key.rows.length === 0) {
+      return { success: false, error: "Key not found or access denied" };
+    }
+
+    await pool.query(
+      `INSERT INTO budgets (user_id, key_id, amount_usd, period, period_start, period_end, mode, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (key_id) WHERE key_id IS NOT NULL DO UPDATE SET
+         amount_usd = EXCLUDED.amount_usd, period = EXCLUDED.period, period_start = EXCLUDED.period_start,
+         period_end = EXCLUDED.period_end, mode = EXCLUDED.mode, updated_at = EXCLUDED.updated_at`,
+      [ownerId, keyId, ...budgetColumns(budget)]
+    );
+    return { success: true };
+  } catch (error) {
+    console.error("[Budgets] Set key budget error:", error);
+    return { success: false, error: "Failed to set budget" };
+  }
+}
+
+/**
+ * Set the dollar budget shared by all of an owner's keys
+ */
+export async function setOwnerBudget(ownerId: string, budget: BudgetInput): Promise<{ success: boolean; error?: string }> {
+  const error = validateBudget(budget);
+  if (error) {
+    return { success: false, error };
+  }
+
+  try {
+    await pool.query(
+      `INSERT INTO budgets (user_id, key_id, amount_usd, period, period_start, period_end, mode, updated_at)
+       VALUES ($1, NULL, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (user_id) WHERE key_id IS NULL DO UPDATE SET
+         amount_usd = EXCLUDED.amount_usd, period = EXCLUDED.period, period_start = EXCLUDED.period_start,
+         period_end = EXCLUDED.period_end, mode = EXCLUDED.mode, updated_at = EXCLUDED.updated_at`,
+      [ownerId, ...budgetColumns(budget)]
+    );
+    return { success: true };
+  } catch (error) {
+    console.error("[Budgets] Set owner budget error:", error);
+    return { success: false, error: "Failed to set budget" };
+  }
+}
+
+function budgetColumns(budget: BudgetInput): unknown[] {
+  const period = budget.period ?? "monthly";
+  return [
+    budget.amountUsd,
+    period,
+    period === "custom" ? Date.parse(budget.periodStart!) : null,
+    period === "custom" ? Date.parse(budget.periodEnd!) : null,
+    budget.mode ?? "hard",
+    Date.now(),
+  ];
+}
+
+/**
+ * Remove a budget; keyId null removes the owner's account-wide budget
+ * @returns false if there was no such budget
+ */
+export async function deleteBudget(ownerId: string, keyId: string | null): Promise<boolean> {
+  const result = await pool.query(
+    "DELETE FROM budgets WHERE user_id = $1 AND key_id IS NOT DISTINCT FROM $2",
+    [ownerId, keyId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Get the owner's account-wide budget and, if keyId is given, that key's budget
+ * @returns One status per budget that is set, key budget first
+ */
+export async function getBudgetStatuses(ownerId: string, keyId?: string | null): Promise<BudgetStatus[]> {
+  const result = await pool.query(
+    `SELECT key_id, amount_usd, period, period_start, period_end, mode FROM budgets
+     WHERE user_id = $1 AND (key_id IS NULL OR key_id = $2)
+     ORDER BY key_id NULLS LAST`,
+    [ownerId, keyId ?? null]
+  );
+  return Promise.all(result.rows.map((row: BudgetRow) => buildBudgetStatus(ownerId, row)));
+}
+
+/**
+ * Get the budgets of all of an owner's keys
+ * @returns Statuses keyed by key ID
+ */
+export async function getKeyBudgetStatuses(ownerId: string): Promise<Record<string, BudgetStatus>> {
+  const result = await pool.query(
+    `SELECT key_id, amount_usd, period, period_start, period_end, mode FROM budgets
+     WHERE user_id = $1 AND key_id IS NOT NULL`,
+    [ownerId]
+  );
+  const statuses = await Promise.all(result.rows.map((row: BudgetRow) => buildBudgetStatus(ownerId, row)));
+  return Object.fromEntries(statuses.map((status) => [status.keyId!, status]));
+}
+
+/**
+ * Check the key's and the owner's budgets before proxying a request
+ * Spend is what has been recorded so far, so a request that starts under budget
+ * may take it slightly over.
+ * @param keyId - API key ID
+ * @param ownerId - User ID of the key owner
+ * @returns Not allowed once a hard budget is spent; spent warn-only budgets are listed in warnings
+ */
+export async function checkBudgets(keyId: string, ownerId: string): Promise<BudgetCheckResult> {
+  const budgets = await getBudgetStatuses(ownerId, keyId);
+  const spent = budgets.filter((budget) => budget.isActive && budget.isOverBudget);
+  const exceededBudget = spent.find((budget) => budget.mode === "hard");
+  const warnings = spent.filter((budget) => budget.mode === "warn");
+
+  // Logged once per budget and period rather than on every request
+  for (const budget of warnings) {
+    const budgetId = budget.keyId ?? `owner:${ownerId}`;
+    if (loggedWarnings.get(budgetId) !== budget.periodStart.getTime()) {
+      loggedWarnings.set(budgetId, budget.periodStart.getTime());
+      console.log(`[Budgets] Key ${keyId} is over its warn-only ${budget.scope} budget: $${budget.spentUsd.toFixed(2)} of $${budget.amountUsd.toFixed(2)}`);
+    }
+  }
+
+  if (exceededBudget) {
+    return {
+      allowed: false,
+      reason: `Budget exceeded: $${exceededBudget.spentUsd.toFixed(2)} of the ${describeBudget(exceededBudget)} spent. Resets ${exceededBudget.periodEnd.toISOString()}.`,
+      budgets,
+      exceededBudget,
+      warnings,
+    };
+  }
+
+  return { allowed: true, budgets, warnings };
+}
+
+/**
+ * Describe a budget, e.g. "$50.00 monthly key budget"
+ */
+export function describeBudget(budget: BudgetStatus): string {
+  return `$${budget.amountUsd.toFixed(2)} ${budget.period} ${budget.scope} budget`;
+}
+
+/**
+ * Get the period a budget currently covers
+ * Monthly budgets cover the current calendar month (UTC); custom ones their own dates.
+ */
+export function getBudgetPeriod(
+  period: BudgetPeriod,
+  periodStart: number | null,
+  periodEnd: number | null,
+  now = Date.now()
+): { start: number; end: number } {
+  if (period === "custom") {
+    return { start: periodStart!, end: periodEnd! };
+  }
+  const date = new Date(now);
+  return {
+    start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+    end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+  };
+}
+
+async function buildBudgetStatus(ownerId: string, row: BudgetRow): Promise<BudgetStatus> {
+  const now = Date.now();
+  const { start, end } = getBudgetPeriod(
+    row.period,
+    row.period_start === null ? null : Number(row.period_start),
+    row.period_end === null ? null : Number(row.period_end),
+    now
+  );
+
+  const scopeCondition = row.key_id ? "h.key_id = $1" : "k.user_id = $1";
+  const spend = await pool.query(
+    `SELECT COALESCE(SUM(h.cost), 0) as spent
+     FROM api_key_usage_history h
+     JOIN api_keys k ON k.id = h.key_id
+     WHERE ${scopeCondition} AND h.timestamp >= $2 AND h.timestamp < $3`,
+    [row.key_id ?? ownerId, start, end]
+  );
+
+  const amountUsd = Number(row.amount_usd);
+  const spentUsd = Number(spend.rows[0].spent);
+
+  return {
+    scope: row.key_id ? "key" : "owner",
+    keyId: row.key_id,
+    amountUsd,
+    spentUsd,
+    remainingUsd: Math.max(0, amountUsd - spentUsd),
+    percentage: Math.round((spentUsd / amountUsd) * 100),
+    period: row.period,
+    periodStart: new Date(start),
+    periodEnd: new Date(end),
+    mode: row.mode,
+    isActive: now >= start && now < end,
+    isOverBudget: spentUsd >= amountUsd,
+  };
+}
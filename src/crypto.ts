@@ -0,0 +1,162 @@
+/**
+ * Token encryption module
+ * Envelope encryption for OAuth tokens at rest: each row gets a random data key
+ * (AES-256-GCM) that is itself encrypted with a master key from the environment.
+ * Rotating the master key only requires re-wrapping the data keys.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// Key id used when no TOKEN_ENCRYPTION_KEYS are configured and the key is derived from JWT_SECRET
+export const DERIVED_KEY_ID = "jwt";
+
+export interface EncryptedTokens {
+  access_token: string;
+  refresh_token: string;
+  encryption_key_id: string;
+  encrypted_data_key: string;
+}
+
+export interface StoredTokens {
+  access_token: string;
+  refresh_token: string;
+  encryption_key_id?: string | null;
+  encrypted_data_key?: string | null;
+}
+
+interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyring: { source: string; keyring: Keyring } | null = null;
+
+/**
+ * Load master keys from TOKEN_ENCRYPTION_KEYS ("id:base64key,id:base64key")
+ * The first key encrypts new rows; the others are kept so older rows can still be read.
+ * Without it, a key derived from JWT_SECRET is used.
+ */
+function getKeyring(): Keyring {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS || "";
+  if (cachedKeyring && cachedKeyring.source === source) {
+    return cachedKeyring.keyring;
+  }
+
+  const keys = new Map<string, Buffer>();
+  let activeKeyId = "";
+
+  for (const entry of source.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const id = separator > 0 ? entry.slice(0, separator) : "";
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (!id || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry "${id || entry}": expected <id>:<base64 32-byte key>`);
+    }
+    keys.set(id, key);
+    activeKeyId ||= id;
+  }
+
+  // Rows written with the derived key stay readable after real keys are configured
+  const jwtSecret = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+  keys.set(DERIVED_KEY_ID, createHash("sha256").update(`oauth-token-encryption:${jwtSecret}`).digest());
+
+  if (!activeKeyId) {
+    console.warn("[Crypto] TOKEN_ENCRYPTION_KEYS is not set; deriving the token encryption key from JWT_SECRET");
+    activeKeyId = DERIVED_KEY_ID;
+  }
+
+  const keyring = { activeKeyId, keys };
+  cachedKeyring = { source, keyring };
+  return keyring;
+}
+
+function getMasterKey(keyId: string): Buffer {
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown token encryption key id: ${keyId}`);
+  }
+  return key;
+}
+
+// AES-256-GCM; output is base64(iv | tag | ciphertext). The label is bound as AAD
+function seal(key: Buffer, plaintext: Buffer, label: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(label));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string, label: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", key, data.subarray(0, IV_LENGTH));
+  decipher.setAAD(Buffer.from(label));
+  decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * Get the id of the master key used for new writes
+ */
+export function getActiveKeyId(): string {
+  return getKeyring().activeKeyId;
+}
+
+/**
+ * Encrypt an access/refresh token pair under a fresh data key
+ */
+export function encryptTokens(accessToken: string, refreshToken: string): EncryptedTokens {
+  const keyId = getActiveKeyId();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  return {
+    access_token: seal(dataKey, Buffer.from(accessToken, "utf8"), "access_token"),
+    refresh_token: seal(dataKey, Buffer.from(refreshToken, "utf8"), "refresh_token"),
+    encryption_key_id: keyId,
+    encrypted_data_key: seal(getMasterKey(keyId), dataKey, `data_key:${keyId}`),
+  };
+}
+
+/**
+ * Decrypt a stored token pair
+ * Rows without a key id predate encryption and are returned as-is.
+ */
+export function decryptTokens(stored: StoredTokens): { access_token: string; refresh_token: string } {
+  if (!stored.encryption_key_id || !stored.encrypted_data_key) {
+    return { access_token: stored.access_token, refresh_token: stored.refresh_token };
+  }
+
+  const keyId = stored.encryption_key_id;
+  const dataKey = open(getMasterKey(keyId), stored.encrypted_data_key, `data_key:${keyId}`);
+
+  return {
+    access_token: open(dataKey, stored.access_token, "access_token").toString("utf8"),
+    refresh_token: open(dataKey, stored.refresh_token, "refresh_token").toString("utf8"),
+  };
+}
+
+/**
+ * Re-encrypt a stored token pair under the active master key
+ * Encrypted rows only have their data key re-wrapped; plaintext rows are encrypted.
+ */
+export function reencryptTokens(stored: StoredTokens): EncryptedTokens {
+  const activeKeyId = getActiveKeyId();
+
+  if (!stored.encryption_key_id || !stored.encrypted_data_key) {
+    return encryptTokens(stored.access_token, stored.refresh_token);
+  }
+
+  const oldKeyId = stored.encryption_key_id;
+  const dataKey = open(getMasterKey(oldKeyId), stored.encrypted_data_key, `data_key:${oldKeyId}`);
+
+  return {
+    access_token: stored.access_token,
+    refresh_token: stored.refresh_token,
+    encryption_key_id: activeKeyId,
+    encrypted_data_key: seal(getMasterKey(activeKeyId), dataKey, `data_key:${activeKeyId}`),
+  };
+}
@@ -1,4 +1,5 @@
 import { Pool } from "pg";
+import { DEFAULT_PLAN_LIMITS, DEFAULT_MODEL_WEIGHTS } from "./limits";
 
 // Create PostgreSQL connection pool
 const DATABASE_URL = process.env.DATABASE_URL;
@@ -21,12 +22,18 @@ pool.on("error", (err) => {
   console.error("Unexpected error on idle database client", err);
 });
 
+// Advisory lock key held while the schema is being initialized
+const SCHEMA_LOCK_ID = 727001;
+
 // Initialize database schema
 export async function initializeDatabase(): Promise<void> {
   const client = await pool.connect();
   try {
     console.log("[DB] Initializing database schema...");
 
+    // Serialize concurrent initializations (e.g. several instances starting at once) so migrations run once
+    await client.query("SELECT pg_advisory_lock($1)", [SCHEMA_LOCK_ID]);
+
     // Create users table
     await client.query(`
       CREATE TABLE IF NOT EXISTS users (
@@ -34,18 +41,45 @@ export async function initializeDatabase(): Promise<void> {
         email VARCHAR(255) UNIQUE NOT NULL,
         password_hash VARCHAR(255) NOT NULL,
         plan_type VARCHAR(50) DEFAULT 'pro',
+        account_strategy VARCHAR(20) DEFAULT 'round_robin',
         created_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT
       )
     `);
 
-    // Create oauth_tokens table
+    // Create oauth_tokens table (one row per connected Claude account; an owner may have several)
     await client.query(`
       CREATE TABLE IF NOT EXISTS oauth_tokens (
-        user_id VARCHAR(255) PRIMARY KEY,
+        id VARCHAR(255) PRIMARY KEY DEFAULT gen_random_uuid()::text,
+        user_id VARCHAR(255) NOT NULL,
         access_token TEXT NOT NULL,
         refresh_token TEXT NOT NULL,
         expires_at BIGINT NOT NULL,
         updated_at BIGINT NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW())::BIGINT,
+        label VARCHAR(255),
+        plan_type VARCHAR(50),
+        account_uuid VARCHAR(255),
+        account_email VARCHAR(255),
+        created_at BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT,
+        last_used_at BIGINT,
+        rate_limited_until BIGINT,
+        encryption_key_id VARCHAR(64),
+        encrypted_data_key TEXT,
+        health_status VARCHAR(20) DEFAULT 'healthy',
+        last_error TEXT,
+        last_error_at BIGINT,
+        UNIQUE (user_id, account_uuid),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create oauth_pending_authorizations table (PKCE verifiers for authorizations in progress)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS oauth_pending_authorizations (
+        state VARCHAR(64) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        code_verifier TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        expires_at BIGINT NOT NULL,
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
       )
     `);
@@ -66,6 +100,8 @@ export async function initializeDatabase(): Promise<void> {
         invitation_token VARCHAR(255) UNIQUE,
         plan_type VARCHAR(50) DEFAULT 'pro',
         quota_percentage INTEGER DEFAULT 100,
+        key_lookup_id VARCHAR(32) UNIQUE,
+        hash_algorithm VARCHAR(20) DEFAULT 'bcrypt',
         FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
         FOREIGN KEY (assigned_to_user_id) REFERENCES users(id) ON DELETE SET NULL
       )
@@ -101,6 +137,7 @@ export async function initializeDatabase(): Promise<void> {
         total_tokens BIGINT DEFAULT 0,
         cost DECIMAL(10, 5) DEFAULT 0.0,
         credits_used BIGINT DEFAULT 0,
+        account_id VARCHAR(255),
         FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
       )
     `);
@@ -173,11 +210,384 @@ export async function initializeDatabase(): Promise<void> {
       END $$;
     `);
 
+    // Migration: Add key_lookup_id and hash_algorithm columns for indexed key lookup
+    // Existing keys keep hash_algorithm = 'bcrypt' and a NULL lookup id until they are rotated
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'api_keys' AND column_name = 'key_lookup_id'
+        ) THEN
+          ALTER TABLE api_keys ADD COLUMN key_lookup_id VARCHAR(32) UNIQUE;
+        END IF;
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'api_keys' AND column_name = 'hash_algorithm'
+        ) THEN
+          ALTER TABLE api_keys ADD COLUMN hash_algorithm VARCHAR(20) DEFAULT 'bcrypt';
+        END IF;
+      END $$;
+    `);
+    // Legacy keys are found by the prefix stored with them
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_api_keys_legacy_prefix ON api_keys(key_prefix) WHERE key_lookup_id IS NULL
+    `);
+
+    // Migration: Allow several Claude accounts per owner
+    // oauth_tokens was keyed by user_id; give each row its own id and per-account metadata
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'oauth_tokens' AND column_name = 'id'
+        ) THEN
+          ALTER TABLE oauth_tokens ADD COLUMN id VARCHAR(255) NOT NULL DEFAULT gen_random_uuid()::text;
+          ALTER TABLE oauth_tokens DROP CONSTRAINT IF EXISTS oauth_tokens_pkey;
+          ALTER TABLE oauth_tokens ADD PRIMARY KEY (id);
+          ALTER TABLE oauth_tokens ADD COLUMN label VARCHAR(255);
+          ALTER TABLE oauth_tokens ADD COLUMN plan_type VARCHAR(50);
+          ALTER TABLE oauth_tokens ADD COLUMN account_uuid VARCHAR(255);
+          ALTER TABLE oauth_tokens ADD COLUMN account_email VARCHAR(255);
+          ALTER TABLE oauth_tokens ADD COLUMN created_at BIGINT NOT NULL DEFAULT (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT;
+          ALTER TABLE oauth_tokens ADD COLUMN last_used_at BIGINT;
+          ALTER TABLE oauth_tokens ADD COLUMN rate_limited_until BIGINT;
+          ALTER TABLE oauth_tokens ADD CONSTRAINT oauth_tokens_user_account_key UNIQUE (user_id, account_uuid);
+        END IF;
+      END $$;
+    `);
+
+    // Migration: Add account selection strategy to users and account attribution to usage history
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'account_strategy'
+        ) THEN
+          ALTER TABLE users ADD COLUMN account_strategy VARCHAR(20) DEFAULT 'round_robin';
+        END IF;
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'api_key_usage_history' AND column_name = 'account_id'
+        ) THEN
+          ALTER TABLE api_key_usage_history ADD COLUMN account_id VARCHAR(255);
+        END IF;
+      END $$;
+    `);
+
+    // Migration: Track the master key that encrypted each row's OAuth tokens (NULL = plaintext)
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'oauth_tokens' AND column_name = 'encryption_key_id'
+        ) THEN
+          ALTER TABLE oauth_tokens ADD COLUMN encryption_key_id VARCHAR(64);
+          ALTER TABLE oauth_tokens ADD COLUMN encrypted_data_key TEXT;
+        END IF;
+      END $$;
+    `);
+
+    // Migration: Connection health of each Claude account (healthy, refresh_failed, revoked)
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'oauth_tokens' AND column_name = 'health_status'
+        ) THEN
+          ALTER TABLE oauth_tokens ADD COLUMN health_status VARCHAR(20) DEFAULT 'healthy';
+          ALTER TABLE oauth_tokens ADD COLUMN last_error TEXT;
+          ALTER TABLE oauth_tokens ADD COLUMN last_error_at BIGINT;
+        END IF;
+      END $$;
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_usage_history_account_timestamp
+      ON api_key_usage_history(account_id, timestamp DESC)
+    `);
+
+    // Create upstream_attempts table (one row per call to Anthropic, including retries)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS upstream_attempts (
+        id SERIAL PRIMARY KEY,
+        key_id VARCHAR(255) NOT NULL,
+        account_id VARCHAR(255),
+        path VARCHAR(255) NOT NULL,
+        attempt INTEGER NOT NULL,
+        status INTEGER,
+        outcome VARCHAR(20) NOT NULL,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        retry_delay_ms INTEGER,
+        timestamp BIGINT NOT NULL,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_upstream_attempts_timestamp
+      ON upstream_attempts(timestamp DESC)
+    `);
+
+    // Create proxy_requests table (audit log of every proxied call)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS proxy_requests (
+        id SERIAL PRIMARY KEY,
+        key_id VARCHAR(255) NOT NULL,
+        path VARCHAR(255) NOT NULL,
+        method VARCHAR(10) NOT NULL,
+        model VARCHAR(100),
+        status INTEGER NOT NULL,
+        ttfb_ms INTEGER,
+        duration_ms INTEGER NOT NULL,
+        stream BOOLEAN DEFAULT false,
+        upstream_request_id VARCHAR(255),
+        error_type VARCHAR(100),
+        error_message TEXT,
+        timestamp BIGINT NOT NULL,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_proxy_requests_key_id
+      ON proxy_requests(key_id, id DESC)
+    `);
+
+    // Create quota_reservations table (estimated credits of proxied requests still in flight)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS quota_reservations (
+        id SERIAL PRIMARY KEY,
+        key_id VARCHAR(255) NOT NULL,
+        model VARCHAR(100),
+        credits BIGINT NOT NULL,
+        created_at BIGINT NOT NULL,
+        expires_at BIGINT NOT NULL,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_quota_reservations_key_id
+      ON quota_reservations(key_id, expires_at)
+    `);
+
+    // Create budgets table (dollar caps of one key, or of all of an owner's keys when key_id is NULL)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS budgets (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        key_id VARCHAR(255),
+        amount_usd DECIMAL(12, 2) NOT NULL,
+        period VARCHAR(20) NOT NULL DEFAULT 'monthly',
+        period_start BIGINT,
+        period_end BIGINT,
+        mode VARCHAR(10) NOT NULL DEFAULT 'hard',
+        updated_at BIGINT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+
+    // At most one budget per key and one account-wide budget per owner
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_key_id ON budgets(key_id) WHERE key_id IS NOT NULL
+    `);
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_budgets_owner ON budgets(user_id) WHERE key_id IS NULL
+    `);
+
+    // Migration: Usage percentages at which a key's owner and assignee are warned
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'api_keys' AND column_name = 'warning_thresholds'
+        ) THEN
+          ALTER TABLE api_keys ADD COLUMN warning_thresholds JSONB NOT NULL DEFAULT '[80, 95]';
+        END IF;
+      END $$;
+    `);
+
+    // Create quota_threshold_events table (when each warning threshold of a key's window last fired)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS quota_threshold_events (
+        key_id VARCHAR(255) NOT NULL,
+        window_name VARCHAR(50) NOT NULL,
+        threshold INTEGER NOT NULL,
+        fired_at BIGINT NOT NULL,
+        PRIMARY KEY (key_id, window_name, threshold),
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create notifications table (messages shown to a user, e.g. quota warnings)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id SERIAL PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        type VARCHAR(50) NOT NULL,
+        key_id VARCHAR(255),
+        message TEXT NOT NULL,
+        data JSONB NOT NULL DEFAULT '{}',
+        created_at BIGINT NOT NULL,
+        read_at BIGINT,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_notifications_user_id
+      ON notifications(user_id, id DESC)
+    `);
+
+    // Migration: Invitations expire; pending ones from before expiry get a fresh week
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'api_keys' AND column_name = 'invitation_expires_at'
+        ) THEN
+          ALTER TABLE api_keys ADD COLUMN invitation_expires_at BIGINT;
+          UPDATE api_keys SET invitation_expires_at = (EXTRACT(EPOCH FROM NOW() + INTERVAL '7 days') * 1000)::BIGINT
+          WHERE assignment_status = 'pending';
+        END IF;
+      END $$;
+    `);
+
+    // Create key_events table (audit history of invitations and assignments of a key)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS key_events (
+        id SERIAL PRIMARY KEY,
+        key_id VARCHAR(255) NOT NULL,
+        actor_user_id VARCHAR(255),
+        action VARCHAR(50) NOT NULL,
+        email VARCHAR(255),
+        created_at BIGINT NOT NULL,
+        FOREIGN KEY (key_id) REFERENCES api_keys(id) ON DELETE CASCADE,
+        FOREIGN KEY (actor_user_id) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_key_events_key_id ON key_events(key_id, id DESC)
+    `);
+
+    // Create webhook_endpoints table (URLs an owner registered for proxy and account events)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS webhook_endpoints (
+        id VARCHAR(255) PRIMARY KEY,
+        user_id VARCHAR(255) NOT NULL,
+        url TEXT NOT NULL,
+        secret VARCHAR(255) NOT NULL,
+        events JSONB NOT NULL DEFAULT '[]',
+        description VARCHAR(255),
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        created_at BIGINT NOT NULL,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id)
+    `);
+
+    // Create notification_outbox table (email and webhook deliveries waiting to be sent or retried)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS notification_outbox (
+        id SERIAL PRIMARY KEY,
+        channel VARCHAR(20) NOT NULL,
+        recipient TEXT NOT NULL,
+        event VARCHAR(50) NOT NULL,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        data JSONB NOT NULL DEFAULT '{}',
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at BIGINT NOT NULL,
+        locked_until BIGINT,
+        last_error TEXT,
+        created_at BIGINT NOT NULL,
+        sent_at BIGINT,
+        endpoint_id VARCHAR(255),
+        response_status INTEGER,
+        replay_of INTEGER,
+        FOREIGN KEY (endpoint_id) REFERENCES webhook_endpoints(id) ON DELETE CASCADE
+      )
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+      ON notification_outbox(status, next_attempt_at)
+    `);
+
+    // Migration: Owner webhook endpoint deliveries share the outbox and form each endpoint's delivery log
+    await client.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'notification_outbox' AND column_name = 'endpoint_id'
+        ) THEN
+          ALTER TABLE notification_outbox ADD COLUMN endpoint_id VARCHAR(255)
+            REFERENCES webhook_endpoints(id) ON DELETE CASCADE;
+          ALTER TABLE notification_outbox ADD COLUMN response_status INTEGER;
+          ALTER TABLE notification_outbox ADD COLUMN replay_of INTEGER;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS idx_notification_outbox_endpoint_id
+      ON notification_outbox(endpoint_id, id DESC)
+    `);
+
+    // Create plans table (credit allowances; seeded with the built-in plans, editable by admins)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS plans (
+        name VARCHAR(50) PRIMARY KEY,
+        credits_per_window BIGINT NOT NULL,
+        window_hours DOUBLE PRECISION NOT NULL,
+        weekly_windows JSONB NOT NULL DEFAULT '[]',
+        allowed_models JSONB NOT NULL,
+        updated_at BIGINT NOT NULL
+      )
+    `);
+
+    // Create model_weights table (credits per token for each model family)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS model_weights (
+        family VARCHAR(50) PRIMARY KEY,
+        weight DOUBLE PRECISION NOT NULL,
+        updated_at BIGINT NOT NULL
+      )
+    `);
+
+    // Seed built-in plans and weights; existing rows (possibly edited) are left alone
+    for (const [name, limits] of Object.entries(DEFAULT_PLAN_LIMITS)) {
+      await client.query(
+        `INSERT INTO plans (name, credits_per_window, window_hours, weekly_windows, allowed_models, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (name) DO NOTHING`,
+        [name, limits.creditsPerWindow, limits.windowHours, JSON.stringify(limits.weeklyWindows),
+         JSON.stringify(limits.allowedModels), Date.now()]
+      );
+    }
+    for (const [family, weight] of Object.entries(DEFAULT_MODEL_WEIGHTS)) {
+      await client.query(
+        `INSERT INTO model_weights (family, weight, updated_at) VALUES ($1, $2, $3)
+         ON CONFLICT (family) DO NOTHING`,
+        [family, weight, Date.now()]
+      );
+    }
+
     console.log("[DB] Database schema initialized successfully");
   } catch (error) {
     console.error("[DB] Failed to initialize database:", error);
     throw error;
   } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [SCHEMA_LOCK_ID]).catch(() => {});
     client.release();
   }
 }
@@ -1,13 +1,23 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { serveStatic } from "hono/bun";
-import { registerUser, loginUser, verifyToken, getUserById } from "./auth";
-import { generateAuthUrl, exchangeCode, saveOAuthTokens, hasOAuthConnection, disconnectOAuth } from "./oauth";
-import { generateApiKey, listApiKeys, deleteApiKey, assignKey, acceptInvitation, getPendingInvitations, listAllUserKeys, getUserPlan, updateUserPlan, updateQuotaPercentage } from "./keys";
+import { registerUser, loginUser, verifyToken, getUserById, isAdmin } from "./auth";
+import { generateAuthUrl, completeAuthorization, saveOAuthTokens, hasOAuthConnection, disconnectOAuth, startTokenRefreshJob, getConnectionStatus } from "./oauth";
+import { generateApiKey, rotateApiKey, listApiKeys, deleteApiKey, assignKey, acceptInvitation, declineInvitation, resendInvitation, removeAssignment, getPendingInvitations, listAllUserKeys, getUserPlan, updateUserPlan, updateQuotaPercentage, updateWarningThresholds } from "./keys";
+import { listAccounts, getAccountStrategy, setAccountStrategy, updateAccount, getAccountPlan, getAccountUsage } from "./accounts";
 import { proxyToClaudeAPI, proxyToClaudeAPIGeneric } from "./proxy";
+import { proxyOpenAIChatCompletions } from "./openai";
 import { getKeyUsage, getAggregateUsage } from "./usage";
-import { getRollingWindowUsage, calculateUsagePercentage, formatDuration, calculateEffectiveLimit } from "./quota";
-import { PLAN_LIMITS } from "./limits";
+import { listProxyRequests, listKeyEvents, parsePageQuery } from "./audit";
+import { checkMetricsAuth, renderMetrics } from "./metrics";
+import { initTracing } from "./tracing";
+import { formatDuration, getQuotaWindowStatuses, getPoolWindowStatuses, type QuotaWindowStatus } from "./quota";
+import { PlanType, getPlanLimits, resolvePlanType, getDeniedModels, getModelWeights } from "./limits";
+import { loadPlans, refreshPlans, listPlans, savePlan, deletePlan, saveModelWeight } from "./plans";
+import { listNotifications, markNotificationRead } from "./notifications";
+import { startOutboxWorker } from "./outbox";
+import { WEBHOOK_EVENTS, createWebhookEndpoint, listWebhookEndpoints, updateWebhookEndpoint, deleteWebhookEndpoint, listWebhookDeliveries, replayWebhookDelivery } from "./webhooks";
+import { setKeyBudget, setOwnerBudget, deleteBudget, getBudgetStatuses, getKeyBudgetStatuses, type BudgetStatus } from "./budgets";
 import pool, { initializeDatabase } from "./db";
 
 const app = new Hono();
@@ -20,6 +30,12 @@ app.use("/*", cors({
   credentials: true,
 }));
 
+// Pick up plan and model weight changes made by other instances
+app.use("*", async (c, next) => {
+  await refreshPlans();
+  await next();
+});
+
 // Serve static files
 app.use("/public/*", serveStatic({ root: "./" }));
 app.use("/", serveStatic({ path: "./public/index.html" }));
@@ -48,6 +64,15 @@ const authMiddleware = async (c: any, next: any) => {
   await next();
 };
 
+// Middleware to restrict a route to admins (use after authMiddleware)
+const adminMiddleware = async (c: any, next: any) => {
+  const user = c.get("user");
+  if (!isAdmin(user.email)) {
+    return c.json({ error: "Admin access required" }, 403);
+  }
+  await next();
+};
+
 // Auth endpoints
 app.post("/api/auth/register", async (c) => {
   const { email, password } = await c.req.json();
@@ -82,9 +107,10 @@ app.post("/api/auth/login", async (c) => {
 // Claude OAuth endpoints
 app.get("/api/claude/connect", authMiddleware, async (c) => {
   const user = c.get("user");
-  const { url, verifier } = await generateAuthUrl();
+  // The PKCE verifier is kept server-side; the browser only gets the authorization URL
+  const { url } = await generateAuthUrl(user.userId);
 
-  return c.json({ url, verifier });
+  return c.json({ url });
 });
 
 app.post("/api/claude/callback", authMiddleware, async (c) => {
@@ -94,26 +120,24 @@ app.post("/api/claude/callback", authMiddleware, async (c) => {
 
     // Parse request body with error handling
     let code: string;
-    let verifier: string;
 
     try {
       const body = await c.req.json();
       code = body.code;
-      verifier = body.verifier;
-      console.log(`[OAuth Callback] Received code length: ${code?.length}, verifier length: ${verifier?.length}`);
+      console.log(`[OAuth Callback] Received code length: ${code?.length}`);
     } catch (parseError) {
       console.error("[OAuth Callback] Failed to parse request body:", parseError);
       return c.json({ error: "Invalid request body" }, 400);
     }
 
-    if (!code || !verifier) {
-      console.error("[OAuth Callback] Missing required fields - code:", !!code, "verifier:", !!verifier);
-      return c.json({ error: "Code and verifier required" }, 400);
+    if (!code || typeof code !== "string") {
+      console.error("[OAuth Callback] Missing required field - code");
+      return c.json({ error: "Code required" }, 400);
     }
 
-    // Exchange code for tokens
+    // Exchange code for tokens using the verifier stored when this user started the flow
     console.log("[OAuth Callback] Exchanging authorization code for tokens");
-    const result = await exchangeCode(code, verifier);
+    const result = await completeAuthorization(user.userId, code.trim());
 
     if (!result.success) {
       console.error("[OAuth Callback] Token exchange failed:", result.error);
@@ -127,15 +151,16 @@ app.post("/api/claude/callback", authMiddleware, async (c) => {
 
     // Save tokens to database
     console.log("[OAuth Callback] Saving OAuth tokens to database");
+    let accountId: string;
     try {
-      await saveOAuthTokens(user.userId, result.tokens);
-      console.log(`[OAuth Callback] Successfully connected Claude account for user ${user.userId}`);
+      accountId = await saveOAuthTokens(user.userId, result.tokens);
+      console.log(`[OAuth Callback] Successfully connected Claude account ${accountId} for user ${user.userId}`);
     } catch (dbError) {
       console.error("[OAuth Callback] Database error while saving tokens:", dbError);
       return c.json({ error: "Failed to save authentication tokens" }, 500);
     }
 
-    return c.json({ message: "Claude account connected successfully" });
+    return c.json({ message: "Claude account connected successfully", accountId });
   } catch (error) {
     console.error("[OAuth Callback] Unexpected error:", error);
     return c.json({
@@ -148,8 +173,7 @@ app.post("/api/claude/callback", authMiddleware, async (c) => {
 app.get("/api/claude/status", authMiddleware, async (c) => {
   try {
     const user = c.get("user");
-    const connected = await hasOAuthConnection(user.userId);
-    return c.json({ connected });
+    return c.json(await getConnectionStatus(user.userId));
   } catch (error) {
     console.error("[API] Error checking OAuth status:", error);
     return c.json({ error: "Failed to check OAuth status" }, 500);
@@ -171,6 +195,91 @@ app.delete("/api/claude/disconnect", authMiddleware, async (c) => {
   return c.json({ message: "Claude account disconnected" });
 });
 
+// List the owner's connected Claude accounts with their plan and window usage
+app.get("/api/claude/accounts", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  const planResult = await getUserPlan(user.userId);
+  const ownerPlan = (planResult.planType || "pro") as PlanType;
+  const accounts = await listAccounts(user.userId);
+  const now = Date.now();
+
+  const formatted = await Promise.all(accounts.map(async (account) => {
+    const planType = getAccountPlan(account, ownerPlan);
+    return {
+      id: account.id,
+      label: account.label,
+      email: account.account_email,
+      plan_type: account.plan_type,
+      effective_plan: planType,
+      created_at: Number(account.created_at),
+      last_used_at: account.last_used_at ? Number(account.last_used_at) : null,
+      rate_limited_until: account.rate_limited_until && Number(account.rate_limited_until) > now
+        ? Number(account.rate_limited_until)
+        : null,
+      health_status: account.health_status || "healthy",
+      last_error: account.last_error,
+      last_error_at: account.last_error_at ? Number(account.last_error_at) : null,
+      usage: await getAccountUsage(account.id, planType),
+    };
+  }));
+
+  return c.json({
+    strategy: await getAccountStrategy(user.userId),
+    accounts: formatted,
+  });
+});
+
+// Update an account's label or plan type
+app.patch("/api/claude/accounts/:id", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const accountId = c.req.param("id");
+  const body = await c.req.json().catch(() => ({}));
+
+  const result = await updateAccount(user.userId, accountId, {
+    label: body.label,
+    planType: body.planType,
+  });
+
+  if (!result.success) {
+    return c.json({ error: result.error }, result.error === "Account not found" ? 404 : 400);
+  }
+
+  return c.json({ message: "Account updated successfully" });
+});
+
+// Remove a single Claude account from the pool
+app.delete("/api/claude/accounts/:id", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const accountId = c.req.param("id");
+
+  const result = await disconnectOAuth(user.userId, accountId);
+
+  if (!result.success) {
+    return c.json({ error: "Account not found" }, 404);
+  }
+
+  return c.json({ message: "Claude account removed" });
+});
+
+// Set how requests are spread across the owner's accounts
+app.put("/api/claude/account-strategy", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json().catch(() => ({}));
+
+  if (!body.strategy) {
+    return c.json({ error: "Strategy is required" }, 400);
+  }
+
+  const result = await setAccountStrategy(user.userId, body.strategy);
+
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ message: "Account strategy updated successfully", strategy: body.strategy });
+});
+
 // API Key endpoints
 app.post("/api/keys/generate", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -217,6 +326,8 @@ app.get("/api/keys/list", authMiddleware, async (c) => {
       created_at: k.created_at,
       assigned_to_email: assignedToEmail,
       assignment_status: assignmentStatus,
+      invitation_expires_at: assignmentStatus === "pending" ? Number(k.invitation_expires_at) : null,
+      needs_rotation: k.hash_algorithm !== "hmac-sha256",
       usage: usage || {
         input_tokens: 0,
         output_tokens: 0,
@@ -264,6 +375,7 @@ app.get("/api/keys/list", authMiddleware, async (c) => {
       invitation_token: k.invitation_token,
       owner_email: owner?.email || 'Unknown',
       created_at: k.created_at,
+      expires_at: Number(k.invitation_expires_at),
     };
   }));
 
@@ -299,6 +411,19 @@ app.delete("/api/keys/:id", authMiddleware, async (c) => {
   return c.json({ message: "API key deleted successfully" });
 });
 
+// Rotate API key (issues a new secret; the old key stops working immediately)
+app.post("/api/keys/:id/rotate", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+
+  const result = await rotateApiKey(keyId, user.userId);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ key: result.key, prefix: result.prefix });
+});
+
 // Update API key's quota percentage
 app.patch("/api/keys/:id/quota-percentage", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -317,6 +442,47 @@ app.patch("/api/keys/:id/quota-percentage", authMiddleware, async (c) => {
   return c.json({ message: "Quota percentage updated successfully" });
 });
 
+// Update API key's quota warning thresholds
+app.patch("/api/keys/:id/warning-thresholds", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await updateWarningThresholds(keyId, user.userId, body?.thresholds);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ message: "Warning thresholds updated successfully" });
+});
+
+// Set an API key's dollar budget
+app.put("/api/keys/:id/budget", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await setKeyBudget(keyId, user.userId, body);
+  if (!result.success) {
+    const status = result.error === "Key not found or access denied" ? 404 : 400;
+    return c.json({ error: result.error }, status);
+  }
+
+  const [budget] = await getBudgetStatuses(user.userId, keyId);
+  return c.json({ budget: serializeBudget(budget) });
+});
+
+// Remove an API key's dollar budget
+app.delete("/api/keys/:id/budget", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  if (!(await deleteBudget(user.userId, c.req.param("id")))) {
+    return c.json({ error: "Budget not found" }, 404);
+  }
+
+  return c.json({ message: "Budget removed successfully" });
+});
+
 // Assign API key to user by email
 app.post("/api/keys/:id/assign", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -348,6 +514,68 @@ app.post("/api/keys/accept-invitation/:token", authMiddleware, async (c) => {
   return c.json({ message: "Invitation accepted successfully" });
 });
 
+// Decline invitation
+app.post("/api/keys/decline-invitation/:token", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const token = c.req.param("token");
+
+  const result = await declineInvitation(token, user.userId);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ message: "Invitation declined" });
+});
+
+// Send a key's pending invitation again with a new link and expiry
+app.post("/api/keys/:id/invitation/resend", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+
+  const result = await resendInvitation(keyId, user.userId);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ message: "Invitation resent", expires_at: result.expiresAt });
+});
+
+// Cancel a key's invitation, or revoke an accepted assignee's access to the key
+app.delete("/api/keys/:id/assignment", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+
+  const result = await removeAssignment(keyId, user.userId);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  // Revoking an accepted assignment rotates the key; the new value is only shown here
+  if (result.key) {
+    return c.json({ message: "Assignment revoked and key rotated", key: result.key, prefix: result.prefix });
+  }
+  return c.json({ message: "Assignment removed successfully" });
+});
+
+// Invitation and assignment history of a key (owner only, newest first, paginated with ?limit=&cursor=)
+app.get("/api/keys/:id/events", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+
+  const keyResult = await pool.query("SELECT id FROM api_keys WHERE id = $1 AND user_id = $2", [keyId, user.userId]);
+  if (!keyResult.rows[0]) {
+    return c.json({ error: "Key not found or access denied" }, 404);
+  }
+
+  const query = parsePageQuery(c.req.query("limit"), c.req.query("cursor"));
+  if (!query.success) {
+    return c.json({ error: query.error }, 400);
+  }
+
+  const page = await listKeyEvents(keyId, query.options);
+  return c.json(page);
+});
+
 // Get specific key usage
 app.get("/api/keys/:id/usage", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -379,6 +607,32 @@ app.get("/api/keys/:id/usage", authMiddleware, async (c) => {
   }});
 });
 
+// List proxied requests made with a key (newest first, paginated with ?limit=&cursor=)
+app.get("/api/keys/:id/requests", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const keyId = c.req.param("id");
+
+  // Owners and assigned users can both see the log
+  const keyResult = await pool.query(
+    `SELECT id FROM api_keys
+     WHERE id = $1
+     AND (user_id = $2 OR assigned_to_user_id = $3)
+     AND is_active = true`,
+    [keyId, user.userId, user.userId]
+  );
+  if (!keyResult.rows[0]) {
+    return c.json({ error: "Key not found or access denied" }, 404);
+  }
+
+  const query = parsePageQuery(c.req.query("limit"), c.req.query("cursor"));
+  if (!query.success) {
+    return c.json({ error: query.error }, 400);
+  }
+
+  const page = await listProxyRequests(keyId, query.options);
+  return c.json(page);
+});
+
 // Get quota status for specific key
 app.get("/api/keys/:id/quota", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -386,13 +640,13 @@ app.get("/api/keys/:id/quota", authMiddleware, async (c) => {
 
   // Verify user has access to this key (either owner or assigned user) and get owner's user_id and quota_percentage
   const keyResult = await pool.query(
-    `SELECT user_id, quota_percentage FROM api_keys
+    `SELECT user_id, quota_percentage, warning_thresholds FROM api_keys
      WHERE id = $1
      AND (user_id = $2 OR assigned_to_user_id = $3)
      AND is_active = true`,
     [keyId, user.userId, user.userId]
   );
-  const key = keyResult.rows[0] as { user_id: string; quota_percentage: number } | undefined;
+  const key = keyResult.rows[0] as { user_id: string; quota_percentage: number; warning_thresholds: number[] } | undefined;
 
   if (!key) {
     return c.json({ error: "Key not found or access denied" }, 404);
@@ -403,23 +657,26 @@ app.get("/api/keys/:id/quota", authMiddleware, async (c) => {
     `SELECT plan_type FROM users WHERE id = $1`,
     [key.user_id]
   );
-  const planType = ownerResult.rows[0]?.plan_type || "pro";
-  const planLimits = PLAN_LIMITS[planType];
+  const planType = resolvePlanType(ownerResult.rows[0]?.plan_type);
+  const planLimits = getPlanLimits(planType);
   const quotaPercentage = key.quota_percentage ?? 100;
 
-  // Calculate effective limits based on quota percentage
-  const effectiveCreditsLimit = calculateEffectiveLimit(planLimits.creditsPerWindow, quotaPercentage);
-
-  const usage = await getRollingWindowUsage(keyId, planLimits.windowHours);
-
-  // Calculate percentages based on effective limits
-  const creditPercentage = Math.round((usage.currentCredits / effectiveCreditsLimit) * 100);
-  const isOverLimit = creditPercentage >= 100;
+  // Every window of the plan, primary (e.g. 5h) first: the key's share, and the owner's pool it draws from
+  const [windows, poolWindows, budgets] = await Promise.all([
+    getQuotaWindowStatuses(keyId, planType, quotaPercentage),
+    getPoolWindowStatuses(key.user_id, planType),
+    getBudgetStatuses(key.user_id, keyId),
+  ]);
+  const [primary] = windows;
+  const usage = primary.usage;
+  const creditPercentage = primary.percentages.creditPercentage;
+  const isOverLimit = windows.some((window) => window.percentages.isOverLimit && !window.modelFamilies);
 
   return c.json({
     quota: {
       plan: planType,
       quotaPercentage,
+      warningThresholds: key.warning_thresholds,
       usage: {
         credits: usage.currentCredits,
         requests: usage.currentRequests,
@@ -427,15 +684,25 @@ app.get("/api/keys/:id/quota", authMiddleware, async (c) => {
       },
       percentages: {
         credits: creditPercentage,
-        overall: creditPercentage,
+        overall: Math.max(...windows.map((window) => window.percentages.creditPercentage)),
         isOverLimit,
       },
       limits: {
         planCreditsPerWindow: planLimits.creditsPerWindow,
-        effectiveCreditsPerWindow: effectiveCreditsLimit,
-        creditsPerWindow: effectiveCreditsLimit, // For backward compatibility
+        effectiveCreditsPerWindow: primary.effectiveCredits,
+        creditsPerWindow: primary.effectiveCredits, // For backward compatibility
         windowHours: planLimits.windowHours,
       },
+      windows: windows.map(serializeQuotaWindow),
+      pool: poolWindows.map(serializeQuotaWindow),
+      budgets: {
+        key: serializeBudget(budgets.find((budget) => budget.scope === "key")),
+        owner: serializeBudget(budgets.find((budget) => budget.scope === "owner")),
+      },
+      models: {
+        allowed: planLimits.allowedModels,
+        denied: getDeniedModels(planType),
+      },
       reset: {
         nextResetAt: new Date(usage.nextResetAt).toISOString(),
         timeUntilResetMs: usage.timeUntilResetMs,
@@ -446,6 +713,45 @@ app.get("/api/keys/:id/quota", authMiddleware, async (c) => {
   });
 });
 
+// Usage and reset time of one quota window, as reported by the quota endpoints
+function serializeQuotaWindow(window: QuotaWindowStatus) {
+  return {
+    name: window.name,
+    windowHours: window.windowHours,
+    models: window.modelFamilies,
+    credits: window.usage.currentCredits,
+    reservedCredits: window.usage.reservedCredits,
+    requests: window.usage.currentRequests,
+    planCredits: window.planCredits,
+    effectiveCredits: window.effectiveCredits,
+    percentage: window.percentages.creditPercentage,
+    isOverLimit: window.percentages.isOverLimit,
+    nextResetAt: window.resetTime.toISOString(),
+    timeUntilResetMs: window.usage.timeUntilResetMs,
+    timeUntilResetHuman: formatDuration(window.usage.timeUntilResetMs),
+  };
+}
+
+// Spend and limit of a dollar budget, as reported by the quota and budget endpoints
+function serializeBudget(budget: BudgetStatus | undefined) {
+  if (!budget) {
+    return null;
+  }
+  return {
+    scope: budget.scope,
+    amountUsd: budget.amountUsd,
+    spentUsd: budget.spentUsd,
+    remainingUsd: budget.remainingUsd,
+    percentage: budget.percentage,
+    period: budget.period,
+    periodStart: budget.periodStart.toISOString(),
+    periodEnd: budget.periodEnd.toISOString(),
+    mode: budget.mode,
+    isActive: budget.isActive,
+    isOverBudget: budget.isOverBudget,
+  };
+}
+
 // Get aggregate quota overview for all owned keys
 app.get("/api/quota/overview", authMiddleware, async (c) => {
   const user = c.get("user");
@@ -456,40 +762,65 @@ app.get("/api/quota/overview", authMiddleware, async (c) => {
 
   // Get all owned keys (not assigned keys)
   const keysResult = await pool.query(
-    `SELECT id, name, key_prefix FROM api_keys
+    `SELECT id, name, key_prefix, quota_percentage FROM api_keys
      WHERE user_id = $1 AND is_active = true`,
     [user.userId]
   );
   const keys = keysResult.rows;
 
+  // The owner's plan is one pool shared by all of their keys
+  const [poolWindows, [ownerBudget], keyBudgets] = await Promise.all([
+    getPoolWindowStatuses(user.userId, userPlanType),
+    getBudgetStatuses(user.userId),
+    getKeyBudgetStatuses(user.userId),
+  ]);
+  const [primaryPool] = poolWindows;
+  const poolSummary = {
+    plan: userPlanType,
+    credits: primaryPool.usage.currentCredits,
+    planCredits: primaryPool.planCredits,
+    percentage: primaryPool.percentages.creditPercentage,
+    isOverLimit: poolWindows.some((window) => window.percentages.isOverLimit && !window.modelFamilies),
+    windows: poolWindows.map(serializeQuotaWindow),
+  };
+
   if (keys.length === 0) {
     return c.json({
       overview: {
         totalKeys: 0,
+        overallPercentage: poolSummary.percentage,
+        pool: poolSummary,
+        budget: serializeBudget(ownerBudget),
         aggregateUsage: { credits: 0, requests: 0, cost: 0 },
         keys: [],
       },
     });
   }
 
-  // Get quota for each key (all use user's plan)
+  // Get quota for each key (all share the user's plan; percentages are of each key's share)
   const keyQuotas = await Promise.all(
     keys.map(async (key) => {
       const planType = userPlanType;
-      const planLimits = PLAN_LIMITS[planType];
-      const usage = await getRollingWindowUsage(key.id, planLimits.windowHours);
-      const percentages = calculateUsagePercentage(usage, planType);
+      const planLimits = getPlanLimits(planType);
+      const quotaPercentage = key.quota_percentage ?? 100;
+      const windows = await getQuotaWindowStatuses(key.id, planType, quotaPercentage);
+      const [primary] = windows;
 
       return {
         keyId: key.id,
         keyPrefix: key.key_prefix,
         name: key.name,
         plan: planType,
-        credits: usage.currentCredits,
-        requests: usage.currentRequests,
-        cost: usage.currentCost,
-        percentage: percentages.creditPercentage,
-        isOverLimit: percentages.isOverLimit,
+        quotaPercentage,
+        credits: primary.usage.currentCredits,
+        requests: primary.usage.currentRequests,
+        cost: primary.usage.currentCost,
+        percentage: primary.percentages.creditPercentage,
+        isOverLimit: primary.percentages.isOverLimit,
+        windows: windows.map(serializeQuotaWindow),
+        budget: serializeBudget(keyBudgets[key.id]),
+        allowedModels: planLimits.allowedModels,
+        deniedModels: getDeniedModels(planType),
       };
     })
   );
@@ -501,11 +832,6 @@ app.get("/api/quota/overview", authMiddleware, async (c) => {
     cost: keyQuotas.reduce((sum, k) => sum + k.cost, 0),
   };
 
-  // Calculate overall percentage (average across all keys)
-  const overallPercentage = keys.length > 0
-    ? Math.round(keyQuotas.reduce((sum, k) => sum + k.percentage, 0) / keys.length)
-    : 0;
-
   // Find keys approaching limits (>= 80% usage)
   const keysApproachingLimit = keyQuotas
     .filter(k => k.percentage >= 80)
@@ -518,7 +844,9 @@ app.get("/api/quota/overview", authMiddleware, async (c) => {
   return c.json({
     overview: {
       totalKeys: keys.length,
-      overallPercentage,
+      overallPercentage: poolSummary.percentage,
+      pool: poolSummary,
+      budget: serializeBudget(ownerBudget),
       keysApproachingLimit,
       aggregateUsage,
       keys: keyQuotas,
@@ -536,7 +864,7 @@ app.get("/api/user/plan", authMiddleware, async (c) => {
     return c.json({ error: result.error }, 500);
   }
 
-  return c.json({ plan: result.planType });
+  return c.json({ plan: result.planType, availablePlans: listPlans().map((plan) => plan.name) });
 });
 
 // Update current user's plan
@@ -557,11 +885,194 @@ app.patch("/api/user/plan", authMiddleware, async (c) => {
   return c.json({ message: "Plan updated successfully" });
 });
 
+// List the current user's notifications, newest first
+app.get("/api/notifications", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  const notifications = await listNotifications(user.userId, { unreadOnly: c.req.query("unread") === "true" });
+  return c.json({ notifications });
+});
+
+// Mark a notification as read
+app.post("/api/notifications/:id/read", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const id = c.req.param("id");
+
+  if (!/^\d+$/.test(id) || !(await markNotificationRead(Number(id), user.userId))) {
+    return c.json({ error: "Notification not found" }, 404);
+  }
+
+  return c.json({ message: "Notification marked as read" });
+});
+
+// Get the owner's account-wide budget
+app.get("/api/user/budget", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  const [budget] = await getBudgetStatuses(user.userId);
+  return c.json({ budget: serializeBudget(budget) });
+});
+
+// Set the owner's account-wide budget (covers all of their keys)
+app.put("/api/user/budget", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await setOwnerBudget(user.userId, body);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  const [budget] = await getBudgetStatuses(user.userId);
+  return c.json({ budget: serializeBudget(budget) });
+});
+
+// Remove the owner's account-wide budget
+app.delete("/api/user/budget", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  if (!(await deleteBudget(user.userId, null))) {
+    return c.json({ error: "Budget not found" }, 404);
+  }
+
+  return c.json({ message: "Budget removed successfully" });
+});
+
+// List the owner's webhook endpoints and the events they can subscribe to
+app.get("/api/webhooks", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  const endpoints = await listWebhookEndpoints(user.userId);
+  return c.json({ endpoints, availableEvents: WEBHOOK_EVENTS });
+});
+
+// Register a webhook endpoint; the signing secret is only returned here
+app.post("/api/webhooks", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await createWebhookEndpoint(user.userId, body);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ endpoint: result.endpoint, secret: result.secret }, 201);
+});
+
+// Change a webhook endpoint's URL, events, description or active state
+app.patch("/api/webhooks/:id", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await updateWebhookEndpoint(c.req.param("id"), user.userId, body);
+  if (!result.success) {
+    return c.json({ error: result.error }, result.error === "Webhook endpoint not found" ? 404 : 400);
+  }
+
+  return c.json({ endpoint: result.endpoint });
+});
+
+// Delete a webhook endpoint and its delivery log
+app.delete("/api/webhooks/:id", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  if (!(await deleteWebhookEndpoint(c.req.param("id"), user.userId))) {
+    return c.json({ error: "Webhook endpoint not found" }, 404);
+  }
+
+  return c.json({ message: "Webhook endpoint deleted successfully" });
+});
+
+// List a webhook endpoint's deliveries (newest first, paginated with ?limit=&cursor=)
+app.get("/api/webhooks/:id/deliveries", authMiddleware, async (c) => {
+  const user = c.get("user");
+
+  const query = parsePageQuery(c.req.query("limit"), c.req.query("cursor"));
+  if (!query.success) {
+    return c.json({ error: query.error }, 400);
+  }
+
+  const page = await listWebhookDeliveries(c.req.param("id"), user.userId, query.options);
+  if (!page) {
+    return c.json({ error: "Webhook endpoint not found" }, 404);
+  }
+
+  return c.json(page);
+});
+
+// Send a delivery again (queued as a new delivery with the same payload)
+app.post("/api/webhooks/:id/deliveries/:deliveryId/replay", authMiddleware, async (c) => {
+  const user = c.get("user");
+  const deliveryId = c.req.param("deliveryId");
+
+  if (!/^\d+$/.test(deliveryId)) {
+    return c.json({ error: "Delivery not found" }, 404);
+  }
+
+  const result = await replayWebhookDelivery(c.req.param("id"), Number(deliveryId), user.userId);
+  if (!result.success) {
+    return c.json({ error: result.error }, result.error === "Delivery not found" ? 404 : 400);
+  }
+
+  return c.json({ message: "Delivery queued for replay", deliveryId: result.deliveryId }, 202);
+});
+
+// Admin: list plans
+app.get("/api/admin/plans", authMiddleware, adminMiddleware, (c) => {
+  return c.json({ plans: listPlans() });
+});
+
+// Admin: create or replace a plan
+app.put("/api/admin/plans/:name", authMiddleware, adminMiddleware, async (c) => {
+  const name = c.req.param("name");
+  const body = await c.req.json().catch(() => null);
+
+  const result = await savePlan(name, body);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ plan: listPlans().find((plan) => plan.name === name) });
+});
+
+// Admin: delete a plan nobody is on
+app.delete("/api/admin/plans/:name", authMiddleware, adminMiddleware, async (c) => {
+  const result = await deletePlan(c.req.param("name"));
+  if (!result.success) {
+    const status = result.error === "Plan not found" ? 404 : result.inUse ? 409 : 400;
+    return c.json({ error: result.error }, status);
+  }
+
+  return c.json({ message: "Plan deleted successfully" });
+});
+
+// Admin: list model weights
+app.get("/api/admin/model-weights", authMiddleware, adminMiddleware, (c) => {
+  return c.json({ weights: getModelWeights() });
+});
+
+// Admin: set a model family's credit weight
+app.put("/api/admin/model-weights/:family", authMiddleware, adminMiddleware, async (c) => {
+  const body = await c.req.json().catch(() => null);
+
+  const result = await saveModelWeight(c.req.param("family"), body?.weight);
+  if (!result.success) {
+    return c.json({ error: result.error }, 400);
+  }
+
+  return c.json({ weights: getModelWeights() });
+});
+
 // Proxy endpoint (public - uses API key)
 app.post("/v1/messages", async (c) => {
   return proxyToClaudeAPI(c.req.raw);
 });
 
+// OpenAI-compatible endpoint (public - uses API key)
+app.post("/v1/chat/completions", async (c) => {
+  return proxyOpenAIChatCompletions(c.req.raw);
+});
+
 // Health check
 app.get("/health", async (c) => {
   try {
@@ -598,6 +1109,19 @@ app.get("/health", async (c) => {
   }
 });
 
+// Prometheus metrics (requires METRICS_TOKEN as a bearer token)
+app.get("/metrics", (c) => {
+  const auth = checkMetricsAuth(c.req.header("authorization"));
+  if (auth === "disabled") {
+    return c.json({ error: "Metrics are disabled. Set METRICS_TOKEN to enable them." }, 404);
+  }
+  if (auth === "unauthorized") {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  return c.text(renderMetrics(), 200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+});
+
 // Catch-all: proxy any /v1/* routes to Claude API
 app.all("/v1/*", async (c) => {
   const path = new URL(c.req.url).pathname;
@@ -607,10 +1131,19 @@ app.all("/v1/*", async (c) => {
 
 const port = parseInt(process.env.PORT || "3000");
 
+// Export traces when an OTLP endpoint is configured
+initTracing();
+
 // Initialize database and start server
 initializeDatabase()
+  .then(loadPlans)
   .then(() => {
     console.log(`Server running on http://localhost:${port}`);
+    // Keep idle Claude connections fresh and send queued notifications (not under the test runner, where fetch is mocked per test)
+    if (process.env.NODE_ENV !== "test") {
+      startTokenRefreshJob();
+      startOutboxWorker();
+    }
   })
   .catch((error) => {
     console.error("Failed to initialize database:", error);
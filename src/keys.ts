@@ -1,14 +1,20 @@
 import bcrypt from "bcryptjs";
-import { randomBytes, randomUUID } from "crypto";
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
 import pool from "./db";
 import { initializeKeyUsage } from "./usage";
-import { PlanType } from "./limits";
+import { PLAN_LIMITS, PlanType, resolvePlanType } from "./limits";
+import { notify } from "./notifications";
+import { getChannelConfig } from "./channels";
+import { emitWebhookEvent } from "./webhooks";
+import { recordKeyEvent } from "./audit";
 
 export interface ApiKey {
   id: string;
   user_id: string;
   key_hash: string;
   key_prefix: string;
+  key_lookup_id: string | null;
+  hash_algorithm: KeyHashAlgorithm;
   name: string | null;
   is_active: boolean;
   created_at: number;
@@ -16,6 +22,57 @@ export interface ApiKey {
   assigned_to_user_id: string | null;
   assignment_status: string;
   invitation_token: string | null;
+  invitation_expires_at: number | null;
+}
+
+// How long an invitation can be accepted (INVITATION_TTL_DAYS, default 7)
+function getInvitationTtlMs(): number {
+  return Number(process.env.INVITATION_TTL_DAYS || 7) * 24 * 60 * 60 * 1000;
+}
+
+// Clears every assignment column, returning the key to 'unassigned'
+const CLEAR_ASSIGNMENT = `assigned_to_email = NULL,
+           assigned_to_user_id = NULL,
+           assignment_status = 'unassigned',
+           invitation_token = NULL,
+           invitation_expires_at = NULL`;
+
+/**
+ * Key hashing schemes
+ * - hmac-sha256: current scheme, key is `sk-proj-<lookupId>-<secret>` and looked up by lookupId
+ * - bcrypt: legacy scheme for keys issued before lookup ids; kept working until the key is rotated
+ */
+export type KeyHashAlgorithm = "hmac-sha256" | "bcrypt";
+
+const API_KEY_SECRET = process.env.API_KEY_SECRET || process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+const KEY_FORMAT = /^sk-proj-([0-9a-f]{16})-([0-9a-f]{64})$/;
+// Keys issued before lookup ids, stored with their first 15 characters as prefix
+const LEGACY_KEY_FORMAT = /^sk-proj-[0-9a-f]{64}$/;
+
+// Build a new key string with an embedded public lookup id
+function createKeyMaterial(): { key: string; lookupId: string; keyHash: string; keyPrefix: string } {
+  const lookupId = randomBytes(8).toString("hex");
+  const secret = randomBytes(32).toString("hex");
+  const key = `sk-proj-${lookupId}-${secret}`;
+
+  return {
+    key,
+    lookupId,
+    keyHash: hashApiKey(key),
+    keyPrefix: `${key.substring(0, 15)}...`,
+  };
+}
+
+// Keyed hash of the full API key (fast, so lookups cost a single HMAC)
+export function hashApiKey(key: string): string {
+  return createHmac("sha256", API_KEY_SECRET).update(key).digest("hex");
+}
+
+// Extract the public lookup id from a key, or null for legacy/unknown formats
+export function parseKeyLookupId(key: string): string | null {
+  const match = KEY_FORMAT.exec(key);
+  return match ? match[1] : null;
 }
 
 // Generate a new API key
@@ -33,22 +90,25 @@ export async function generateApiKey(
     }
 
     const keyId = randomUUID();
-    const randomPart = randomBytes(32).toString("hex");
-    const key = `sk-proj-${randomPart}`;
-    const keyHash = await bcrypt.hash(key, 10);
-    const keyPrefix = `${key.substring(0, 15)}...`;
+    const { key, lookupId, keyHash, keyPrefix } = createKeyMaterial();
 
     const finalQuotaPercentage = quotaPercentage ?? 100;
 
     await pool.query(
-      `INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name, quota_percentage)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [keyId, userId, keyHash, keyPrefix, name || null, finalQuotaPercentage]
+      `INSERT INTO api_keys (id, user_id, key_hash, key_prefix, key_lookup_id, hash_algorithm, name, quota_percentage)
+       VALUES ($1, $2, $3, $4, $5, 'hmac-sha256', $6, $7)`,
+      [keyId, userId, keyHash, keyPrefix, lookupId, name || null, finalQuotaPercentage]
     );
 
     // Initialize usage tracking for the new key
     await initializeKeyUsage(keyId);
 
+    await emitWebhookEvent(userId, "key.created", `API key ${name || keyPrefix} was created`, {
+      keyId,
+      name: name || null,
+      keyPrefix,
+    });
+
     return {
       success: true,
       key,
@@ -63,7 +123,43 @@ export async function generateApiKey(
 // Validate API key and return user ID and key ID
 export async function validateApiKey(key: string): Promise<{ valid: boolean; userId?: string; keyId?: string; error?: string }> {
   try {
-    const result = await pool.query("SELECT * FROM api_keys WHERE is_active = true", []);
+    const lookupId = parseKeyLookupId(key);
+
+    if (lookupId) {
+      // Current scheme: single indexed lookup plus one constant-time HMAC comparison
+      const result = await pool.query(
+        `SELECT * FROM api_keys
+         WHERE key_lookup_id = $1
+         AND hash_algorithm = 'hmac-sha256'
+         AND is_active = true`,
+        [lookupId]
+      );
+      const apiKey = result.rows[0] as ApiKey | undefined;
+
+      if (apiKey) {
+        const expected = Buffer.from(apiKey.key_hash, "hex");
+        const actual = Buffer.from(hashApiKey(key), "hex");
+        if (expected.length === actual.length && timingSafeEqual(expected, actual)) {
+          return {
+            valid: true,
+            userId: apiKey.user_id,
+            keyId: apiKey.id,
+          };
+        }
+      }
+
+      return { valid: false, error: "Invalid API key" };
+    }
+
+    // Legacy scheme: only legacy-shaped keys are bcrypt-checked, and only against keys
+    // issued before lookup ids that share their stored prefix (in practice a single row)
+    if (!LEGACY_KEY_FORMAT.test(key)) {
+      return { valid: false, error: "Invalid API key" };
+    }
+    const result = await pool.query(
+      "SELECT * FROM api_keys WHERE is_active = true AND key_lookup_id IS NULL AND key_prefix = $1",
+      [`${key.substring(0, 15)}...`]
+    );
     const allKeys = result.rows as ApiKey[];
 
     for (const apiKey of allKeys) {
@@ -84,6 +180,35 @@ export async function validateApiKey(key: string): Promise<{ valid: boolean; use
   }
 }
 
+// Rotate an API key: issue a new secret for the same key, keeping usage, quota and assignment
+export async function rotateApiKey(
+  keyId: string,
+  userId: string
+): Promise<{ success: boolean; key?: string; prefix?: string; error?: string }> {
+  try {
+    const { key, lookupId, keyHash, keyPrefix } = createKeyMaterial();
+
+    const result = await pool.query(
+      `UPDATE api_keys
+       SET key_hash = $1,
+           key_prefix = $2,
+           key_lookup_id = $3,
+           hash_algorithm = 'hmac-sha256'
+       WHERE id = $4 AND user_id = $5 AND is_active = true`,
+      [keyHash, keyPrefix, lookupId, keyId, userId]
+    );
+
+    if ((result.rowCount || 0) === 0) {
+      return { success: false, error: "Key not found or access denied" };
+    }
+
+    return { success: true, key, prefix: keyPrefix };
+  } catch (error) {
+    console.error("[Keys] Rotate API key error:", error);
+    return { success: false, error: "Failed to rotate API key" };
+  }
+}
+
 // List user's API keys
 export async function listApiKeys(userId: string): Promise<ApiKey[]> {
   try {
@@ -116,10 +241,20 @@ export async function revokeApiKey(keyId: string, userId: string): Promise<boole
 export async function deleteApiKey(keyId: string, userId: string): Promise<boolean> {
   try {
     const result = await pool.query(
-      "DELETE FROM api_keys WHERE id = $1 AND user_id = $2",
+      "DELETE FROM api_keys WHERE id = $1 AND user_id = $2 RETURNING name, key_prefix",
       [keyId, userId]
     );
-    return (result.rowCount || 0) > 0;
+    const deleted = result.rows[0];
+    if (!deleted) {
+      return false;
+    }
+
+    await emitWebhookEvent(userId, "key.deleted", `API key ${deleted.name || deleted.key_prefix} was deleted`, {
+      keyId,
+      name: deleted.name,
+      keyPrefix: deleted.key_prefix,
+    });
+    return true;
   } catch (error) {
     console.error("[Keys] Delete API key error:", error);
     return false;
@@ -161,19 +296,22 @@ export async function assignKey(keyId: string, ownerId: string, email: string):
 
     // Generate invitation token
     const invitationToken = randomUUID();
+    const expiresAt = Date.now() + getInvitationTtlMs();
 
     // Update key with assignment details
     await pool.query(
       `UPDATE api_keys
        SET assigned_to_email = $1,
            assignment_status = 'pending',
-           invitation_token = $2
-       WHERE id = $3`,
-      [email, invitationToken, keyId]
+           invitation_token = $2,
+           invitation_expires_at = $3
+       WHERE id = $4`,
+      [email, invitationToken, expiresAt, keyId]
     );
 
-    // TODO: Send email with invitation link
-    console.log(`Invitation link: /api/keys/accept-invitation/${invitationToken}`);
+    await recordKeyEvent(keyId, ownerId, "invitation_sent", email);
+    await sendInvitation(key, ownerId, email, invitationToken, expiresAt);
+    console.log(`[Keys] Key ${keyId} assigned to ${email}, invitation queued`);
 
     return { success: true };
   } catch (error) {
@@ -182,6 +320,113 @@ export async function assignKey(keyId: string, ownerId: string, email: string):
   }
 }
 
+// Email the invitee a link that accepts the invitation once they sign in with this address
+async function sendInvitation(key: ApiKey, ownerId: string, email: string, token: string, expiresAt: number): Promise<void> {
+  const ownerResult = await pool.query("SELECT email FROM users WHERE id = $1", [ownerId]);
+  const ownerEmail = ownerResult.rows[0]?.email || "A teammate";
+  const keyName = key.name || key.key_prefix;
+  const config = getChannelConfig();
+  const acceptUrl = `${config.publicBaseUrl}/dashboard?invitation=${token}`;
+  await notify({
+    type: "invitation",
+    emails: [email],
+    keyId: key.id,
+    subject: `${ownerEmail} shared a Claude API key with you`,
+    message: `${ownerEmail} shared the API key ${keyName} with ${email}. To accept it, open ${acceptUrl} and sign in or register with this email address before ${new Date(expiresAt).toUTCString()}.`,
+    data: { ownerEmail, assignedToEmail: email, expiresAt },
+  });
+
+  // Email is the only channel that reaches the invitee
+  if (!config.smtpUrl) {
+    console.warn(`[Keys] SMTP_URL is not set, so the invitation for key ${key.id} was not emailed to ${email}; they can still accept it from the dashboard`);
+  }
+}
+
+// Send a pending (or expired) invitation again with a new token and expiry
+export async function resendInvitation(keyId: string, ownerId: string): Promise<{ success: boolean; expiresAt?: number; error?: string }> {
+  try {
+    const keyResult = await pool.query(
+      "SELECT * FROM api_keys WHERE id = $1 AND user_id = $2",
+      [keyId, ownerId]
+    );
+    const key = keyResult.rows[0] as ApiKey | undefined;
+
+    if (!key) {
+      return { success: false, error: "API key not found or you don't have permission" };
+    }
+    if (key.assignment_status !== "pending" || !key.assigned_to_email) {
+      return { success: false, error: "This key has no pending invitation" };
+    }
+
+    // A new token invalidates the previous email's link
+    const expiresAt = Date.now() + getInvitationTtlMs();
+    const invitationToken = randomUUID();
+    await pool.query(
+      "UPDATE api_keys SET invitation_token = $1, invitation_expires_at = $2 WHERE id = $3",
+      [invitationToken, expiresAt, keyId]
+    );
+
+    await recordKeyEvent(keyId, ownerId, "invitation_resent", key.assigned_to_email);
+    await sendInvitation(key, ownerId, key.assigned_to_email, invitationToken, expiresAt);
+    console.log(`[Keys] Invitation for key ${keyId} resent to ${key.assigned_to_email}`);
+
+    return { success: true, expiresAt };
+  } catch (error) {
+    console.error("[Keys] Resend invitation error:", error);
+    return { success: false, error: "Failed to resend invitation" };
+  }
+}
+
+// Cancel a key's pending invitation or take the key away from its assignee
+// An accepted assignee holds the key's value, so the key is rotated and the new value returned to the owner
+export async function removeAssignment(
+  keyId: string,
+  ownerId: string
+): Promise<{ success: boolean; key?: string; prefix?: string; error?: string }> {
+  try {
+    const keyResult = await pool.query(
+      "SELECT * FROM api_keys WHERE id = $1 AND user_id = $2",
+      [keyId, ownerId]
+    );
+    const key = keyResult.rows[0] as ApiKey | undefined;
+
+    if (!key) {
+      return { success: false, error: "API key not found or you don't have permission" };
+    }
+    if (key.assignment_status !== "pending" && key.assignment_status !== "accepted") {
+      return { success: false, error: "This key is not assigned" };
+    }
+
+    const action = key.assignment_status === "accepted" ? "assignment_revoked" : "invitation_cancelled";
+
+    // The assignment is cleared and the key rotated in one statement, so a failure leaves
+    // the assignment in place for the owner to retry rather than the old value working
+    const rotated = action === "assignment_revoked" && key.is_active ? createKeyMaterial() : null;
+    if (rotated) {
+      await pool.query(
+        `UPDATE api_keys
+         SET ${CLEAR_ASSIGNMENT},
+             key_hash = $2,
+             key_prefix = $3,
+             key_lookup_id = $4,
+             hash_algorithm = 'hmac-sha256'
+         WHERE id = $1`,
+        [keyId, rotated.keyHash, rotated.keyPrefix, rotated.lookupId]
+      );
+    } else {
+      await pool.query(`UPDATE api_keys SET ${CLEAR_ASSIGNMENT} WHERE id = $1`, [keyId]);
+    }
+
+    console.log(`[Keys] Key ${keyId} unassigned from ${key.assigned_to_email} (${action})`);
+    await recordKeyEvent(keyId, ownerId, action, key.assigned_to_email);
+
+    return rotated ? { success: true, key: rotated.key, prefix: rotated.keyPrefix } : { success: true };
+  } catch (error) {
+    console.error("[Keys] Remove assignment error:", error);
+    return { success: false, error: "Failed to remove assignment" };
+  }
+}
+
 // Accept key invitation
 export async function acceptInvitation(token: string, userId: string): Promise<{ success: boolean; error?: string }> {
   try {
@@ -195,7 +440,7 @@ export async function acceptInvitation(token: string, userId: string): Promise<{
     );
     const key = keyResult.rows[0] as ApiKey | undefined;
 
-    if (!key) {
+    if (!key || Number(key.invitation_expires_at) <= Date.now()) {
       return { success: false, error: "Invalid or expired invitation" };
     }
 
@@ -221,6 +466,13 @@ export async function acceptInvitation(token: string, userId: string): Promise<{
       [userId, key.id]
     );
 
+    await recordKeyEvent(key.id, userId, "invitation_accepted", user.email);
+    await emitWebhookEvent(key.user_id, "invitation.accepted", `${user.email} accepted API key ${key.name || key.key_prefix}`, {
+      keyId: key.id,
+      assignedToEmail: user.email,
+      assignedToUserId: userId,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("acceptInvitation error:", error);
@@ -228,16 +480,49 @@ export async function acceptInvitation(token: string, userId: string): Promise<{
   }
 }
 
-// Get pending invitations for a user's email
+// Decline key invitation (by the invitee)
+export async function declineInvitation(token: string, userId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const keyResult = await pool.query(
+      "SELECT * FROM api_keys WHERE invitation_token = $1 AND assignment_status = 'pending'",
+      [token]
+    );
+    const key = keyResult.rows[0] as ApiKey | undefined;
+
+    if (!key) {
+      return { success: false, error: "Invalid or expired invitation" };
+    }
+
+    const userResult = await pool.query("SELECT email FROM users WHERE id = $1", [userId]);
+    const user = userResult.rows[0] as { email: string } | undefined;
+
+    if (!user || key.assigned_to_email !== user.email) {
+      return { success: false, error: "This invitation was sent to a different email address" };
+    }
+
+    await pool.query(`UPDATE api_keys SET ${CLEAR_ASSIGNMENT} WHERE id = $1`, [key.id]);
+
+    console.log(`[Keys] ${user.email} declined the invitation for key ${key.id}`);
+    await recordKeyEvent(key.id, userId, "invitation_declined", user.email);
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Keys] Decline invitation error:", error);
+    return { success: false, error: "Failed to decline invitation" };
+  }
+}
+
+// Get pending, unexpired invitations for a user's email
 export async function getPendingInvitations(email: string): Promise<ApiKey[]> {
   try {
     const result = await pool.query(
       `SELECT * FROM api_keys
        WHERE assigned_to_email = $1
        AND assignment_status = 'pending'
+       AND invitation_expires_at > $2
        AND is_active = true
        ORDER BY created_at DESC`,
-      [email]
+      [email, Date.now()]
     );
     return result.rows as ApiKey[];
   } catch (error) {
@@ -288,8 +573,8 @@ export async function getUserPlan(userId: string): Promise<{ success: boolean; p
       return { success: false, error: "User not found" };
     }
 
-    // Default to 'pro' if plan_type is null
-    const planType = (user.plan_type || "pro") as PlanType;
+    // Unset and deleted plans fall back to the default plan
+    const planType = resolvePlanType(user.plan_type);
 
     return { success: true, planType };
   } catch (error) {
@@ -302,9 +587,8 @@ export async function getUserPlan(userId: string): Promise<{ success: boolean; p
 export async function updateUserPlan(userId: string, planType: PlanType): Promise<{ success: boolean; error?: string }> {
   try {
     // Validate plan type
-    const validPlans: PlanType[] = ["free", "pro", "max-5x", "max-20x"];
-    if (!validPlans.includes(planType)) {
-      return { success: false, error: "Invalid plan type. Must be one of: free, pro, max-5x, max-20x" };
+    if (!PLAN_LIMITS[planType]) {
+      return { success: false, error: "Invalid plan type. Must be one of: " + Object.keys(PLAN_LIMITS).join(", ") };
     }
 
     const result = await pool.query(
@@ -351,3 +635,39 @@ export async function updateQuotaPercentage(
     return { success: false, error: "Failed to update quota percentage" };
   }
 }
+
+/**
+ * Update API key's warning thresholds (usage percentages that notify its owner and assignee)
+ * An empty list turns warnings off for the key.
+ */
+export async function updateWarningThresholds(
+  keyId: string,
+  userId: string,
+  thresholds: unknown
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (
+      !Array.isArray(thresholds) ||
+      thresholds.length > 10 ||
+      !thresholds.every((t) => Number.isInteger(t) && t >= 1 && t <= 100)
+    ) {
+      return { success: false, error: "Thresholds must be a list of at most 10 whole percentages between 1 and 100" };
+    }
+    const sorted = [...new Set(thresholds as number[])].sort((a, b) => a - b);
+
+    // Verify user owns this key
+    const result = await pool.query(
+      "UPDATE api_keys SET warning_thresholds = $1 WHERE id = $2 AND user_id = $3",
+      [JSON.stringify(sorted), keyId, userId]
+    );
+
+    if ((result.rowCount || 0) === 0) {
+      return { success: false, error: "Key not found or access denied" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Keys] Update warning thresholds error:", error);
+    return { success: false, error: "Failed to update warning thresholds" };
+  }
+}
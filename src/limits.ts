@@ -3,75 +3,204 @@
  * Handles model credit weights and plan-based rate limiting
  */
 
-export type PlanType = "free" | "pro" | "max-5x" | "max-20x";
+// Built-in plans are "free", "pro", "max-5x" and "max-20x"; admins can add custom plans
+export type PlanType = string;
 
 export interface PlanLimits {
   creditsPerWindow: number;      // Total credits allowed in the time window
   windowHours: number;            // Time window in hours
+  weeklyWindows: QuotaWindow[];   // Longer caps enforced alongside the primary window
   allowedModels: string[];        // List of allowed model types
 }
 
 /**
- * Plan limits configuration
+ * A rolling quota window
+ * Windows with modelFamilies only count (and only block) usage of those families,
+ * e.g. a weekly Opus cap.
+ */
+export interface QuotaWindow {
+  name: string;                   // Identifier, e.g. "5h", "7d", "7d_opus"
+  windowHours: number;
+  credits: number;
+  modelFamilies?: ModelFamily[];
+}
+
+/**
+ * Built-in plan limits, used to seed the plans table
  * Credits are consumed based on tokens × model weight
  */
-export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
+export const DEFAULT_PLAN_LIMITS: Record<PlanType, PlanLimits> = {
   free: {
     creditsPerWindow: 10_000,      // ~10K Sonnet tokens or 2.5K Haiku tokens per day
     windowHours: 24,                // Daily limit
+    weeklyWindows: [],
     allowedModels: ["haiku", "sonnet"],
   },
   pro: {
     creditsPerWindow: 10_000_000,   // ~10M Sonnet tokens per 5 hours (base tier)
     windowHours: 5,                 // 5-hour rolling window
+    weeklyWindows: [
+      { name: "7d", windowHours: 168, credits: 100_000_000 },
+      { name: "7d_opus", windowHours: 168, credits: 20_000_000, modelFamilies: ["opus"] },
+    ],
     allowedModels: ["haiku", "sonnet", "opus"],
   },
   "max-5x": {
     creditsPerWindow: 50_000_000,   // ~50M Sonnet tokens per 5 hours (5× Pro)
     windowHours: 5,                 // 5-hour window
+    weeklyWindows: [
+      { name: "7d", windowHours: 168, credits: 500_000_000 },
+      { name: "7d_opus", windowHours: 168, credits: 100_000_000, modelFamilies: ["opus"] },
+    ],
     allowedModels: ["haiku", "sonnet", "opus"],
   },
   "max-20x": {
     creditsPerWindow: 200_000_000,  // ~200M Sonnet tokens per 5 hours (20× Pro)
     windowHours: 5,                 // 5-hour window
+    weeklyWindows: [
+      { name: "7d", windowHours: 168, credits: 2_000_000_000 },
+      { name: "7d_opus", windowHours: 168, credits: 400_000_000, modelFamilies: ["opus"] },
+    ],
     allowedModels: ["haiku", "sonnet", "opus"],
   },
 };
 
 /**
- * Model credit weights - defines how many credits each model consumes per token
+ * Plan limits in effect
+ * Starts as the built-in plans and is replaced in place from the plans table by
+ * the plan cache (see plans.ts), so imported references stay current.
+ */
+export const PLAN_LIMITS: Record<PlanType, PlanLimits> = structuredClone(DEFAULT_PLAN_LIMITS);
+
+// Plan of users without one, and of users whose plan no longer exists
+export const DEFAULT_PLAN: PlanType = "pro";
+
+/**
+ * Resolve a stored plan name to a plan in effect
+ * Unset and unknown plans (e.g. one deleted or renamed by an admin) fall back to the default plan.
+ * @param planType - Plan name as stored on the user or account
+ */
+export function resolvePlanType(planType: string | null | undefined): PlanType {
+  return planType && PLAN_LIMITS[planType] ? planType : DEFAULT_PLAN;
+}
+
+/**
+ * Get the limits of a plan, falling back to the default plan for unknown plans
+ * @param planType - Plan type
+ */
+export function getPlanLimits(planType: string | null | undefined): PlanLimits {
+  return PLAN_LIMITS[resolvePlanType(planType)];
+}
+
+/**
+ * Replace the plans in effect
+ */
+export function setPlanLimits(plans: Record<PlanType, PlanLimits>): void {
+  for (const name of Object.keys(PLAN_LIMITS)) {
+    delete PLAN_LIMITS[name];
+  }
+  Object.assign(PLAN_LIMITS, plans);
+}
+
+/**
+ * Get every quota window of a plan: the primary window followed by the weekly caps
+ * @param planType - Plan type
+ * @returns Windows to enforce, all of which must have credits left
+ */
+export function getQuotaWindows(planType: PlanType): QuotaWindow[] {
+  const limits = getPlanLimits(planType);
+
+  return [
+    { name: `${limits.windowHours}h`, windowHours: limits.windowHours, credits: limits.creditsPerWindow },
+    ...limits.weeklyWindows,
+  ];
+}
+
+/**
+ * Built-in model credit weights - defines how many credits each model consumes per token
  * Opus: 5x (most expensive)
  * Sonnet: 1x (baseline)
  * Haiku: 0.25x (cheapest)
  */
-const MODEL_WEIGHTS: Record<string, number> = {
+export const DEFAULT_MODEL_WEIGHTS: Record<ModelFamily, number> = {
   opus: 5.0,
   sonnet: 1.0,
   haiku: 0.25,
 };
 
+// Weights in effect, replaced from the model_weights table by the plan cache
+const MODEL_WEIGHTS: Record<ModelFamily, number> = { ...DEFAULT_MODEL_WEIGHTS };
+
+/**
+ * Replace the model weights in effect; families missing from weights keep their built-in weight
+ */
+export function setModelWeights(weights: Partial<Record<ModelFamily, number>>): void {
+  Object.assign(MODEL_WEIGHTS, DEFAULT_MODEL_WEIGHTS, weights);
+}
+
+/**
+ * Get the model weights in effect
+ */
+export function getModelWeights(): Record<ModelFamily, number> {
+  return { ...MODEL_WEIGHTS };
+}
+
+/**
+ * Model families that plans can allow or deny
+ */
+export type ModelFamily = "opus" | "sonnet" | "haiku";
+
+export const MODEL_FAMILIES: ModelFamily[] = ["opus", "sonnet", "haiku"];
+
+/**
+ * Detect the model family from a model name
+ * @param model - Model name (e.g., "claude-opus-4-20250514")
+ * @returns Model family, or null if the model is not recognised
+ */
+export function getModelFamily(model: string): ModelFamily | null {
+  const lowerModel = model.toLowerCase();
+  return MODEL_FAMILIES.find((family) => lowerModel.includes(family)) ?? null;
+}
+
 /**
  * Get the credit weight for a model
  * @param model - Model name (e.g., "claude-opus-4-20250514", "sonnet", etc.)
  * @returns Credit weight multiplier
  */
 export function getModelWeight(model: string): number {
-  const lowerModel = model.toLowerCase();
+  const family = getModelFamily(model);
 
-  if (lowerModel.includes("opus")) {
-    return MODEL_WEIGHTS.opus;
-  }
+  // Default to Sonnet weight (1.0) for unknown models
+  return MODEL_WEIGHTS[family ?? "sonnet"];
+}
 
-  if (lowerModel.includes("sonnet")) {
-    return MODEL_WEIGHTS.sonnet;
-  }
+/**
+ * Check whether a plan may use a model
+ * Unrecognised model names are allowed and left for the upstream API to validate
+ * @param model - Model name from the request body
+ * @param planType - Plan type of the key owner
+ * @returns True if the model's family is in the plan's allowedModels
+ */
+export function isModelAllowed(model: string, planType: PlanType): boolean {
+  const limits = PLAN_LIMITS[planType];
+  const family = getModelFamily(model);
 
-  if (lowerModel.includes("haiku")) {
-    return MODEL_WEIGHTS.haiku;
+  if (!limits || !family) {
+    return true;
   }
 
-  // Default to Sonnet weight (1.0) for unknown models
-  return MODEL_WEIGHTS.sonnet;
+  return limits.allowedModels.includes(family);
+}
+
+/**
+ * Get the model families a plan may not use
+ * @param planType - Plan type
+ * @returns Model families missing from the plan's allowedModels
+ */
+export function getDeniedModels(planType: PlanType): ModelFamily[] {
+  const limits = PLAN_LIMITS[planType];
+  if (!limits) return [];
+  return MODEL_FAMILIES.filter((family) => !limits.allowedModels.includes(family));
 }
 
 /**
@@ -0,0 +1,180 @@
+/**
+ * Prometheus metrics module
+ * A small in-process registry of counters, gauges and histograms, rendered in the
+ * Prometheus text exposition format by GET /metrics.
+ * Values are per process; Prometheus sums them across replicas.
+ */
+
+import { timingSafeEqual } from "crypto";
+import pool from "./db";
+import { getModelFamily } from "./limits";
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+// Latency buckets in seconds, from fast proxy rejections to long generations
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(String(value))}"`).join(",")}}`;
+}
+
+// Stable key for a label set, independent of property order
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, String(labels[key])]));
+}
+
+function counter(name: string, help: string) {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  registry.push({
+    name, help, type: "counter",
+    render: () => [...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    inc(labels: Labels = {}, amount: number = 1): void {
+      const key = labelKey(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += amount;
+      values.set(key, entry);
+    },
+  };
+}
+
+function gauge(name: string, help: string, collect: () => { labels?: Labels; value: number }[]) {
+  registry.push({
+    name, help, type: "gauge",
+    render: () => collect().map(({ labels = {}, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+}
+
+function histogram(name: string, help: string, buckets: number[] = DURATION_BUCKETS) {
+  const values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  registry.push({
+    name, help, type: "histogram",
+    render: () => [...values.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...buckets.map((bucket, i) => `${name}_bucket${formatLabels({ ...labels, le: bucket })} ${counts[i]}`),
+      `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+      `${name}_sum${formatLabels(labels)} ${sum}`,
+      `${name}_count${formatLabels(labels)} ${count}`,
+    ]),
+  });
+
+  return {
+    observe(labels: Labels, value: number): void {
+      const key = labelKey(labels);
+      const entry = values.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bucket, i) => {
+        if (value <= bucket) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      values.set(key, entry);
+    },
+  };
+}
+
+const requestsTotal = counter("claude_proxy_requests_total", "Proxied requests by route, status and model");
+const requestDuration = histogram("claude_proxy_request_duration_seconds", "Total time to serve a proxied request, including streaming");
+const timeToFirstByte = histogram("claude_proxy_time_to_first_byte_seconds", "Time until the first upstream byte of a proxied request");
+const upstreamAttempts = counter("claude_proxy_upstream_attempts_total", "Calls to the Anthropic API by outcome (success, retried, failed, error)");
+const upstreamErrors = counter("claude_proxy_upstream_errors_total", "Anthropic API calls that failed, by status and error type");
+const tokensTotal = counter("claude_proxy_tokens_total", "Tokens used through the proxy by owner plan and token type");
+const creditsTotal = counter("claude_proxy_credits_total", "Credits used through the proxy by owner plan");
+const oauthRefreshes = counter("claude_proxy_oauth_refresh_total", "OAuth token refreshes by outcome (success, failed, revoked)");
+const quotaRejections = counter("claude_proxy_quota_rejections_total", "Requests rejected by checkQuotaLimit, by owner plan");
+
+gauge("claude_proxy_db_pool_connections", "Postgres pool connections by state", () => [
+  { labels: { state: "total" }, value: pool.totalCount },
+  { labels: { state: "idle" }, value: pool.idleCount },
+  { labels: { state: "waiting" }, value: pool.waitingCount },
+]);
+gauge("claude_proxy_db_pool_max_connections", "Configured maximum size of the Postgres pool", () => [
+  { value: pool.options.max ?? 10 },
+]);
+
+// Paths and models come from clients, so labels are limited to known values
+const KNOWN_ROUTES = ["/v1/messages", "/v1/messages/count_tokens", "/v1/models"];
+
+/**
+ * Record a finished proxied request
+ * The model label is the model family (opus, sonnet, haiku or unknown).
+ * @param ttfbMs - Time to first upstream byte, or null if the proxy answered itself
+ */
+export function recordRequestMetrics(path: string, status: number, model: string | null, durationMs: number, ttfbMs: number | null): void {
+  const route = KNOWN_ROUTES.includes(path) ? path : "/v1/*";
+  requestsTotal.inc({ route, status, model: (model && getModelFamily(model)) || "unknown" });
+  requestDuration.observe({ route }, durationMs / 1000);
+  if (ttfbMs !== null) {
+    timeToFirstByte.observe({ route }, ttfbMs / 1000);
+  }
+}
+
+// Record one call to the Anthropic API
+export function recordUpstreamMetrics(outcome: string, status: number | null, errorType: string | null): void {
+  upstreamAttempts.inc({ outcome });
+  if (outcome !== "success") {
+    upstreamErrors.inc({ status: status ?? "none", error_type: errorType ?? "unknown" });
+  }
+}
+
+// Record tokens and credits charged to a key owner's plan
+export function recordUsageMetrics(
+  planType: string,
+  usage: { input_tokens: number; output_tokens: number; cache_creation_input_tokens: number; cache_read_input_tokens: number },
+  credits: number
+): void {
+  tokensTotal.inc({ plan: planType, type: "input" }, usage.input_tokens);
+  tokensTotal.inc({ plan: planType, type: "output" }, usage.output_tokens);
+  tokensTotal.inc({ plan: planType, type: "cache_creation" }, usage.cache_creation_input_tokens);
+  tokensTotal.inc({ plan: planType, type: "cache_read" }, usage.cache_read_input_tokens);
+  creditsTotal.inc({ plan: planType }, credits);
+}
+
+export function recordOAuthRefresh(outcome: "success" | "failed" | "revoked"): void {
+  oauthRefreshes.inc({ outcome });
+}
+
+export function recordQuotaRejection(planType: string): void {
+  quotaRejections.inc({ plan: planType });
+}
+
+/**
+ * Check the bearer token of a /metrics request against METRICS_TOKEN
+ * @returns "disabled" when no token is configured, otherwise whether the header matches
+ */
+export function checkMetricsAuth(authHeader: string | undefined): "ok" | "unauthorized" | "disabled" {
+  const expected = process.env.METRICS_TOKEN;
+  if (!expected) return "disabled";
+
+  const provided = Buffer.from(authHeader?.startsWith("Bearer ") ? authHeader.slice("Bearer ".length).trim() : "");
+  const wanted = Buffer.from(expected);
+  return provided.length === wanted.length && timingSafeEqual(provided, wanted) ? "ok" : "unauthorized";
+}
+
+/**
+ * Render every metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,193 @@
+/**
+ * Notifications module
+ * Events such as key invitations, quota warnings and disconnected Claude accounts.
+ * notify() shows an event in the app to the users it concerns and queues it for
+ * every configured channel (email to those users, webhooks and Slack) in the outbox.
+ * Each threshold of a key's window fires once per window: it is recorded in
+ * quota_threshold_events and fires again only after a full window has passed.
+ */
+
+import pool from "./db";
+import type { QuotaWarning } from "./quota";
+import { getChannelConfig } from "./channels";
+import { enqueueDelivery } from "./outbox";
+
+export type NotificationEventType = "invitation" | "quota_threshold" | "oauth_disconnected";
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  // Users shown the notification in the app and emailed at their account address
+  userIds?: string[];
+  // Other addresses to email, e.g. an invitee who may not have an account yet
+  emails?: string[];
+  keyId?: string | null;
+  subject: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Notification {
+  id: number;
+  type: string;
+  keyId: string | null;
+  message: string;
+  data: Record<string, unknown>;
+  createdAt: number;
+  readAt: number | null;
+}
+
+/**
+ * Create a notification for each of the given users
+ */
+export async function createNotification(
+  userIds: string[],
+  notification: { type: string; keyId?: string | null; message: string; data?: Record<string, unknown> }
+): Promise<void> {
+  for (const userId of new Set(userIds)) {
+    await pool.query(
+      `INSERT INTO notifications (user_id, type, key_id, message, data, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [userId, notification.type, notification.keyId ?? null, notification.message,
+       JSON.stringify(notification.data ?? {}), Date.now()]
+    );
+  }
+}
+
+/**
+ * Send a notification through the app and every configured channel
+ * Channel deliveries are queued in the outbox and sent by its worker. Failures are
+ * logged and swallowed so they never fail the action that raised the event.
+ */
+export async function notify(event: NotificationEvent): Promise<void> {
+  try {
+    const userIds = [...new Set(event.userIds ?? [])];
+    if (userIds.length > 0) {
+      await createNotification(userIds, { type: event.type, keyId: event.keyId, message: event.message, data: event.data });
+    }
+
+    const config = getChannelConfig();
+    const message = {
+      event: event.type,
+      subject: event.subject,
+      text: event.message,
+      data: { ...event.data, ...(event.keyId ? { keyId: event.keyId } : {}) },
+    };
+
+    if (config.smtpUrl) {
+      const users = userIds.length > 0
+        ? await pool.query("SELECT email FROM users WHERE id = ANY($1)", [userIds])
+        : { rows: [] };
+      const addresses = new Set([...users.rows.map((row) => row.email as string), ...(event.emails ?? [])]);
+      for (const address of addresses) {
+        await enqueueDelivery("email", address, message);
+      }
+    }
+    for (const url of config.webhookUrls) {
+      await enqueueDelivery("webhook", url, message);
+    }
+    if (config.slackWebhookUrl) {
+      await enqueueDelivery("slack", config.slackWebhookUrl, message);
+    }
+  } catch (error) {
+    console.error(`[Notifications] Failed to send ${event.type} notification:`, error);
+  }
+}
+
+/**
+ * List a user's notifications, newest first
+ */
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<Notification[]> {
+  const result = await pool.query(
+    `SELECT id, type, key_id, message, data, created_at, read_at FROM notifications
+     WHERE user_id = $1 ${options.unreadOnly ? "AND read_at IS NULL" : ""}
+     ORDER BY id DESC
+     LIMIT $2`,
+    [userId, options.limit ?? 50]
+  );
+  return result.rows.map((row) => ({
+    id: row.id,
+    type: row.type,
+    keyId: row.key_id,
+    message: row.message,
+    data: row.data,
+    createdAt: Number(row.created_at),
+    readAt: row.read_at === null ? null : Number(row.read_at),
+  }));
+}
+
+/**
+ * Mark one of a user's notifications as read
+ * @returns false if the user has no such notification
+ */
+export async function markNotificationRead(id: number, userId: string): Promise<boolean> {
+  const result = await pool.query(
+    "UPDATE notifications SET read_at = COALESCE(read_at, $1) WHERE id = $2 AND user_id = $3",
+    [Date.now(), id, userId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Notify a key's owner and assignee of warning thresholds its windows have newly reached
+ * All reached thresholds are recorded, but only the highest new one of each window is
+ * sent. Failures are logged and swallowed so they never fail the proxied request.
+ * @param keyId - API key ID
+ * @param warnings - Warnings from the key's quota check
+ */
+export async function notifyQuotaThresholds(keyId: string, warnings: QuotaWarning[]): Promise<void> {
+  if (warnings.length === 0) {
+    return;
+  }
+
+  try {
+    const now = Date.now();
+    const fired: Array<{ warning: QuotaWarning; threshold: number }> = [];
+
+    for (const warning of warnings) {
+      // A threshold re-arms once the window it fired in has fully rolled over
+      const result = await pool.query(
+        `INSERT INTO quota_threshold_events (key_id, window_name, threshold, fired_at)
+         SELECT $1, $2, threshold, $3 FROM UNNEST($4::int[]) AS threshold
+         ON CONFLICT (key_id, window_name, threshold) DO UPDATE SET fired_at = EXCLUDED.fired_at
+         WHERE quota_threshold_events.fired_at <= $5
+         RETURNING threshold`,
+        [keyId, warning.window, now, warning.thresholds, now - warning.windowHours * 60 * 60 * 1000]
+      );
+      if (result.rows.length > 0) {
+        fired.push({ warning, threshold: Math.max(...result.rows.map((row) => row.threshold)) });
+      }
+    }
+
+    if (fired.length === 0) {
+      return;
+    }
+
+    const keyResult = await pool.query(
+      "SELECT user_id, assigned_to_user_id, name, key_prefix FROM api_keys WHERE id = $1",
+      [keyId]
+    );
+    const key = keyResult.rows[0];
+    if (!key) {
+      return;
+    }
+
+    const recipients = [key.user_id, key.assigned_to_user_id].filter(Boolean);
+    const keyName = key.name || key.key_prefix;
+    for (const { warning, threshold } of fired) {
+      console.log(`[Notifications] Key ${keyId} reached ${threshold}% of its ${warning.window} quota window`);
+      await notify({
+        type: "quota_threshold",
+        userIds: recipients,
+        keyId,
+        subject: `API key ${keyName} has used ${warning.percentage}% of its ${warning.window} quota`,
+        message: `API key ${keyName} has used ${warning.percentage}% of its ${warning.window} quota (warning threshold ${threshold}%).`,
+        data: { window: warning.window, threshold, percentage: warning.percentage },
+      });
+    }
+  } catch (error) {
+    console.error("[Notifications] Failed to send quota threshold notifications:", error);
+  }
+}
@@ -1,37 +1,163 @@
 import { generatePKCE } from "@openauthjs/openauth/pkce";
+import { randomBytes } from "crypto";
 import pool from "./db";
+import { getUpstreamConfig, upstreamFetch } from "./upstream";
+import { encryptTokens, decryptTokens, reencryptTokens, getActiveKeyId } from "./crypto";
+import { recordOAuthRefresh } from "./metrics";
+import { notify } from "./notifications";
+import { emitWebhookEvent } from "./webhooks";
 
 const CLIENT_ID = process.env.CLAUDE_CLIENT_ID || "9d1c250a-e61b-44d9-88ed-5944d1962f5e";
-const REDIRECT_URI = "https://platform.claude.com/oauth/code/callback";
+
+// Refresh access tokens this long before they expire
+const REFRESH_SKEW_MS = Number(process.env.OAUTH_REFRESH_SKEW_MINUTES ?? 5) * 60 * 1000;
+
+// How long a started authorization can be completed
+const AUTHORIZATION_TTL_MS = Number(process.env.OAUTH_STATE_TTL_MINUTES ?? 10) * 60 * 1000;
+
+// How often the background job looks for tokens about to expire (0 disables it)
+const REFRESH_JOB_INTERVAL_MS = Number(process.env.OAUTH_REFRESH_INTERVAL_MINUTES ?? 10) * 60 * 1000;
+
+type TokenResult = { success: boolean; accessToken?: string; accountId?: string; error?: string; revoked?: boolean };
+
+/**
+ * Health of a Claude connection
+ * - healthy: last refresh / upstream call succeeded
+ * - refresh_failed: refreshing failed for a transient reason (network, 5xx)
+ * - revoked: Anthropic rejected the refresh token (invalid_grant) or the access token (401)
+ */
+export type ConnectionHealth = "healthy" | "refresh_failed" | "revoked";
+
+export interface ConnectionStatus {
+  connected: boolean;
+  health?: ConnectionHealth;
+  last_error?: string | null;
+  last_error_at?: number | null;
+  accounts?: {
+    id: string;
+    label: string | null;
+    email: string | null;
+    health_status: ConnectionHealth;
+    last_error: string | null;
+    last_error_at: number | null;
+  }[];
+}
+
+// Refreshes running in this process, keyed by account id
+const refreshesInFlight = new Map<string, Promise<TokenResult>>();
+
+let refreshJobTimer: ReturnType<typeof setInterval> | null = null;
 
 export interface OAuthToken {
+  id: string;
   user_id: string;
   access_token: string;
   refresh_token: string;
   expires_at: number;
   updated_at: number;
+  label: string | null;
+  plan_type: string | null;
+  account_uuid: string | null;
+  account_email: string | null;
+  created_at: number;
+  last_used_at: number | null;
+  rate_limited_until: number | null;
+  encryption_key_id: string | null;
+  encrypted_data_key: string | null;
+  health_status: ConnectionHealth;
+  last_error: string | null;
+  last_error_at: number | null;
 }
 
-// Generate OAuth authorization URL
-export async function generateAuthUrl(): Promise<{ url: string; verifier: string }> {
-  const pkce = await generatePKCE();
+export interface OAuthTokenData {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+  account_uuid?: string | null;
+  account_email?: string | null;
+}
 
-  const url = new URL("https://claude.ai/oauth/authorize");
+/**
+ * Generate OAuth authorization URL
+ * The PKCE verifier stays on the server, stored against an opaque state bound to the user.
+ * @param userId - User starting the authorization
+ */
+export async function generateAuthUrl(userId: string): Promise<{ url: string; state: string }> {
+  const pkce = await generatePKCE();
+  const state = randomBytes(32).toString("base64url");
+  const now = Date.now();
+
+  // Drop abandoned attempts before adding a new one
+  await pool.query("DELETE FROM oauth_pending_authorizations WHERE expires_at <= $1", [now]);
+  await pool.query(
+    `INSERT INTO oauth_pending_authorizations (state, user_id, code_verifier, created_at, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [state, userId, pkce.verifier, now, now + AUTHORIZATION_TTL_MS]
+  );
+
+  const upstream = getUpstreamConfig();
+  const url = new URL(upstream.authorizeUrl);
   url.searchParams.set("code", "true");
   url.searchParams.set("client_id", CLIENT_ID);
   url.searchParams.set("response_type", "code");
-  url.searchParams.set("redirect_uri", REDIRECT_URI);
+  url.searchParams.set("redirect_uri", upstream.redirectUri);
   url.searchParams.set("scope", "org:create_api_key user:profile user:inference");
   url.searchParams.set("code_challenge", pkce.challenge);
   url.searchParams.set("code_challenge_method", "S256");
-  url.searchParams.set("state", pkce.verifier);
+  url.searchParams.set("state", state);
 
   return {
     url: url.toString(),
-    verifier: pkce.verifier,
+    state,
   };
 }
 
+/**
+ * Consume a pending authorization and return its PKCE verifier
+ * Each state can be used once, only by the user who started it, and only before it expires.
+ * @param userId - User completing the authorization
+ * @param state - State from the pasted code; when missing, the user's latest pending attempt is used
+ */
+async function consumePendingAuthorization(userId: string, state?: string): Promise<string | null> {
+  const now = Date.now();
+  const result = state
+    ? await pool.query(
+        `DELETE FROM oauth_pending_authorizations
+         WHERE state = $1 AND user_id = $2 AND expires_at > $3
+         RETURNING code_verifier`,
+        [state, userId, now]
+      )
+    : await pool.query(
+        `DELETE FROM oauth_pending_authorizations
+         WHERE state = (
+           SELECT state FROM oauth_pending_authorizations
+           WHERE user_id = $1 AND expires_at > $2
+           ORDER BY created_at DESC LIMIT 1
+         )
+         RETURNING code_verifier`,
+        [userId, now]
+      );
+
+  return result.rows[0]?.code_verifier ?? null;
+}
+
+/**
+ * Complete an authorization started with generateAuthUrl
+ * @param userId - User completing the authorization
+ * @param code - Code from the callback page, usually "<code>#<state>"
+ */
+export async function completeAuthorization(userId: string, code: string): Promise<{ success: boolean; tokens?: any; error?: string }> {
+  const state = code.split("#")[1] || undefined;
+
+  const verifier = await consumePendingAuthorization(userId, state);
+  if (!verifier) {
+    console.warn("[OAuth] No pending authorization for user:", userId, "state present:", Boolean(state));
+    return { success: false, error: "Authorization expired or was not started by this user. Please click Connect again." };
+  }
+
+  return exchangeCode(code, verifier);
+}
+
 // Exchange authorization code for tokens
 export async function exchangeCode(code: string, verifier: string): Promise<{ success: boolean; tokens?: any; error?: string }> {
   try {
@@ -49,12 +175,12 @@ export async function exchangeCode(code: string, verifier: string): Promise<{ su
       state: state,
       grant_type: "authorization_code",
       client_id: CLIENT_ID,
-      redirect_uri: REDIRECT_URI,
+      redirect_uri: getUpstreamConfig().redirectUri,
       code_verifier: verifier,
     };
 
     console.log("[OAuth] Sending token exchange request to Anthropic");
-    const response = await fetch("https://console.anthropic.com/v1/oauth/token", {
+    const response = await upstreamFetch("oauth", "/v1/oauth/token", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -105,6 +231,8 @@ export async function exchangeCode(code: string, verifier: string): Promise<{ su
         access_token: tokens.access_token,
         refresh_token: tokens.refresh_token,
         expires_at: Date.now() + tokens.expires_in * 1000,
+        account_uuid: tokens.account?.uuid ?? null,
+        account_email: tokens.account?.email_address ?? null,
       },
     };
   } catch (error) {
@@ -116,8 +244,15 @@ export async function exchangeCode(code: string, verifier: string): Promise<{ su
   }
 }
 
-// Save OAuth tokens for user
-export async function saveOAuthTokens(userId: string, tokens: { access_token: string; refresh_token: string; expires_at: number }): Promise<void> {
+/**
+ * Save OAuth tokens for a Claude account
+ * - With accountId: updates that account's tokens (used after a refresh)
+ * - With an account_uuid already connected by this owner: updates the existing account
+ *   (an account saved before account_uuid was recorded is taken to be this one)
+ * - Otherwise: adds a new account to the owner's pool
+ * @returns The account id the tokens were saved to
+ */
+export async function saveOAuthTokens(userId: string, tokens: OAuthTokenData, accountId?: string): Promise<string> {
   try {
     console.log("[DB] Saving OAuth tokens for user:", userId);
 
@@ -125,47 +260,114 @@ export async function saveOAuthTokens(userId: string, tokens: { access_token: st
       throw new Error("Invalid token data: missing required fields");
     }
 
-    await pool.query(
-      `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (user_id)
+    const now = Date.now();
+    const encrypted = encryptTokens(tokens.access_token, tokens.refresh_token);
+
+    if (accountId) {
+      const result = await pool.query(
+        `UPDATE oauth_tokens
+         SET access_token = $1, refresh_token = $2, expires_at = $3, updated_at = $4,
+             encryption_key_id = $7, encrypted_data_key = $8, health_status = 'healthy'
+         WHERE id = $5 AND user_id = $6
+         RETURNING id`,
+        [encrypted.access_token, encrypted.refresh_token, tokens.expires_at, now, accountId, userId,
+         encrypted.encryption_key_id, encrypted.encrypted_data_key]
+      );
+      if (result.rows.length === 0) {
+        throw new Error(`OAuth account ${accountId} not found`);
+      }
+      console.log("[DB] OAuth tokens saved successfully for account:", accountId);
+      return accountId;
+    }
+
+    // Rows from before account_uuid was recorded never match the upsert below, so
+    // reconnecting would add a duplicate; claim the owner's oldest such row instead
+    if (tokens.account_uuid) {
+      await pool.query(
+        `UPDATE oauth_tokens SET account_uuid = $2
+         WHERE id = (
+           SELECT id FROM oauth_tokens WHERE user_id = $1 AND account_uuid IS NULL
+           ORDER BY created_at ASC, id ASC LIMIT 1
+         )
+         AND NOT EXISTS (SELECT 1 FROM oauth_tokens WHERE user_id = $1 AND account_uuid = $2)`,
+        [userId, tokens.account_uuid]
+      );
+    }
+
+    const result = await pool.query(
+      `INSERT INTO oauth_tokens
+       (user_id, access_token, refresh_token, expires_at, updated_at, account_uuid, account_email, created_at,
+        encryption_key_id, encrypted_data_key)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $5, $8, $9)
+       ON CONFLICT (user_id, account_uuid)
        DO UPDATE SET
          access_token = EXCLUDED.access_token,
          refresh_token = EXCLUDED.refresh_token,
          expires_at = EXCLUDED.expires_at,
-         updated_at = EXCLUDED.updated_at`,
-      [userId, tokens.access_token, tokens.refresh_token, tokens.expires_at, Date.now()]
+         updated_at = EXCLUDED.updated_at,
+         account_email = EXCLUDED.account_email,
+         encryption_key_id = EXCLUDED.encryption_key_id,
+         encrypted_data_key = EXCLUDED.encrypted_data_key,
+         health_status = 'healthy'
+       RETURNING id`,
+      [userId, encrypted.access_token, encrypted.refresh_token, tokens.expires_at, now,
+       tokens.account_uuid ?? null, tokens.account_email ?? null,
+       encrypted.encryption_key_id, encrypted.encrypted_data_key]
     );
 
     console.log("[DB] OAuth tokens saved successfully for user:", userId);
+    return result.rows[0].id;
   } catch (error) {
     console.error("[DB] Failed to save OAuth tokens:", error);
     throw new Error(`Database error: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
-// Get OAuth tokens for user
+// Return a stored row with its tokens decrypted
+function decryptOAuthRow(row: OAuthToken): OAuthToken {
+  return { ...row, ...decryptTokens(row) };
+}
+
+// Get OAuth tokens for user (their first connected account)
 export async function getOAuthTokens(userId: string): Promise<OAuthToken | null> {
   try {
     console.log("[OAuth] Getting tokens for user:", userId);
-    const result = await pool.query("SELECT * FROM oauth_tokens WHERE user_id = $1", [userId]);
+    const result = await pool.query(
+      "SELECT * FROM oauth_tokens WHERE user_id = $1 ORDER BY created_at ASC, id ASC LIMIT 1",
+      [userId]
+    );
     console.log("[OAuth] Query result - row count:", result.rows.length);
     if (result.rows.length > 0) {
       console.log("[OAuth] Token found for user:", userId);
     } else {
       console.log("[OAuth] No token found for user:", userId);
     }
-    return result.rows[0] as OAuthToken | null;
+    return result.rows[0] ? decryptOAuthRow(result.rows[0]) : null;
   } catch (error) {
     console.error("[DB] Failed to get OAuth tokens:", error);
     return null;
   }
 }
 
+// Get a specific Claude account belonging to a user
+export async function getOAuthAccount(userId: string, accountId: string): Promise<OAuthToken | null> {
+  try {
+    const result = await pool.query(
+      "SELECT * FROM oauth_tokens WHERE id = $1 AND user_id = $2",
+      [accountId, userId]
+    );
+    return result.rows[0] ? decryptOAuthRow(result.rows[0]) : null;
+  } catch (error) {
+    console.error("[DB] Failed to get OAuth account:", error);
+    return null;
+  }
+}
+
 // Refresh access token
-export async function refreshAccessToken(refreshToken: string): Promise<{ success: boolean; tokens?: any; error?: string }> {
+// `revoked` is set when Anthropic rejects the refresh token itself, as opposed to a transient failure
+export async function refreshAccessToken(refreshToken: string): Promise<{ success: boolean; tokens?: any; error?: string; revoked?: boolean }> {
   try {
-    const response = await fetch("https://console.anthropic.com/v1/oauth/token", {
+    const response = await upstreamFetch("oauth", "/v1/oauth/token", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -178,7 +380,14 @@ export async function refreshAccessToken(refreshToken: string): Promise<{ succes
     });
 
     if (!response.ok) {
-      return { success: false, error: "Failed to refresh token" };
+      const errorBody = await response.json().catch(() => ({}));
+      const revoked = response.status === 401 || errorBody?.error === "invalid_grant";
+      const detail = errorBody?.error_description || errorBody?.error;
+      return {
+        success: false,
+        revoked,
+        error: `Failed to refresh token (HTTP ${response.status}${detail ? `: ${detail}` : ""})`,
+      };
     }
 
     const tokens = await response.json();
@@ -195,27 +404,251 @@ export async function refreshAccessToken(refreshToken: string): Promise<{ succes
   }
 }
 
-// Ensure valid access token (refresh if needed)
-export async function ensureValidToken(userId: string): Promise<{ success: boolean; accessToken?: string; error?: string }> {
-  const oauthTokens = await getOAuthTokens(userId);
+// Whether a token expires within the given window
+function expiresWithin(expiresAt: number, windowMs: number): boolean {
+  return Number(expiresAt) - windowMs <= Date.now();
+}
+
+// Refresh an account's tokens while holding a Postgres advisory lock, so only one
+// process uses the (single-use) refresh token at a time
+async function refreshWithLock(userId: string, accountId: string, windowMs: number): Promise<TokenResult> {
+  const lockKey = `oauth_refresh:${accountId}`;
+  const client = await pool.connect();
+  let releaseError: Error | undefined;
+
+  try {
+    await client.query("SELECT pg_advisory_lock(hashtextextended($1, 0))", [lockKey]);
+    try {
+      // Another process may have refreshed the token while we waited for the lock
+      const current = await getOAuthAccount(userId, accountId);
+      if (!current) {
+        return { success: false, accountId, error: "No OAuth tokens found" };
+      }
+      if (!expiresWithin(current.expires_at, windowMs)) {
+        return { success: true, accessToken: current.access_token, accountId };
+      }
+
+      console.log("[OAuth] Refreshing access token for account:", accountId);
+      const refreshResult = await refreshAccessToken(current.refresh_token);
+      recordOAuthRefresh(refreshResult.success ? "success" : refreshResult.revoked ? "revoked" : "failed");
+      if (!refreshResult.success) {
+        await setConnectionHealth(accountId, refreshResult.revoked ? "revoked" : "refresh_failed", refreshResult.error);
+
+        // A proactive refresh failing is not fatal while the current token is still valid
+        if (Number(current.expires_at) > Date.now()) {
+          console.warn("[OAuth] Early refresh failed, using current token for account:", accountId);
+          return { success: true, accessToken: current.access_token, accountId };
+        }
+        return { success: false, accountId, error: refreshResult.error, revoked: refreshResult.revoked };
+      }
+
+      // Saving new tokens also marks the connection healthy again
+      await saveOAuthTokens(userId, refreshResult.tokens, accountId);
+      return { success: true, accessToken: refreshResult.tokens.access_token, accountId };
+    } finally {
+      await client
+        .query("SELECT pg_advisory_unlock(hashtextextended($1, 0))", [lockKey])
+        .catch((error) => { releaseError = error; });
+    }
+  } finally {
+    // Discard the connection if the unlock failed so the lock is not left held in the pool
+    client.release(releaseError);
+  }
+}
+
+/**
+ * Refresh an account's tokens once, even when many requests ask at the same time
+ * Concurrent callers in this process share one refresh; other processes wait on the advisory lock
+ * and then pick up the refreshed token instead of spending the refresh token again.
+ */
+async function refreshAccountTokens(userId: string, accountId: string, windowMs: number = REFRESH_SKEW_MS): Promise<TokenResult> {
+  const inFlight = refreshesInFlight.get(accountId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const refresh = refreshWithLock(userId, accountId, windowMs).finally(() => {
+    refreshesInFlight.delete(accountId);
+  });
+  refreshesInFlight.set(accountId, refresh);
+  return refresh;
+}
+
+// Ensure valid access token (refresh if needed) for a specific account, or the user's first account
+// Tokens are renewed OAUTH_REFRESH_SKEW_MINUTES before they expire; revoked accounts are not retried
+export async function ensureValidToken(userId: string, accountId?: string): Promise<TokenResult> {
+  const oauthTokens = accountId
+    ? await getOAuthAccount(userId, accountId)
+    : await getOAuthTokens(userId);
 
   if (!oauthTokens) {
     return { success: false, error: "No OAuth tokens found" };
   }
 
-  // Check if token is expired
-  if (oauthTokens.expires_at < Date.now()) {
-    const refreshResult = await refreshAccessToken(oauthTokens.refresh_token);
-    if (!refreshResult.success) {
-      return { success: false, error: refreshResult.error };
+  if (expiresWithin(oauthTokens.expires_at, REFRESH_SKEW_MS)) {
+    if (oauthTokens.health_status === "revoked") {
+      return { success: false, accountId: oauthTokens.id, error: "Claude account was revoked; reconnect it", revoked: true };
+    }
+    return refreshAccountTokens(userId, oauthTokens.id);
+  }
+
+  return { success: true, accessToken: oauthTokens.access_token, accountId: oauthTokens.id };
+}
+
+/**
+ * Refresh every account whose token expires within the given window
+ * Keeps idle connections fresh so they still work when the next request arrives.
+ * Revoked accounts are skipped; only reconnecting them gives them new tokens.
+ * @param windowMs - Refresh tokens expiring within this many milliseconds
+ */
+export async function refreshExpiringTokens(windowMs: number = REFRESH_SKEW_MS): Promise<{ refreshed: number; failed: number }> {
+  const result = await pool.query(
+    "SELECT id, user_id FROM oauth_tokens WHERE expires_at <= $1 AND health_status <> 'revoked'",
+    [Date.now() + windowMs]
+  );
+
+  let refreshed = 0;
+  let failed = 0;
+  for (const row of result.rows as { id: string; user_id: string }[]) {
+    try {
+      const refreshResult = await refreshAccountTokens(row.user_id, row.id, windowMs);
+      if (refreshResult.success) {
+        refreshed++;
+      } else {
+        failed++;
+        console.warn("[OAuth] Background refresh failed for account:", row.id, refreshResult.error);
+      }
+    } catch (error) {
+      failed++;
+      console.error("[OAuth] Background refresh error for account:", row.id, error);
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+/**
+ * Start the background job that renews tokens before they expire
+ * Each run covers tokens expiring before the run after it.
+ */
+export function startTokenRefreshJob(intervalMs: number = REFRESH_JOB_INTERVAL_MS): void {
+  if (refreshJobTimer || intervalMs <= 0) {
+    return;
+  }
+
+  console.log(`[OAuth] Starting token refresh job (every ${intervalMs / 60000} minutes)`);
+  refreshJobTimer = setInterval(() => {
+    refreshExpiringTokens(REFRESH_SKEW_MS + intervalMs)
+      .then(({ refreshed, failed }) => {
+        if (refreshed || failed) {
+          console.log(`[OAuth] Token refresh job: ${refreshed} refreshed, ${failed} failed`);
+        }
+      })
+      .catch((error) => console.error("[OAuth] Token refresh job error:", error));
+  }, intervalMs);
+  refreshJobTimer.unref?.();
+}
+
+// Stop the background token refresh job
+export function stopTokenRefreshJob(): void {
+  if (refreshJobTimer) {
+    clearInterval(refreshJobTimer);
+    refreshJobTimer = null;
+  }
+}
+
+/**
+ * Record the outcome of a refresh or upstream call on a Claude account
+ * Errors are kept after recovery so the dashboard can show the last problem.
+ * @param accountId - Claude account ID
+ * @param status - New health state
+ * @param error - Error message (ignored for healthy)
+ */
+export async function setConnectionHealth(accountId: string, status: ConnectionHealth, error?: string | null): Promise<void> {
+  try {
+    if (status === "healthy") {
+      await pool.query(
+        "UPDATE oauth_tokens SET health_status = 'healthy' WHERE id = $1 AND health_status <> 'healthy'",
+        [accountId]
+      );
+      return;
+    }
+
+    console.warn(`[OAuth] Account ${accountId} is ${status}: ${error}`);
+    const result = await pool.query(
+      `UPDATE oauth_tokens t SET health_status = $1, last_error = $2, last_error_at = $3
+       FROM oauth_tokens previous
+       WHERE t.id = $4 AND previous.id = t.id
+       RETURNING t.user_id, t.label, t.account_email, previous.health_status AS previous_status`,
+      [status, error ?? null, Date.now(), accountId]
+    );
+
+    const account = result.rows[0];
+    if (!account || account.previous_status === status) {
+      return;
+    }
+
+    const name = account.label || account.account_email || "Your Claude account";
+    await emitWebhookEvent(
+      account.user_id,
+      status === "revoked" ? "oauth.revoked" : "oauth.refresh_failed",
+      status === "revoked" ? `${name} was revoked` : `Refreshing the token of ${name} failed`,
+      { accountId, accountEmail: account.account_email, label: account.label, error: error ?? null }
+    );
+
+    // Tell the owner the first time an account is revoked; its keys stop working through it
+    if (status === "revoked") {
+      await notify({
+        type: "oauth_disconnected",
+        userIds: [account.user_id],
+        subject: `${name} was disconnected`,
+        message: `${name} was disconnected from the proxy (${error || "access revoked"}). Reconnect it in the dashboard so your API keys can use it again.`,
+        data: { accountId, error: error ?? null },
+      });
     }
+  } catch (dbError) {
+    console.error("[DB] Failed to update connection health:", dbError);
+  }
+}
 
-    // Update tokens in database
-    await saveOAuthTokens(userId, refreshResult.tokens);
-    return { success: true, accessToken: refreshResult.tokens.access_token };
+/**
+ * Get the health of a user's Claude connection
+ * The user counts as connected while at least one account is not revoked; the overall
+ * health is the best state among their accounts.
+ */
+export async function getConnectionStatus(userId: string): Promise<ConnectionStatus> {
+  const result = await pool.query(
+    `SELECT id, label, account_email, health_status, last_error, last_error_at
+     FROM oauth_tokens WHERE user_id = $1 ORDER BY created_at ASC, id ASC`,
+    [userId]
+  );
+
+  if (result.rows.length === 0) {
+    return { connected: false };
   }
 
-  return { success: true, accessToken: oauthTokens.access_token };
+  const accounts = result.rows.map((row) => ({
+    id: row.id as string,
+    label: row.label as string | null,
+    email: row.account_email as string | null,
+    health_status: (row.health_status || "healthy") as ConnectionHealth,
+    last_error: row.last_error as string | null,
+    last_error_at: row.last_error_at ? Number(row.last_error_at) : null,
+  }));
+
+  const ranking: ConnectionHealth[] = ["healthy", "refresh_failed", "revoked"];
+  const health = ranking.find((state) => accounts.some((a) => a.health_status === state))!;
+  const latestError = accounts
+    .filter((a) => a.last_error_at)
+    .sort((a, b) => b.last_error_at! - a.last_error_at!)[0];
+
+  return {
+    connected: health !== "revoked",
+    health,
+    last_error: latestError?.last_error ?? null,
+    last_error_at: latestError?.last_error_at ?? null,
+    accounts,
+  };
 }
 
 // Check if user has connected Claude OAuth
@@ -227,13 +660,24 @@ export async function hasOAuthConnection(userId: string): Promise<boolean> {
   return isConnected;
 }
 
-// Disconnect OAuth (remove tokens)
-export async function disconnectOAuth(userId: string): Promise<{ success: boolean; rowsDeleted: number }> {
+// Disconnect OAuth (remove tokens for all of the user's accounts, or just one)
+export async function disconnectOAuth(userId: string, accountId?: string): Promise<{ success: boolean; rowsDeleted: number }> {
   try {
     console.log("[DB] Attempting to disconnect OAuth for user:", userId);
-    const result = await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [userId]);
+    const result = accountId
+      ? await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1 AND id = $2 RETURNING id, label, account_email", [userId, accountId])
+      : await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1 RETURNING id, label, account_email", [userId]);
     const rowsDeleted = result.rowCount || 0;
 
+    for (const account of result.rows) {
+      const name = account.label || account.account_email || "Claude account";
+      await emitWebhookEvent(userId, "oauth.disconnected", `${name} was disconnected`, {
+        accountId: account.id,
+        accountEmail: account.account_email,
+        label: account.label,
+      });
+    }
+
     console.log("[DB] OAuth disconnect result - Rows deleted:", rowsDeleted);
 
     if (rowsDeleted === 0) {
@@ -248,3 +692,51 @@ export async function disconnectOAuth(userId: string): Promise<{ success: boolea
     throw error;
   }
 }
+
+/**
+ * Re-encrypt every stored OAuth token pair under the active master key
+ * Encrypts legacy plaintext rows and re-wraps data keys written with older master keys.
+ * Rows that cannot be decrypted (e.g. their key was removed) are logged and skipped.
+ * @returns Number of rows updated and rows that failed
+ */
+export async function reencryptAllOAuthTokens(): Promise<{ updated: number; failed: number }> {
+  const activeKeyId = getActiveKeyId();
+  const result = await pool.query(
+    "SELECT id FROM oauth_tokens WHERE encryption_key_id IS DISTINCT FROM $1",
+    [activeKeyId]
+  );
+
+  let updated = 0;
+  let failed = 0;
+  for (const { id } of result.rows) {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      // Lock the row so a concurrent token refresh cannot be overwritten with stale ciphertext
+      const rowResult = await client.query("SELECT * FROM oauth_tokens WHERE id = $1 FOR UPDATE", [id]);
+      const row = rowResult.rows[0] as OAuthToken | undefined;
+
+      if (row && row.encryption_key_id !== activeKeyId) {
+        const encrypted = reencryptTokens(row);
+        await client.query(
+          `UPDATE oauth_tokens
+           SET access_token = $1, refresh_token = $2, encryption_key_id = $3, encrypted_data_key = $4
+           WHERE id = $5`,
+          [encrypted.access_token, encrypted.refresh_token, encrypted.encryption_key_id, encrypted.encrypted_data_key, id]
+        );
+        updated++;
+      }
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("[OAuth] Failed to re-encrypt tokens for account:", id, error);
+      failed++;
+    } finally {
+      client.release();
+    }
+  }
+
+  console.log(`[OAuth] Re-encrypted tokens for ${updated} account(s) with key ${activeKeyId}, ${failed} failed`);
+  return { updated, failed };
+}
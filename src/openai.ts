@@ -0,0 +1,579 @@
+/**
+ * OpenAI compatibility module
+ * Translates OpenAI Chat Completions requests and responses to and from the Anthropic Messages format
+ * Requests are served through the regular proxy pipeline, so auth, quota and usage tracking are shared
+ */
+
+import { randomUUID } from "crypto";
+import { proxyToClaudeAPIGeneric } from "./proxy";
+import { SSEParser } from "./stream";
+
+const DEFAULT_MAX_TOKENS = 4096;
+
+export interface OpenAIChatMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content?: string | OpenAIContentPart[] | null;
+  name?: string;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAIContentPart {
+  type: "text" | "image_url";
+  text?: string;
+  image_url?: { url: string; detail?: string };
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface OpenAITool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: Record<string, unknown> };
+}
+
+export type OpenAIToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: OpenAITool[];
+  tool_choice?: OpenAIToolChoice;
+  user?: string;
+}
+
+/**
+ * Map an Anthropic stop_reason to an OpenAI finish_reason
+ */
+export function toFinishReason(stopReason: string | null | undefined): string | null {
+  switch (stopReason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    case "refusal":
+      return "content_filter";
+    case null:
+    case undefined:
+      return null;
+    default:
+      return "stop";
+  }
+}
+
+function textFromContent(content: OpenAIChatMessage["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+}
+
+function toAnthropicImage(url: string): Record<string, unknown> {
+  const dataUrl = /^data:([^;]+);base64,(.*)$/s.exec(url);
+  if (dataUrl) {
+    return { type: "image", source: { type: "base64", media_type: dataUrl[1], data: dataUrl[2] } };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+function toAnthropicContent(content: OpenAIChatMessage["content"]): string | Record<string, unknown>[] {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+
+  return content.flatMap((part) => {
+    if (part.type === "text" && part.text) {
+      return [{ type: "text", text: part.text }];
+    }
+    if (part.type === "image_url" && part.image_url?.url) {
+      return [toAnthropicImage(part.image_url.url)];
+    }
+    return [];
+  });
+}
+
+function parseToolArguments(args: string): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
+
+const MESSAGE_ROLES = ["system", "developer", "user", "assistant", "tool"];
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the shape of each entry of a request's messages, so conversion can rely on it
+ * @returns An error message naming the first invalid entry, or null if all are valid
+ */
+function validateMessages(messages: unknown[]): string | null {
+  for (const [index, message] of messages.entries()) {
+    if (!isObject(message) || !MESSAGE_ROLES.includes(message.role)) {
+      return `messages[${index}] must be an object with a role of ${MESSAGE_ROLES.join(", ")}`;
+    }
+    const { content, tool_calls: toolCalls } = message;
+    if (content !== undefined && content !== null && typeof content !== "string" &&
+        !(Array.isArray(content) && content.every(isObject))) {
+      return `messages[${index}].content must be a string or an array of content parts`;
+    }
+    if (toolCalls !== undefined && toolCalls !== null &&
+        !(Array.isArray(toolCalls) && toolCalls.every((call) => isObject(call) && isObject(call.function)))) {
+      return `messages[${index}].tool_calls must be an array of function calls`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Convert an OpenAI Chat Completions request body into an Anthropic Messages request body
+ * - system/developer messages become the top-level system prompt
+ * - assistant tool_calls become tool_use blocks; tool messages become tool_result blocks
+ * - assistant messages with neither text nor tool calls are dropped
+ * @param request - OpenAI request body
+ * @returns Anthropic Messages request body
+ */
+export function toAnthropicRequest(request: OpenAIChatRequest): Record<string, any> {
+  const systemParts: string[] = [];
+  const messages: { role: "user" | "assistant"; content: any }[] = [];
+
+  for (const message of request.messages || []) {
+    if (message.role === "system" || message.role === "developer") {
+      const text = textFromContent(message.content);
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (message.role === "tool") {
+      const toolResult = {
+        type: "tool_result",
+        tool_use_id: message.tool_call_id,
+        content: textFromContent(message.content),
+      };
+
+      // Consecutive tool results answer the same assistant turn, so they share one user message
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === "user" && Array.isArray(previous.content) &&
+          previous.content.every((block: any) => block.type === "tool_result")) {
+        previous.content.push(toolResult);
+      } else {
+        messages.push({ role: "user", content: [toolResult] });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      const blocks: Record<string, unknown>[] = [];
+      const text = textFromContent(message.content);
+      if (text) {
+        blocks.push({ type: "text", text });
+      }
+      for (const toolCall of message.tool_calls || []) {
+        blocks.push({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: parseToolArguments(toolCall.function.arguments),
+        });
+      }
+      // Anthropic rejects empty assistant turns, e.g. one left with neither text nor tool calls
+      if (blocks.length > 0) {
+        messages.push({ role: "assistant", content: blocks });
+      }
+      continue;
+    }
+
+    messages.push({ role: "user", content: toAnthropicContent(message.content) });
+  }
+
+  const body: Record<string, any> = {
+    model: request.model,
+    messages,
+    max_tokens: request.max_completion_tokens ?? request.max_tokens ?? DEFAULT_MAX_TOKENS,
+  };
+
+  if (systemParts.length > 0) {
+    body.system = systemParts.join("\n\n");
+  }
+  if (request.temperature !== undefined) {
+    // OpenAI accepts 0-2, Anthropic 0-1
+    body.temperature = Math.min(request.temperature, 1);
+  }
+  if (request.top_p !== undefined) {
+    body.top_p = request.top_p;
+  }
+  if (request.stop) {
+    body.stop_sequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+  }
+  if (request.stream) {
+    body.stream = true;
+  }
+  if (request.user) {
+    body.metadata = { user_id: request.user };
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters || { type: "object", properties: {} },
+    }));
+  }
+
+  if (request.tool_choice) {
+    if (request.tool_choice === "auto") {
+      body.tool_choice = { type: "auto" };
+    } else if (request.tool_choice === "required") {
+      body.tool_choice = { type: "any" };
+    } else if (request.tool_choice === "none") {
+      body.tool_choice = { type: "none" };
+    } else if (typeof request.tool_choice === "object") {
+      body.tool_choice = { type: "tool", name: request.tool_choice.function.name };
+    }
+  }
+
+  return body;
+}
+
+/**
+ * Convert Anthropic usage into OpenAI usage (cached input counts as prompt tokens)
+ */
+export function toOpenAIUsage(usage: any): { prompt_tokens: number; completion_tokens: number; total_tokens: number } {
+  const promptTokens = (usage?.input_tokens || 0) +
+    (usage?.cache_creation_input_tokens || 0) +
+    (usage?.cache_read_input_tokens || 0);
+  const completionTokens = usage?.output_tokens || 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+}
+
+/**
+ * Convert an Anthropic Messages response into an OpenAI chat.completion object
+ * @param message - Anthropic message response
+ * @returns OpenAI chat completion response
+ */
+export function toOpenAIResponse(message: any): Record<string, unknown> {
+  const textParts: string[] = [];
+  const toolCalls: OpenAIToolCall[] = [];
+
+  for (const block of message.content || []) {
+    if (block.type === "text") {
+      textParts.push(block.text);
+    } else if (block.type === "tool_use") {
+      toolCalls.push({
+        id: block.id,
+        type: "function",
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      });
+    }
+  }
+
+  const responseMessage: Record<string, unknown> = {
+    role: "assistant",
+    content: textParts.length > 0 ? textParts.join("") : null,
+  };
+  if (toolCalls.length > 0) {
+    responseMessage.tool_calls = toolCalls;
+  }
+
+  return {
+    id: `chatcmpl-${message.id || randomUUID()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model: message.model,
+    choices: [
+      {
+        index: 0,
+        message: responseMessage,
+        finish_reason: toFinishReason(message.stop_reason),
+      },
+    ],
+    usage: toOpenAIUsage(message.usage),
+  };
+}
+
+/**
+ * Convert an Anthropic error body into the OpenAI error shape
+ */
+export function toOpenAIError(body: any, status: number): Record<string, unknown> {
+  const error = body?.error;
+  const message = typeof error === "string"
+    ? error
+    : error?.message || `Upstream request failed with status ${status}`;
+  const type = typeof error === "object" && error?.type ? error.type : "api_error";
+
+  return {
+    error: {
+      message,
+      type,
+      param: null,
+      code: status === 429 ? "rate_limit_exceeded" : type,
+    },
+  };
+}
+
+/**
+ * Translate an Anthropic SSE stream into OpenAI chat.completion.chunk events
+ * Cancelling the returned stream cancels the upstream body, so usage tracking still settles
+ * @param body - Anthropic SSE response body
+ * @param options - Model name and whether to emit a final usage chunk
+ * @returns OpenAI-style SSE stream terminated by `data: [DONE]`
+ */
+export function toOpenAIStream(
+  body: ReadableStream<Uint8Array>,
+  options: { model: string; includeUsage?: boolean }
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const parser = new SSEParser();
+
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  let model = options.model;
+  let usage: any = {};
+  let finishReason: string | null = null;
+  let finished = false;
+
+  // Anthropic content block index -> OpenAI tool_calls index
+  const toolIndexes = new Map<number, number>();
+
+  const chunk = (delta: Record<string, unknown>, finish: string | null = null, extra: Record<string, unknown> = {}) =>
+    encoder.encode(`data: ${JSON.stringify({
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finish }],
+      ...extra,
+    })}\n\n`);
+
+  const finish = (): Uint8Array[] => {
+    if (finished) return [];
+    finished = true;
+
+    const out = [chunk({}, finishReason ?? "stop")];
+    if (options.includeUsage) {
+      out.push(encoder.encode(`data: ${JSON.stringify({
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model,
+        choices: [],
+        usage: toOpenAIUsage(usage),
+      })}\n\n`));
+    }
+    out.push(encoder.encode("data: [DONE]\n\n"));
+    return out;
+  };
+
+  const translate = (data: string): Uint8Array[] => {
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return [];
+    }
+
+    switch (event.type) {
+      case "message_start":
+        if (event.message?.model) model = event.message.model;
+        usage = { ...usage, ...event.message?.usage };
+        return [chunk({ role: "assistant", content: "" })];
+
+      case "content_block_start":
+        if (event.content_block?.type === "tool_use") {
+          const toolIndex = toolIndexes.size;
+          toolIndexes.set(event.index, toolIndex);
+          return [chunk({
+            tool_calls: [{
+              index: toolIndex,
+              id: event.content_block.id,
+              type: "function",
+              function: { name: event.content_block.name, arguments: "" },
+            }],
+          })];
+        }
+        return [];
+
+      case "content_block_delta":
+        if (event.delta?.type === "text_delta") {
+          return [chunk({ content: event.delta.text })];
+        }
+        if (event.delta?.type === "input_json_delta" && toolIndexes.has(event.index)) {
+          return [chunk({
+            tool_calls: [{ index: toolIndexes.get(event.index), function: { arguments: event.delta.partial_json } }],
+          })];
+        }
+        return [];
+
+      case "message_delta":
+        usage = { ...usage, ...event.usage };
+        finishReason = toFinishReason(event.delta?.stop_reason);
+        return [];
+
+      case "message_stop":
+        return finish();
+
+      case "error":
+        finished = true;
+        return [
+          encoder.encode(`data: ${JSON.stringify(toOpenAIError(event, 500))}\n\n`),
+          encoder.encode("data: [DONE]\n\n"),
+        ];
+
+      default:
+        return [];
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        // Keep reading until at least one chunk is produced; many Anthropic events map to nothing
+        while (true) {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            for (const event of parser.end()) {
+              for (const out of translate(event.data)) controller.enqueue(out);
+            }
+            for (const out of finish()) controller.enqueue(out);
+            controller.close();
+            return;
+          }
+
+          let produced = false;
+          for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+            for (const out of translate(event.data)) {
+              controller.enqueue(out);
+              produced = true;
+            }
+          }
+          if (produced) return;
+        }
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
+
+// Copy the proxy's quota headers onto a translated response
+function quotaHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    if (key.toLowerCase().startsWith("x-ratelimit-") || key.toLowerCase() === "x-quota-percentage" ||
+        key.toLowerCase() === "retry-after") {
+      headers[key] = value;
+    }
+  });
+  return headers;
+}
+
+/**
+ * Handle POST /v1/chat/completions
+ * @param request - Incoming OpenAI-format request (API key in Authorization or x-api-key)
+ * @returns OpenAI-format response (JSON or SSE)
+ */
+export async function proxyOpenAIChatCompletions(request: Request): Promise<Response> {
+  let openAIRequest: OpenAIChatRequest;
+  try {
+    openAIRequest = await request.json();
+  } catch {
+    return new Response(
+      JSON.stringify(toOpenAIError({ error: { type: "invalid_request_error", message: "Invalid JSON in request body" } }, 400)),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!openAIRequest || typeof openAIRequest.model !== "string" || !Array.isArray(openAIRequest.messages)) {
+    return new Response(
+      JSON.stringify(toOpenAIError({ error: { type: "invalid_request_error", message: "model and messages are required" } }, 400)),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const messagesError = validateMessages(openAIRequest.messages);
+  if (messagesError) {
+    return new Response(
+      JSON.stringify(toOpenAIError({ error: { type: "invalid_request_error", message: messagesError } }, 400)),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  // Re-issue as an Anthropic Messages request carrying the caller's credentials
+  const headers = new Headers({ "content-type": "application/json" });
+  for (const name of ["authorization", "x-api-key"]) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+
+  const messagesRequest = new Request(new URL("/v1/messages", request.url), {
+    method: "POST",
+    headers,
+    body: JSON.stringify(toAnthropicRequest(openAIRequest)),
+    signal: request.signal,
+  });
+
+  const response = await proxyToClaudeAPIGeneric(messagesRequest, "/v1/messages", "POST");
+  const responseHeaders = quotaHeaders(response);
+  const contentType = response.headers.get("content-type") || "";
+
+  if (response.ok && contentType.includes("text/event-stream") && response.body) {
+    return new Response(
+      toOpenAIStream(response.body, {
+        model: openAIRequest.model,
+        includeUsage: openAIRequest.stream_options?.include_usage,
+      }),
+      {
+        status: 200,
+        headers: { ...responseHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      }
+    );
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    return new Response(JSON.stringify(toOpenAIError(data, response.status)), {
+      status: response.status,
+      headers: { ...responseHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  return new Response(JSON.stringify(toOpenAIResponse(data)), {
+    status: 200,
+    headers: { ...responseHeaders, "Content-Type": "application/json" },
+  });
+}
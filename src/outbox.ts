@@ -0,0 +1,168 @@
+/**
+ * Notification outbox
+ * Every channel delivery is persisted in notification_outbox before it is sent, so
+ * a notification survives restarts and a failed delivery is retried with
+ * exponential backoff until NOTIFY_MAX_ATTEMPTS is reached. A background worker
+ * sends due deliveries; several instances can run it (rows are claimed with SKIP LOCKED).
+ * Deliveries to an owner's webhook endpoint (endpoint_id set) are signed with that
+ * endpoint's secret and make up its delivery log.
+ */
+
+import pool from "./db";
+import { deliver, WebhookResponseError, type ChannelType, type OutboundMessage } from "./channels";
+
+// A claimed delivery whose instance died is picked up again after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+const OUTBOX_INTERVAL_MS = parseInt(process.env.NOTIFY_OUTBOX_INTERVAL_SECONDS || "10") * 1000;
+
+let workerTimer: ReturnType<typeof setInterval> | null = null;
+let processing: Promise<{ sent: number; failed: number }> | null = null;
+
+function getMaxAttempts(): number {
+  return parseInt(process.env.NOTIFY_MAX_ATTEMPTS || "5");
+}
+
+/**
+ * Queue a delivery of a message to one channel recipient
+ * @param options - endpointId for an owner's webhook endpoint, replayOf for a replayed delivery
+ * @returns ID of the queued delivery
+ */
+export async function enqueueDelivery(
+  channel: ChannelType,
+  recipient: string,
+  message: { event: string; subject: string; text: string; data?: Record<string, unknown> },
+  options: { endpointId?: string; replayOf?: number } = {}
+): Promise<number> {
+  const now = Date.now();
+  const result = await pool.query(
+    `INSERT INTO notification_outbox
+       (channel, recipient, event, subject, body, data, next_attempt_at, created_at, endpoint_id, replay_of)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     RETURNING id`,
+    [channel, recipient, message.event, message.subject, message.text, JSON.stringify(message.data ?? {}),
+     now, now, options.endpointId ?? null, options.replayOf ?? null]
+  );
+  return result.rows[0].id;
+}
+
+/**
+ * Send due deliveries
+ * Concurrent calls in one process share a single run.
+ * @param limit - Most deliveries to claim in this run
+ * @returns Number of deliveries sent and of attempts that failed
+ */
+export function processOutbox(limit = 50): Promise<{ sent: number; failed: number }> {
+  if (!processing) {
+    processing = sendDueDeliveries(limit).finally(() => {
+      processing = null;
+    });
+  }
+  return processing;
+}
+
+async function sendDueDeliveries(limit: number): Promise<{ sent: number; failed: number }> {
+  const now = Date.now();
+  const claimed = await pool.query(
+    `UPDATE notification_outbox SET status = 'sending', attempts = attempts + 1, locked_until = $1
+     WHERE id IN (
+       SELECT id FROM notification_outbox
+       WHERE (status = 'pending' AND next_attempt_at <= $2)
+          OR (status = 'sending' AND locked_until <= $2)
+       ORDER BY id
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now + CLAIM_TIMEOUT_MS, now, limit]
+  );
+
+  let sent = 0;
+  let failed = 0;
+  for (const row of claimed.rows) {
+    const message: OutboundMessage = {
+      id: row.id,
+      event: row.event,
+      subject: row.subject,
+      text: row.body,
+      data: row.data,
+      createdAt: Number(row.created_at),
+    };
+
+    // Endpoint deliveries go to the endpoint's current URL; a removed or disabled endpoint is not retried
+    let recipient: string = row.recipient;
+    let secret: string | undefined;
+    if (row.endpoint_id) {
+      const endpoint = await pool.query("SELECT url, secret, is_active FROM webhook_endpoints WHERE id = $1", [row.endpoint_id]);
+      if (!endpoint.rows[0]?.is_active) {
+        failed++;
+        await pool.query(
+          "UPDATE notification_outbox SET status = 'failed', locked_until = NULL, last_error = $1 WHERE id = $2",
+          ["Webhook endpoint is disabled", row.id]
+        );
+        continue;
+      }
+      recipient = endpoint.rows[0].url;
+      secret = endpoint.rows[0].secret;
+    }
+
+    try {
+      // Owner-registered URLs may only reach public addresses, checked as the connection is made
+      const { status } = await deliver(row.channel, recipient, message, { secret, ownerUrl: Boolean(row.endpoint_id) });
+      await pool.query(
+        `UPDATE notification_outbox SET status = 'sent', sent_at = $1, locked_until = NULL, last_error = NULL, response_status = $2
+         WHERE id = $3`,
+        [Date.now(), status, row.id]
+      );
+      sent++;
+    } catch (error) {
+      failed++;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const exhausted = row.attempts >= getMaxAttempts();
+      const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (row.attempts - 1), RETRY_MAX_DELAY_MS);
+      console.error(`[Outbox] ${row.channel} delivery ${row.id} failed (attempt ${row.attempts}): ${errorMessage}`);
+      await pool.query(
+        `UPDATE notification_outbox
+         SET status = $1, next_attempt_at = $2, locked_until = NULL, last_error = $3, response_status = $4
+         WHERE id = $5`,
+        [exhausted ? "failed" : "pending", Date.now() + delay, errorMessage,
+         error instanceof WebhookResponseError ? error.status : null, row.id]
+      );
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Start the background worker that sends queued deliveries
+ * NOTIFY_OUTBOX_INTERVAL_SECONDS sets how often it runs (0 disables it).
+ */
+export function startOutboxWorker(intervalMs: number = OUTBOX_INTERVAL_MS): void {
+  if (workerTimer || intervalMs <= 0) {
+    return;
+  }
+
+  console.log(`[Outbox] Starting notification outbox worker (every ${intervalMs / 1000} seconds)`);
+  workerTimer = setInterval(() => {
+    processOutbox()
+      .then(({ sent, failed }) => {
+        if (sent || failed) {
+          console.log(`[Outbox] Notification outbox: ${sent} sent, ${failed} failed`);
+        }
+      })
+      .catch((error) => console.error("[Outbox] Notification outbox worker error:", error));
+  }, intervalMs);
+  workerTimer.unref?.();
+}
+
+// Stop the background outbox worker
+export function stopOutboxWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Plan catalogue module
+ * Plans and model weights live in the plans and model_weights tables and are cached
+ * in memory (PLAN_LIMITS and the weights in limits.ts). The cache is reloaded after
+ * every change made here and at most PLAN_CACHE_TTL_SECONDS after a change made by
+ * another instance.
+ */
+
+import pool from "./db";
+import {
+  PLAN_LIMITS,
+  PlanLimits,
+  PlanType,
+  ModelFamily,
+  MODEL_FAMILIES,
+  QuotaWindow,
+  DEFAULT_PLAN_LIMITS,
+  DEFAULT_PLAN,
+  setPlanLimits,
+  setModelWeights,
+} from "./limits";
+
+const PLAN_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+function getCacheTtlMs(): number {
+  return parseInt(process.env.PLAN_CACHE_TTL_SECONDS || "60") * 1000;
+}
+
+/**
+ * Load plans and model weights from the database into the in-memory cache
+ */
+export async function loadPlans(): Promise<void> {
+  const [plansResult, weightsResult] = await Promise.all([
+    pool.query("SELECT name, credits_per_window, window_hours, weekly_windows, allowed_models FROM plans"),
+    pool.query("SELECT family, weight FROM model_weights"),
+  ]);
+
+  const plans: Record<PlanType, PlanLimits> = {};
+  for (const row of plansResult.rows) {
+    plans[row.name] = {
+      creditsPerWindow: Number(row.credits_per_window),
+      windowHours: Number(row.window_hours),
+      weeklyWindows: row.weekly_windows,
+      allowedModels: row.allowed_models,
+    };
+  }
+
+  const weights: Partial<Record<ModelFamily, number>> = {};
+  for (const row of weightsResult.rows) {
+    weights[row.family as ModelFamily] = Number(row.weight);
+  }
+
+  // An empty table means the schema has not been seeded yet; keep the built-in plans
+  setPlanLimits(plansResult.rows.length > 0 ? plans : structuredClone(DEFAULT_PLAN_LIMITS));
+  setModelWeights(weights);
+  loadedAt = Date.now();
+}
+
+/**
+ * Reload the cache if it is older than the TTL
+ * Concurrent callers share one reload; a failed reload keeps the cached plans.
+ */
+export async function refreshPlans(): Promise<void> {
+  if (Date.now() - loadedAt < getCacheTtlMs()) {
+    return;
+  }
+
+  loading ??= loadPlans()
+    .catch((error) => {
+      console.error("[Plans] Failed to reload plans:", error);
+    })
+    .finally(() => {
+      loading = null;
+    });
+  await loading;
+}
+
+/**
+ * Mark the cache stale so the next refreshPlans reloads it
+ */
+export function invalidatePlanCache(): void {
+  loadedAt = 0;
+}
+
+/**
+ * Validate a plan definition from the admin API
+ * @returns An error message, or null if the plan is valid
+ */
+export function validatePlan(plan: any): string | null {
+  if (!plan || typeof plan !== "object") {
+    return "Plan must be an object";
+  }
+  if (!Number.isInteger(plan.creditsPerWindow) || plan.creditsPerWindow <= 0) {
+    return "creditsPerWindow must be a positive integer";
+  }
+  if (typeof plan.windowHours !== "number" || !(plan.windowHours > 0)) {
+    return "windowHours must be a positive number";
+  }
+  if (!Array.isArray(plan.allowedModels) || plan.allowedModels.length === 0 ||
+      !plan.allowedModels.every((model: unknown) => MODEL_FAMILIES.includes(model as ModelFamily))) {
+    return `allowedModels must be a non-empty list of: ${MODEL_FAMILIES.join(", ")}`;
+  }
+
+  const windows = plan.weeklyWindows ?? [];
+  if (!Array.isArray(windows)) {
+    return "weeklyWindows must be a list";
+  }
+  for (const window of windows) {
+    if (typeof window?.name !== "string" || !window.name) {
+      return "Each weekly window needs a name";
+    }
+    if (typeof window.windowHours !== "number" || !(window.windowHours > 0)) {
+      return `Window ${window.name}: windowHours must be a positive number`;
+    }
+    if (!Number.isInteger(window.credits) || window.credits <= 0) {
+      return `Window ${window.name}: credits must be a positive integer`;
+    }
+    if (window.modelFamilies !== undefined &&
+        (!Array.isArray(window.modelFamilies) || !window.modelFamilies.every((f: unknown) => MODEL_FAMILIES.includes(f as ModelFamily)))) {
+      return `Window ${window.name}: modelFamilies must be a list of: ${MODEL_FAMILIES.join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * List all plans, as currently cached
+ */
+export function listPlans(): Array<PlanLimits & { name: PlanType; builtIn: boolean }> {
+  return Object.entries(PLAN_LIMITS)
+    .map(([name, limits]) => ({ name, ...limits, builtIn: name in DEFAULT_PLAN_LIMITS }))
+    .sort((a, b) => a.creditsPerWindow - b.creditsPerWindow);
+}
+
+/**
+ * Create or replace a plan
+ * @param name - Plan name (lowercase letters, digits and dashes)
+ * @param plan - Limits of the plan
+ */
+export async function savePlan(name: string, plan: PlanLimits): Promise<{ success: boolean; error?: string }> {
+  if (!PLAN_NAME_PATTERN.test(name)) {
+    return { success: false, error: "Plan name must be lowercase letters, digits and dashes (max 50 characters)" };
+  }
+
+  const validationError = validatePlan(plan);
+  if (validationError) {
+    return { success: false, error: validationError };
+  }
+
+  const weeklyWindows: QuotaWindow[] = (plan.weeklyWindows ?? []).map((window) => ({
+    name: window.name,
+    windowHours: window.windowHours,
+    credits: window.credits,
+    ...(window.modelFamilies ? { modelFamilies: window.modelFamilies } : {}),
+  }));
+
+  try {
+    await pool.query(
+      `INSERT INTO plans (name, credits_per_window, window_hours, weekly_windows, allowed_models, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (name) DO UPDATE SET
+         credits_per_window = EXCLUDED.credits_per_window,
+         window_hours = EXCLUDED.window_hours,
+         weekly_windows = EXCLUDED.weekly_windows,
+         allowed_models = EXCLUDED.allowed_models,
+         updated_at = EXCLUDED.updated_at`,
+      [name, plan.creditsPerWindow, plan.windowHours, JSON.stringify(weeklyWindows),
+       JSON.stringify(plan.allowedModels), Date.now()]
+    );
+    await loadPlans();
+
+    console.log(`[Plans] Saved plan ${name}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[Plans] Save plan error:", error);
+    return { success: false, error: "Failed to save plan" };
+  }
+}
+
+/**
+ * Delete a plan that no user or account is on
+ * @param name - Plan name
+ */
+export async function deletePlan(name: string): Promise<{ success: boolean; error?: string; inUse?: boolean }> {
+  // Users on unknown plans fall back to the default plan, so it can never be deleted
+  if (name === DEFAULT_PLAN) {
+    return { success: false, error: `The ${DEFAULT_PLAN} plan is the default plan and cannot be deleted` };
+  }
+
+  try {
+    const usage = await pool.query(
+      `SELECT (SELECT COUNT(*) FROM users WHERE plan_type = $1) +
+              (SELECT COUNT(*) FROM oauth_tokens WHERE plan_type = $1) AS count`,
+      [name]
+    );
+    if (Number(usage.rows[0].count) > 0) {
+      return { success: false, error: "Plan is in use by users or Claude accounts", inUse: true };
+    }
+
+    const result = await pool.query("DELETE FROM plans WHERE name = $1", [name]);
+    if ((result.rowCount || 0) === 0) {
+      return { success: false, error: "Plan not found" };
+    }
+    await loadPlans();
+
+    console.log(`[Plans] Deleted plan ${name}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[Plans] Delete plan error:", error);
+    return { success: false, error: "Failed to delete plan" };
+  }
+}
+
+/**
+ * Set the credit weight of a model family
+ * @param family - Model family
+ * @param weight - Credits per token
+ */
+export async function saveModelWeight(family: string, weight: unknown): Promise<{ success: boolean; error?: string }> {
+  if (!MODEL_FAMILIES.includes(family as ModelFamily)) {
+    return { success: false, error: `Unknown model family. Must be one of: ${MODEL_FAMILIES.join(", ")}` };
+  }
+  if (typeof weight !== "number" || !(weight > 0) || !Number.isFinite(weight)) {
+    return { success: false, error: "Weight must be a positive number" };
+  }
+
+  try {
+    await pool.query(
+      `INSERT INTO model_weights (family, weight, updated_at) VALUES ($1, $2, $3)
+       ON CONFLICT (family) DO UPDATE SET weight = EXCLUDED.weight, updated_at = EXCLUDED.updated_at`,
+      [family, weight, Date.now()]
+    );
+    await loadPlans();
+
+    console.log(`[Plans] Set ${family} weight to ${weight}`);
+    return { success: true };
+  } catch (error) {
+    console.error("[Plans] Save model weight error:", error);
+    return { success: false, error: "Failed to save model weight" };
+  }
+}
@@ -1,35 +1,391 @@
 import { validateApiKey } from "./keys";
-import { ensureValidToken, hasOAuthConnection } from "./oauth";
+import { ensureValidToken, hasOAuthConnection, setConnectionHealth, getConnectionStatus } from "./oauth";
+import { selectAccounts, markAccountUsed, markAccountRateLimited } from "./accounts";
 import { updateKeyUsage } from "./usage";
 import pool from "./db";
-import { checkQuotaLimit, formatDuration } from "./quota";
-import { PLAN_LIMITS } from "./limits";
+import { reserveQuota, releaseReservation, estimateRequestTokens, formatDuration, type QuotaCheckResult } from "./quota";
+import { checkBudgets, describeBudget, type BudgetCheckResult } from "./budgets";
+import { notifyQuotaThresholds } from "./notifications";
+import { emitQuotaExceeded } from "./webhooks";
+import { PlanType, getPlanLimits, resolvePlanType, isModelAllowed, calculateCreditsUsed } from "./limits";
+import { trackStreamUsage, StreamUsage } from "./stream";
+import { getUpstreamConfig, upstreamFetch, UpstreamTimeoutError } from "./upstream";
+import { withRetry, recordUpstreamAttempt, RETRYABLE_STATUSES } from "./retry";
+import { startProxyRequest, finishProxyRequest, ProxyRequestLog } from "./audit";
+import { recordUsageMetrics } from "./metrics";
+import { withSpan, startServerSpan, bindToCurrentContext } from "./tracing";
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+/**
+ * Extract the proxy API key from the request
+ * Accepts `Authorization: Bearer <key>` and the `x-api-key` header sent by the Anthropic SDKs
+ * @returns The API key, or null if neither header carries one
+ */
+export function extractApiKey(request: Request): string | null {
+  const authHeader = request.headers.get("authorization");
+  if (authHeader && authHeader.startsWith("Bearer ")) {
+    const key = authHeader.slice("Bearer ".length).trim();
+    if (key) return key;
+  }
+
+  const apiKeyHeader = request.headers.get("x-api-key");
+  if (apiKeyHeader && apiKeyHeader.trim()) {
+    return apiKeyHeader.trim();
+  }
+
+  return null;
+}
+
+// Reject a model the key owner's plan does not include
+function modelNotAllowedResponse(model: string, planType: PlanType): Response {
+  return new Response(
+    JSON.stringify({
+      error: {
+        type: "permission_error",
+        message: `The model ${model} is not available on the ${planType} plan of this API key's provider. Allowed models: ${getPlanLimits(planType).allowedModels.join(", ")}.`,
+        allowed_models: getPlanLimits(planType).allowedModels,
+      }
+    }),
+    { status: 403, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+// Hard dollar budget spent; the request can go through once the budget's period ends
+function budgetExceededResponse(budgetCheck: BudgetCheckResult): Response {
+  const budget = budgetCheck.exceededBudget!;
+  return new Response(
+    JSON.stringify({
+      error: {
+        type: "rate_limit_error",
+        message: budgetCheck.reason,
+        budget_exceeded: {
+          scope: budget.scope,
+          period: budget.period,
+          amount_usd: budget.amountUsd,
+          spent_usd: budget.spentUsd,
+          reset_at: budget.periodEnd.toISOString()
+        }
+      }
+    }),
+    {
+      status: 429,
+      headers: {
+        "Content-Type": "application/json",
+        "Retry-After": Math.max(0, Math.ceil((budget.periodEnd.getTime() - Date.now()) / 1000)).toString()
+      }
+    }
+  );
+}
+
+// Rate limit headers of an allowed request: the key's share of its primary window and what is left of it
+function rateLimitHeaders(quotaCheck: QuotaCheckResult): Record<string, string> {
+  const [primary] = quotaCheck.windows;
+  const spent = primary.usage.currentCredits + primary.usage.reservedCredits;
+  return {
+    "X-RateLimit-Limit": primary.effectiveCredits.toString(),
+    "X-RateLimit-Remaining": Math.max(0, primary.effectiveCredits - spent).toString(),
+    "X-RateLimit-Reset": quotaCheck.resetTime.toISOString(),
+    "X-Quota-Percentage": quotaCheck.percentages.creditPercentage.toFixed(2),
+  };
+}
+
+// Flags a request that went through over a warn-only budget
+function budgetWarningHeaders(budgetCheck: BudgetCheckResult): Record<string, string> {
+  if (budgetCheck.warnings.length === 0) {
+    return {};
+  }
+  return {
+    "X-Budget-Warning": budgetCheck.warnings
+      .map((budget) => `$${budget.spentUsd.toFixed(2)} of the ${describeBudget(budget)} spent`)
+      .join("; ")
+  };
+}
+
+// e.g. "5h quota window at 83% (warning threshold 80%)", one per key window past a warning threshold
+function describeQuotaWarnings(quotaCheck: QuotaCheckResult | null): string[] {
+  return (quotaCheck?.warnings ?? []).map((warning) =>
+    `${warning.window} quota window at ${warning.percentage}% (warning threshold ${warning.thresholds[warning.thresholds.length - 1]}%)`
+  );
+}
+
+function quotaWarningHeaders(quotaCheck: QuotaCheckResult | null): Record<string, string> {
+  const warnings = describeQuotaWarnings(quotaCheck);
+  return warnings.length > 0 ? { "X-Quota-Warning": warnings.join("; ") } : {};
+}
+
+// Add quota warnings to a successful Messages response, shaped like Anthropic error objects
+// (clients ignore fields they don't know)
+function withQuotaWarnings(responseData: any, quotaCheck: QuotaCheckResult | null, ok: boolean): any {
+  const warnings = describeQuotaWarnings(quotaCheck);
+  if (!ok || warnings.length === 0 || !responseData || typeof responseData !== "object") {
+    return responseData;
+  }
+  return {
+    ...responseData,
+    warnings: warnings.map((message) => ({ type: "quota_warning", message })),
+  };
+}
+
+// Send quota warnings ahead of a successful stream as `quota_warning` events, shaped like the
+// JSON `warnings` entries (clients skip event types they don't know)
+function withStreamQuotaWarnings(body: ReadableStream<Uint8Array>, quotaCheck: QuotaCheckResult | null): ReadableStream<Uint8Array> {
+  const warnings = describeQuotaWarnings(quotaCheck);
+  if (warnings.length === 0) {
+    return body;
+  }
+
+  const reader = body.getReader();
+  const events = warnings
+    .map((message) => `event: quota_warning\ndata: ${JSON.stringify({ type: "quota_warning", message })}\n\n`)
+    .join("");
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(events));
+    },
+
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
+
+// Quota window exhausted; limit and reset describe the window that blocked the request
+function quotaExceededResponse(quotaCheck: QuotaCheckResult): Response {
+  const window = quotaCheck.exceededWindow;
+  return new Response(
+    JSON.stringify({
+      error: {
+        type: "rate_limit_error",
+        message: quotaCheck.reason,
+        quota_exceeded: {
+          window: window?.name,
+          scope: window?.scope,
+          usage_percentage: quotaCheck.percentages.creditPercentage,
+          reset_at: quotaCheck.resetTime.toISOString(),
+          time_until_reset: formatDuration(quotaCheck.usage.timeUntilResetMs)
+        }
+      }
+    }),
+    {
+      status: 429,
+      headers: {
+        "Content-Type": "application/json",
+        "Retry-After": Math.ceil(quotaCheck.usage.timeUntilResetMs / 1000).toString(),
+        "X-RateLimit-Limit": (window ?? quotaCheck.windows[0]).effectiveCredits.toString(),
+        "X-RateLimit-Remaining": "0",
+        "X-RateLimit-Reset": quotaCheck.resetTime.toISOString()
+      }
+    }
+  );
+}
+
+// Anthropic did not answer within the configured timeout
+function upstreamTimeoutResponse(error: UpstreamTimeoutError): Response {
+  console.error("[Proxy]", error.message);
+  return new Response(
+    JSON.stringify({ error: { type: "timeout_error", message: error.message } }),
+    { status: 504, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+// Upstream headers clients rely on (backoff hints and request ids), kept when the body is re-serialized
+function upstreamPassthroughHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    if (key === "retry-after" || key === "request-id" || key.startsWith("anthropic-ratelimit-")) {
+      headers[key] = value;
+    }
+  });
+  return headers;
+}
+
+// Response when none of the owner's accounts produced a usable token
+async function noUsableAccountResponse(userId: string): Promise<Response> {
+  const status = await getConnectionStatus(userId);
+  const body = status.health === "revoked"
+    ? {
+        error: {
+          type: "authentication_error",
+          message: "The Claude connection of this API key's provider was revoked. Please contact them to reconnect their Claude account.",
+        }
+      }
+    : { error: "OAuth token not found or expired. Please reconnect Claude account." };
+
+  return new Response(JSON.stringify(body), { status: 401, headers: { "Content-Type": "application/json" } });
+}
+
+/**
+ * Send a request upstream through the owner's Claude accounts
+ * Accounts are tried in the order chosen by the owner's strategy; a 429 or a
+ * revoked-token 401 moves on to the next account while any remain. Transient
+ * errors (529, 5xx, and 429 on the last account) are retried with backoff.
+ * @param path - Upstream path, recorded with each attempt
+ * @param send - Performs the upstream fetch with the given access token
+ * @returns The upstream response and the account that served it, or null if no account has a usable token
+ */
+async function forwardWithFailover(
+  userId: string,
+  keyId: string,
+  path: string,
+  send: (accessToken: string) => Promise<Response>
+): Promise<{ response: Response; accountId: string } | null> {
+  const accounts = await selectAccounts(userId, keyId);
+
+  for (let i = 0; i < accounts.length; i++) {
+    const account = accounts[i];
+    const hasNext = i < accounts.length - 1;
+
+    const tokenResult = await withSpan("ensureValidToken", { "claude_proxy.key_id": keyId, "claude_proxy.account_id": account.id }, () =>
+      ensureValidToken(userId, account.id)
+    );
+    if (!tokenResult.success || !tokenResult.accessToken) {
+      console.warn(`[Proxy] Skipping Claude account ${account.id}: ${tokenResult.error}`);
+      continue;
+    }
+
+    // Another account is a better answer to a rate limit than waiting on this one
+    const response = await withRetry(() => send(tokenResult.accessToken!), {
+      retryableStatuses: hasNext ? RETRYABLE_STATUSES.filter((status) => status !== 429) : RETRYABLE_STATUSES,
+      onAttempt: (attempt) => recordUpstreamAttempt(keyId, account.id, path, attempt),
+    });
+
+    if (response.status === 401) {
+      const detail = await response.clone().json().then((b) => b?.error?.message).catch(() => null);
+      await setConnectionHealth(account.id, "revoked", `Upstream rejected the access token (HTTP 401${detail ? `: ${detail}` : ""})`);
+    } else if (response.ok && account.health_status && account.health_status !== "healthy") {
+      await setConnectionHealth(account.id, "healthy");
+    }
+
+    if (response.status === 429) {
+      await markAccountRateLimited(account.id, response.headers.get("retry-after"));
+    }
+
+    if ((response.status === 429 || response.status === 401) && hasNext) {
+      console.log(`[Proxy] Claude account ${account.id} returned ${response.status}, failing over`);
+      await response.body?.cancel();
+      continue;
+    }
+
+    await markAccountUsed(account.id);
+    return { response, accountId: account.id };
+  }
+
+  return null;
+}
+
+// Record token usage for a key without failing the request if tracking fails
+async function recordUsage(keyId: string, model: string, usage: Partial<StreamUsage>, accountId: string, planType: PlanType): Promise<void> {
+  const tokens = {
+    input_tokens: usage.input_tokens || 0,
+    output_tokens: usage.output_tokens || 0,
+    cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+    cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+  };
+  const totalTokens = tokens.input_tokens + tokens.output_tokens + tokens.cache_creation_input_tokens + tokens.cache_read_input_tokens;
+  recordUsageMetrics(planType, tokens, calculateCreditsUsed(model, totalTokens));
+
+  try {
+    await withSpan("updateKeyUsage", { "claude_proxy.key_id": keyId, "gen_ai.request.model": model }, () =>
+      updateKeyUsage(keyId, { model, account_id: accountId, ...tokens })
+    );
+  } catch (usageError) {
+    console.error("Failed to update usage:", usageError);
+    // Don't fail the request if usage tracking fails
+  }
+}
+
+// Wrap a streaming body so usage is recorded once the stream finishes or the client disconnects,
+// after which the request's quota reservation is released
+function withStreamUsageTracking(
+  body: ReadableStream<Uint8Array>,
+  keyId: string,
+  requestModel: string | undefined,
+  accountId: string,
+  planType: PlanType,
+  reservationId: number | null
+): ReadableStream<Uint8Array> {
+  // The stream finishes after the request handler returned, so keep the request's trace context
+  return trackStreamUsage(body, bindToCurrentContext(async (usage: StreamUsage | null) => {
+    try {
+      if (!usage) {
+        console.warn("[Proxy] Stream ended without usage events for key:", keyId);
+        return;
+      }
+      await recordUsage(keyId, requestModel || usage.model || DEFAULT_MODEL, usage, accountId, planType);
+    } finally {
+      if (reservationId !== null) {
+        await releaseReservation(reservationId);
+      }
+    }
+  }));
+}
+
+// Run a proxied call inside a server span continued from the client's traceparent; the span,
+// audit log row and metrics are all completed when the response (or its stream) finishes
+async function handleProxyRequest(
+  request: Request,
+  path: string,
+  method: string,
+  forward: (log: ProxyRequestLog) => Promise<Response>
+): Promise<Response> {
+  const log = startProxyRequest(path, method);
+  const { span, run } = startServerSpan(request.headers, `${method} ${path}`, {
+    "http.request.method": method,
+    "url.path": path,
+  });
+  log.span = span;
+
+  return run(async () => finishProxyRequest(log, await forward(log)));
+}
 
 // Proxy request to Claude API
 export async function proxyToClaudeAPI(request: Request): Promise<Response> {
+  return handleProxyRequest(request, "/v1/messages", "POST", (log) => forwardMessages(request, log));
+}
+
+async function forwardMessages(request: Request, log: ProxyRequestLog): Promise<Response> {
+  // The estimate is released once real usage is recorded: below, or when a tracked stream ends
+  let reservationId: number | null = null;
+  let releasedByStream = false;
   try {
-    // 1. Extract API key from Authorization header
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    // 1. Extract API key from Authorization or x-api-key header
+    const apiKey = extractApiKey(request);
+    if (!apiKey) {
       return new Response(
-        JSON.stringify({ error: "Missing or invalid authorization header" }),
+        JSON.stringify({ error: "Missing API key. Provide it in the x-api-key header or as Authorization: Bearer <key>" }),
         { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    const apiKey = authHeader.replace("Bearer ", "");
-
     // 2. Validate API key and get user ID (owner of the key)
-    const keyValidation = await validateApiKey(apiKey);
+    const keyValidation = await withSpan("validateApiKey", {}, () => validateApiKey(apiKey));
     if (!keyValidation.valid || !keyValidation.userId || !keyValidation.keyId) {
       return new Response(
         JSON.stringify({ error: "Invalid API key" }),
         { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
+    log.keyId = keyValidation.keyId;
 
     // 3. Check if key owner has active OAuth connection
-    const hasConnection = await hasOAuthConnection(keyValidation.userId);
+    const hasConnection = await withSpan("hasOAuthConnection", { "claude_proxy.key_id": keyValidation.keyId }, () =>
+      hasOAuthConnection(keyValidation.userId)
+    );
     if (!hasConnection) {
       // Get owner email for better error message
       const ownerResult = await pool.query("SELECT email FROM users WHERE id = $1", [keyValidation.userId]);
@@ -47,51 +403,14 @@ export async function proxyToClaudeAPI(request: Request): Promise<Response> {
       );
     }
 
-    // 4. Get plan type from user (owner of the key) and check quota BEFORE proxying
+    // 4. Get plan type from user (owner of the key)
     const userResult = await pool.query(
       "SELECT plan_type FROM users WHERE id = $1",
       [keyValidation.userId]
     );
-    const planType = userResult.rows[0]?.plan_type || 'pro';
-
-    const quotaCheck = await checkQuotaLimit(keyValidation.keyId, planType);
-
-    if (!quotaCheck.allowed) {
-      return new Response(
-        JSON.stringify({
-          error: {
-            type: "rate_limit_error",
-            message: quotaCheck.reason,
-            quota_exceeded: {
-              usage_percentage: quotaCheck.percentages.creditPercentage,
-              reset_at: quotaCheck.resetTime.toISOString(),
-              time_until_reset: formatDuration(quotaCheck.usage.timeUntilResetMs)
-            }
-          }
-        }),
-        {
-          status: 429,
-          headers: {
-            "Content-Type": "application/json",
-            "Retry-After": Math.ceil(quotaCheck.usage.timeUntilResetMs / 1000).toString(),
-            "X-RateLimit-Limit": PLAN_LIMITS[planType].creditsPerWindow.toString(),
-            "X-RateLimit-Remaining": "0",
-            "X-RateLimit-Reset": quotaCheck.resetTime.toISOString()
-          }
-        }
-      );
-    }
-
-    // 5. Get valid OAuth access token (refresh if needed)
-    const tokenResult = await ensureValidToken(keyValidation.userId);
-    if (!tokenResult.success || !tokenResult.accessToken) {
-      return new Response(
-        JSON.stringify({ error: "OAuth token not found or expired. Please reconnect Claude account." }),
-        { status: 401, headers: { "Content-Type": "application/json" } }
-      );
-    }
+    const planType = resolvePlanType(userResult.rows[0]?.plan_type);
 
-    // 6. Get request body
+    // 5. Get request body
     let body;
     try {
       const contentType = request.headers.get("content-type");
@@ -134,84 +453,149 @@ export async function proxyToClaudeAPI(request: Request): Promise<Response> {
       );
     }
 
-    // 7. Forward to Claude API
-    const claudeResponse = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "authorization": `Bearer ${tokenResult.accessToken}`,
-        "anthropic-version": "2023-06-01",
-        "anthropic-beta": "oauth-2025-04-20,claude-code-20250219,interleaved-thinking-2025-05-14,fine-grained-tool-streaming-2025-05-14",
-        "content-type": "application/json",
-      },
-      body: JSON.stringify(body),
-    });
+    log.model = typeof body.model === "string" ? body.model : null;
+    log.stream = body.stream === true;
+
+    // 6. Enforce the plan's allowed models
+    if (typeof body.model === "string" && !isModelAllowed(body.model, planType)) {
+      return modelNotAllowedResponse(body.model, planType);
+    }
+
+    // 7. Check the key's and owner's dollar budgets, then every quota window, BEFORE proxying
+    // and reserve the request's estimated cost
+    const budgetCheck = await withSpan("checkBudgets", { "claude_proxy.key_id": keyValidation.keyId }, () =>
+      checkBudgets(keyValidation.keyId, keyValidation.userId)
+    );
+    if (!budgetCheck.allowed) {
+      return budgetExceededResponse(budgetCheck);
+    }
 
-    // 8. Get Claude's response
+    const quotaCheck = await withSpan("checkQuotaLimit", { "claude_proxy.key_id": keyValidation.keyId, "claude_proxy.plan": planType }, () =>
+      reserveQuota(keyValidation.keyId, planType, log.model, estimateRequestTokens(body))
+    );
+    reservationId = quotaCheck.reservationId ?? null;
+
+    if (!quotaCheck.allowed) {
+      if (quotaCheck.exceededWindow) {
+        await emitQuotaExceeded(keyValidation.keyId, quotaCheck.exceededWindow);
+      }
+      return quotaExceededResponse(quotaCheck);
+    }
+    // Sent in the background so the request doesn't wait on it; failures are logged
+    void notifyQuotaThresholds(keyValidation.keyId, quotaCheck.warnings);
+
+    // 8. Forward to Claude API through the owner's accounts (tokens refreshed if needed)
+    const upstream = getUpstreamConfig();
+    const forwarded = await forwardWithFailover(keyValidation.userId, keyValidation.keyId, "/v1/messages", (accessToken) =>
+      upstreamFetch("api", "/v1/messages", {
+        method: "POST",
+        headers: {
+          "authorization": `Bearer ${accessToken}`,
+          "anthropic-version": upstream.anthropicVersion,
+          "anthropic-beta": upstream.anthropicBeta,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify(body),
+      })
+    );
+    if (!forwarded) {
+      return noUsableAccountResponse(keyValidation.userId);
+    }
+    const { response: claudeResponse, accountId } = forwarded;
+    log.firstByteAt = Date.now();
+    log.upstreamRequestId = claudeResponse.headers.get("request-id");
+
+    // 9. Streaming responses are passed through, with usage recorded when the stream ends
+    const responseContentType = claudeResponse.headers.get("content-type") || "";
+    if (responseContentType.includes("text/event-stream") && claudeResponse.body) {
+      const streamBody = claudeResponse.ok
+        ? withStreamQuotaWarnings(withStreamUsageTracking(claudeResponse.body, keyValidation.keyId, body.model, accountId, planType, reservationId), quotaCheck)
+        : claudeResponse.body;
+      releasedByStream = claudeResponse.ok;
+
+      return new Response(streamBody, {
+        status: claudeResponse.status,
+        headers: {
+          ...upstreamPassthroughHeaders(claudeResponse),
+          "Content-Type": responseContentType,
+          "Cache-Control": "no-cache",
+          ...rateLimitHeaders(quotaCheck),
+          ...budgetWarningHeaders(budgetCheck),
+          ...quotaWarningHeaders(quotaCheck)
+        },
+      });
+    }
+
+    // 10. Get Claude's response
     const responseData = await claudeResponse.json();
 
-    // 9. Track usage if response is successful and contains usage data
+    // 11. Track usage if response is successful and contains usage data
     if (claudeResponse.ok && responseData.usage) {
-      try {
-        await updateKeyUsage(keyValidation.keyId, {
-          model: body.model || "claude-sonnet-4-20250514", // Extract model from request, fallback to Sonnet
-          input_tokens: responseData.usage.input_tokens || 0,
-          output_tokens: responseData.usage.output_tokens || 0,
-          cache_creation_input_tokens: responseData.usage.cache_creation_input_tokens || 0,
-          cache_read_input_tokens: responseData.usage.cache_read_input_tokens || 0,
-        });
-      } catch (usageError) {
-        console.error("Failed to update usage:", usageError);
-        // Don't fail the request if usage tracking fails
-      }
+      // Extract model from request, fallback to Sonnet
+      await recordUsage(keyValidation.keyId, body.model || DEFAULT_MODEL, responseData.usage, accountId, planType);
     }
 
-    // 10. Return Claude's response with quota headers
-    const creditsRemaining = PLAN_LIMITS[planType].creditsPerWindow - quotaCheck.usage.currentCredits;
+    // 12. Return Claude's response with quota headers
 
-    return new Response(JSON.stringify(responseData), {
+    return new Response(JSON.stringify(withQuotaWarnings(responseData, quotaCheck, claudeResponse.ok)), {
       status: claudeResponse.status,
       headers: {
+        ...upstreamPassthroughHeaders(claudeResponse),
         "Content-Type": "application/json",
-        "X-RateLimit-Limit": PLAN_LIMITS[planType].creditsPerWindow.toString(),
-        "X-RateLimit-Remaining": Math.max(0, creditsRemaining).toString(),
-        "X-RateLimit-Reset": quotaCheck.resetTime.toISOString(),
-        "X-Quota-Percentage": quotaCheck.percentages.creditPercentage.toFixed(2)
+        ...rateLimitHeaders(quotaCheck),
+        ...budgetWarningHeaders(budgetCheck),
+        ...quotaWarningHeaders(quotaCheck)
       },
     });
   } catch (error) {
+    if (error instanceof UpstreamTimeoutError) {
+      return upstreamTimeoutResponse(error);
+    }
     console.error("Proxy error:", error);
     return new Response(
       JSON.stringify({ error: "Internal server error" }),
       { status: 500, headers: { "Content-Type": "application/json" } }
     );
+  } finally {
+    if (reservationId !== null && !releasedByStream) {
+      await releaseReservation(reservationId);
+    }
   }
 }
 
 // Generic proxy for any Claude API endpoint
 export async function proxyToClaudeAPIGeneric(request: Request, path: string, method: string): Promise<Response> {
+  return handleProxyRequest(request, path, method, (log) => forwardGeneric(request, path, method, log));
+}
+
+async function forwardGeneric(request: Request, path: string, method: string, log: ProxyRequestLog): Promise<Response> {
+  // The estimate is released once real usage is recorded: below, or when a tracked stream ends
+  let reservationId: number | null = null;
+  let releasedByStream = false;
   try {
-    // 1. Extract API key from Authorization header
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    // 1. Extract API key from Authorization or x-api-key header
+    const apiKey = extractApiKey(request);
+    if (!apiKey) {
       return new Response(
-        JSON.stringify({ error: "Missing or invalid authorization header" }),
+        JSON.stringify({ error: "Missing API key. Provide it in the x-api-key header or as Authorization: Bearer <key>" }),
         { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
 
-    const apiKey = authHeader.replace("Bearer ", "");
-
     // 2. Validate API key and get user ID (owner of the key)
-    const keyValidation = await validateApiKey(apiKey);
+    const keyValidation = await withSpan("validateApiKey", {}, () => validateApiKey(apiKey));
     if (!keyValidation.valid || !keyValidation.userId || !keyValidation.keyId) {
       return new Response(
         JSON.stringify({ error: "Invalid API key" }),
         { status: 401, headers: { "Content-Type": "application/json" } }
       );
     }
+    log.keyId = keyValidation.keyId;
 
     // 3. Check if key owner has active OAuth connection
-    const hasConnection = await hasOAuthConnection(keyValidation.userId);
+    const hasConnection = await withSpan("hasOAuthConnection", { "claude_proxy.key_id": keyValidation.keyId }, () =>
+      hasOAuthConnection(keyValidation.userId)
+    );
     if (!hasConnection) {
       const ownerResult = await pool.query("SELECT email FROM users WHERE id = $1", [keyValidation.userId]);
       const owner = ownerResult.rows[0] as { email: string } | undefined;
@@ -228,54 +612,14 @@ export async function proxyToClaudeAPIGeneric(request: Request, path: string, me
       );
     }
 
-    // 4. Get plan type and check quota (for /v1/messages only)
+    // 4. Get plan type
     const userResult = await pool.query(
       "SELECT plan_type FROM users WHERE id = $1",
       [keyValidation.userId]
     );
-    const planType = userResult.rows[0]?.plan_type || 'pro';
+    const planType = resolvePlanType(userResult.rows[0]?.plan_type);
 
-    let quotaCheck = null;
-    if (path === '/v1/messages') {
-      quotaCheck = await checkQuotaLimit(keyValidation.keyId, planType);
-
-      if (!quotaCheck.allowed) {
-        return new Response(
-          JSON.stringify({
-            error: {
-              type: "rate_limit_error",
-              message: quotaCheck.reason,
-              quota_exceeded: {
-                usage_percentage: quotaCheck.percentages.creditPercentage,
-                reset_at: quotaCheck.resetTime.toISOString(),
-                time_until_reset: formatDuration(quotaCheck.usage.timeUntilResetMs)
-              }
-            }
-          }),
-          {
-            status: 429,
-            headers: {
-              "Content-Type": "application/json",
-              "Retry-After": Math.ceil(quotaCheck.usage.timeUntilResetMs / 1000).toString(),
-              "X-RateLimit-Limit": PLAN_LIMITS[planType].creditsPerWindow.toString(),
-              "X-RateLimit-Remaining": "0",
-              "X-RateLimit-Reset": quotaCheck.resetTime.toISOString()
-            }
-          }
-        );
-      }
-    }
-
-    // 5. Get valid OAuth access token
-    const tokenResult = await ensureValidToken(keyValidation.userId);
-    if (!tokenResult.success || !tokenResult.accessToken) {
-      return new Response(
-        JSON.stringify({ error: "OAuth token not found or expired. Please reconnect Claude account." }),
-        { status: 401, headers: { "Content-Type": "application/json" } }
-      );
-    }
-
-    // 6. Prepare request body (if present)
+    // 5. Prepare request body (if present)
     let body = null;
     let requestBody = null;
 
@@ -304,13 +648,47 @@ export async function proxyToClaudeAPIGeneric(request: Request, path: string, me
       }
     }
 
-    // 7. Build headers for Claude API
+    log.model = typeof body?.model === "string" ? body.model : null;
+    log.stream = body?.stream === true;
+
+    // Enforce the plan's allowed models for any request that names one
+    if (typeof body?.model === "string" && !isModelAllowed(body.model, planType)) {
+      return modelNotAllowedResponse(body.model, planType);
+    }
+
+    // Check budgets and reserve quota (for /v1/messages only)
+    let quotaCheck = null;
+    let budgetCheck = null;
+    if (path === '/v1/messages') {
+      budgetCheck = await withSpan("checkBudgets", { "claude_proxy.key_id": keyValidation.keyId }, () =>
+        checkBudgets(keyValidation.keyId, keyValidation.userId)
+      );
+      if (!budgetCheck.allowed) {
+        return budgetExceededResponse(budgetCheck);
+      }
+
+      quotaCheck = await withSpan("checkQuotaLimit", { "claude_proxy.key_id": keyValidation.keyId, "claude_proxy.plan": planType }, () =>
+        reserveQuota(keyValidation.keyId, planType, log.model, estimateRequestTokens(body))
+      );
+      reservationId = quotaCheck.reservationId ?? null;
+
+      if (!quotaCheck.allowed) {
+        if (quotaCheck.exceededWindow) {
+          await emitQuotaExceeded(keyValidation.keyId, quotaCheck.exceededWindow);
+        }
+        return quotaExceededResponse(quotaCheck);
+      }
+      void notifyQuotaThresholds(keyValidation.keyId, quotaCheck.warnings);
+    }
+
+    // 6. Build headers for Claude API (authorization is added per account)
+    const upstream = getUpstreamConfig();
     const claudeHeaders: Record<string, string> = {
-      "authorization": `Bearer ${tokenResult.accessToken}`,
-      "anthropic-version": "2023-06-01",
+      "anthropic-version": upstream.anthropicVersion,
     };
 
-    // Preserve important client headers
+    // Preserve important client headers. Everything else is dropped, including the client's
+    // authorization and x-api-key headers, so proxy keys are never forwarded upstream
     const preserveHeaders = [
       "content-type",
       "anthropic-beta",
@@ -326,25 +704,32 @@ export async function proxyToClaudeAPIGeneric(request: Request, path: string, me
 
     // Add default anthropic-beta if not present
     if (!claudeHeaders["anthropic-beta"]) {
-      claudeHeaders["anthropic-beta"] = "oauth-2025-04-20,claude-code-20250219,interleaved-thinking-2025-05-14,fine-grained-tool-streaming-2025-05-14";
+      claudeHeaders["anthropic-beta"] = upstream.anthropicBeta;
     }
 
-    // 8. Forward to Claude API
-    const claudeUrl = `https://api.anthropic.com${path}`;
+    // 7. Forward to Claude API through the owner's accounts
     console.log(`[Proxy] Forwarding ${method} ${path} to Claude API`);
 
-    const claudeResponse = await fetch(claudeUrl, {
-      method: method,
-      headers: claudeHeaders,
-      body: requestBody,
-    });
+    const forwarded = await forwardWithFailover(keyValidation.userId, keyValidation.keyId, path, (accessToken) =>
+      upstreamFetch("api", path, {
+        method: method,
+        headers: { ...claudeHeaders, "authorization": `Bearer ${accessToken}` },
+        body: requestBody,
+      })
+    );
+    if (!forwarded) {
+      return noUsableAccountResponse(keyValidation.userId);
+    }
+    const { response: claudeResponse, accountId } = forwarded;
+    log.firstByteAt = Date.now();
+    log.upstreamRequestId = claudeResponse.headers.get("request-id");
 
-    // 9. Handle streaming vs non-streaming responses
+    // 8. Handle streaming vs non-streaming responses
     const responseContentType = claudeResponse.headers.get("content-type") || "";
     const isStreaming = responseContentType.includes("text/event-stream") || responseContentType.includes("stream");
 
     if (isStreaming) {
-      // For streaming responses, pipe through directly
+      // For streaming responses, pipe through and record usage from the SSE events
       console.log("[Proxy] Streaming response detected, piping through");
 
       const headers: Record<string, string> = {};
@@ -354,57 +739,56 @@ export async function proxyToClaudeAPIGeneric(request: Request, path: string, me
 
       // Add quota headers for /v1/messages
       if (quotaCheck) {
-        const creditsRemaining = PLAN_LIMITS[planType].creditsPerWindow - quotaCheck.usage.currentCredits;
-        headers["X-RateLimit-Limit"] = PLAN_LIMITS[planType].creditsPerWindow.toString();
-        headers["X-RateLimit-Remaining"] = Math.max(0, creditsRemaining).toString();
-        headers["X-RateLimit-Reset"] = quotaCheck.resetTime.toISOString();
-        headers["X-Quota-Percentage"] = quotaCheck.percentages.creditPercentage.toFixed(2);
+        Object.assign(headers, rateLimitHeaders(quotaCheck));
+      }
+      if (budgetCheck) {
+        Object.assign(headers, budgetWarningHeaders(budgetCheck));
       }
+      Object.assign(headers, quotaWarningHeaders(quotaCheck));
+
+      const tracked = path === '/v1/messages' && claudeResponse.ok && claudeResponse.body !== null;
+      const streamBody = tracked
+        ? withStreamQuotaWarnings(withStreamUsageTracking(claudeResponse.body!, keyValidation.keyId, body?.model, accountId, planType, reservationId), quotaCheck)
+        : claudeResponse.body;
+      releasedByStream = tracked;
 
-      return new Response(claudeResponse.body, {
+      return new Response(streamBody, {
         status: claudeResponse.status,
         headers: headers,
       });
     }
 
-    // 10. For non-streaming responses, parse JSON
+    // 9. For non-streaming responses, parse JSON
     const responseData = await claudeResponse.json();
 
-    // 11. Track usage if response is successful and contains usage data (only for /v1/messages)
+    // 10. Track usage if response is successful and contains usage data (only for /v1/messages)
     if (path === '/v1/messages' && claudeResponse.ok && responseData.usage) {
-      try {
-        await updateKeyUsage(keyValidation.keyId, {
-          model: body?.model || "claude-sonnet-4-20250514",
-          input_tokens: responseData.usage.input_tokens || 0,
-          output_tokens: responseData.usage.output_tokens || 0,
-          cache_creation_input_tokens: responseData.usage.cache_creation_input_tokens || 0,
-          cache_read_input_tokens: responseData.usage.cache_read_input_tokens || 0,
-        });
-      } catch (usageError) {
-        console.error("Failed to update usage:", usageError);
-        // Don't fail the request if usage tracking fails
-      }
+      await recordUsage(keyValidation.keyId, body?.model || DEFAULT_MODEL, responseData.usage, accountId, planType);
     }
 
-    // 12. Return response with quota headers (for /v1/messages)
+    // 11. Return response with quota headers (for /v1/messages)
     const responseHeaders: Record<string, string> = {
+      ...upstreamPassthroughHeaders(claudeResponse),
       "Content-Type": "application/json",
     };
 
     if (quotaCheck) {
-      const creditsRemaining = PLAN_LIMITS[planType].creditsPerWindow - quotaCheck.usage.currentCredits;
-      responseHeaders["X-RateLimit-Limit"] = PLAN_LIMITS[planType].creditsPerWindow.toString();
-      responseHeaders["X-RateLimit-Remaining"] = Math.max(0, creditsRemaining).toString();
-      responseHeaders["X-RateLimit-Reset"] = quotaCheck.resetTime.toISOString();
-      responseHeaders["X-Quota-Percentage"] = quotaCheck.percentages.creditPercentage.toFixed(2);
+      Object.assign(responseHeaders, rateLimitHeaders(quotaCheck));
+    }
+    if (budgetCheck) {
+      Object.assign(responseHeaders, budgetWarningHeaders(budgetCheck));
     }
+    Object.assign(responseHeaders, quotaWarningHeaders(quotaCheck));
 
-    return new Response(JSON.stringify(responseData), {
+    return new Response(JSON.stringify(withQuotaWarnings(responseData, quotaCheck, claudeResponse.ok)), {
       status: claudeResponse.status,
       headers: responseHeaders,
     });
 
   } catch (error) {
+    if (error instanceof UpstreamTimeoutError) {
+      return upstreamTimeoutResponse(error);
+    }
     console.error(`[Proxy Error] ${method} ${path}:`, {
       message: error instanceof Error ? error.message : String(error),
       stack: error instanceof Error ? error.stack : undefined,
@@ -418,5 +802,9 @@ export async function proxyToClaudeAPIGeneric(request: Request, path: string, me
       }),
       { status: 500, headers: { "Content-Type": "application/json" } }
     );
+  } finally {
+    if (reservationId !== null && !releasedByStream) {
+      await releaseReservation(reservationId);
+    }
   }
 }
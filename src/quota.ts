@@ -1,11 +1,32 @@
 /**
  * Quota enforcement module with rolling window calculations
  * Implements credit-based rate limiting with plan-specific limits
- * Supports per-key custom quota percentages
+ * An owner's plan is a pool shared by all of their keys; each key may use its
+ * quota percentage of the pool, and no key may go beyond what is left of it
+ * Proxied requests reserve their estimated cost up front, so concurrent requests
+ * cannot overshoot a window; the reservation is released once real usage is recorded
  */
 
+import type { PoolClient } from "pg";
 import pool from "./db";
-import { PLAN_LIMITS, PlanType, getModelWeight } from "./limits";
+import { PlanType, getPlanLimits, ModelFamily, QuotaWindow, getQuotaWindows, getModelFamily, calculateCreditsUsed } from "./limits";
+import { recordQuotaRejection } from "./metrics";
+
+// A pool or a checked-out client (for queries inside a reservation's transaction)
+type Queryable = Pick<PoolClient, "query">;
+
+// Reservations left behind by a crashed instance stop counting after this long
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
+// Namespace of the per-owner advisory locks taken while reserving
+const RESERVATION_LOCK_NAMESPACE = 727002;
+
+// Usage percentages of a key's windows that warn its owner and assignee, unless the key sets its own
+export const DEFAULT_WARNING_THRESHOLDS = [80, 95];
+
+// Rough prompt size heuristic, and a flat estimate per base64 image or document
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_ATTACHMENT = 1600;
 
 /**
  * Calculate effective limit based on plan limit and quota percentage
@@ -19,6 +40,8 @@ export function calculateEffectiveLimit(planLimit: number, quotaPercentage: numb
 
 export interface WindowUsageStats {
   currentCredits: number;
+  // Estimated credits of requests still in flight
+  reservedCredits: number;
   currentRequests: number;
   currentCost: number;
   oldestRequestTimestamp: number | null;
@@ -41,39 +64,127 @@ export interface UsagePercentages {
   isOverLimit: boolean;
 }
 
+export interface QuotaWindowStatus {
+  name: string;
+  // "key" windows measure one key against its share, "pool" windows all of the owner's keys against the plan
+  scope: "key" | "pool";
+  windowHours: number;
+  modelFamilies: ModelFamily[] | null;
+  planCredits: number;
+  effectiveCredits: number;
+  usage: WindowUsageStats;
+  percentages: UsagePercentages;
+  resetTime: Date;
+}
+
+export interface QuotaWarning {
+  window: string;
+  windowHours: number;
+  percentage: number;
+  // The key's warning thresholds this window has reached, lowest first
+  thresholds: number[];
+}
+
+// The parts of a Messages API request body that count towards its estimated size
+export interface MessagesRequestBody {
+  system?: unknown;
+  messages?: unknown[];
+  tools?: unknown[];
+  max_tokens?: number;
+}
+
 export interface QuotaCheckResult {
   allowed: boolean;
   reason?: string;
+  // Usage of the primary window, or of the exhausted window when not allowed
   usage: WindowUsageStats;
   percentages: UsagePercentages;
   resetTime: Date;
+  windows: QuotaWindowStatus[];
+  pool: QuotaWindowStatus[];
+  exceededWindow?: QuotaWindowStatus;
+  // Set by reserveQuota when credits were reserved for the request
+  reservationId?: number;
+  // Key windows at or past one of the key's warning thresholds (allowed requests only)
+  warnings: QuotaWarning[];
 }
 
 /**
  * Get rolling window usage for an API key
  * @param keyId - API key ID
  * @param windowHours - Window size in hours
+ * @param modelFamilies - Only count usage of these model families (all models if omitted)
  * @returns Usage statistics within the rolling window
  */
-export async function getRollingWindowUsage(keyId: string, windowHours: number): Promise<WindowUsageStats> {
+export async function getRollingWindowUsage(
+  keyId: string,
+  windowHours: number,
+  modelFamilies?: ModelFamily[] | null,
+  db: Queryable = pool
+): Promise<WindowUsageStats> {
+  return getWindowUsage(db, "k.id = $1", keyId, windowHours, modelFamilies);
+}
+
+/**
+ * Get rolling window usage of all of an owner's keys (the shared pool)
+ * @param ownerId - User ID of the key owner
+ * @param windowHours - Window size in hours
+ * @param modelFamilies - Only count usage of these model families (all models if omitted)
+ * @returns Usage statistics within the rolling window
+ */
+export async function getPoolWindowUsage(
+  ownerId: string,
+  windowHours: number,
+  modelFamilies?: ModelFamily[] | null,
+  db: Queryable = pool
+): Promise<WindowUsageStats> {
+  return getWindowUsage(db, "k.user_id = $1", ownerId, windowHours, modelFamilies);
+}
+
+// Usage and live reservations of the keys matching scopeCondition, a fixed filter on k (api_keys)
+async function getWindowUsage(
+  db: Queryable,
+  scopeCondition: string,
+  scopeId: string,
+  windowHours: number,
+  modelFamilies?: ModelFamily[] | null
+): Promise<WindowUsageStats> {
   const now = Date.now();
   const windowStartTime = now - windowHours * 60 * 60 * 1000;
   const windowEndTime = now;
 
   // Query usage within rolling window
-  const result = await pool.query(
+  const result = await db.query(
     `SELECT
-       COALESCE(SUM(credits_used), 0) as total_credits,
-       COALESCE(SUM(cost), 0) as total_cost,
+       COALESCE(SUM(h.credits_used), 0) as total_credits,
+       COALESCE(SUM(h.cost), 0) as total_cost,
        COUNT(*) as total_requests,
-       MIN(timestamp) as oldest_timestamp,
-       model
-     FROM api_key_usage_history
-     WHERE key_id = $1 AND timestamp >= $2
-     GROUP BY model`,
-    [keyId, windowStartTime]
+       MIN(h.timestamp) as oldest_timestamp,
+       h.model
+     FROM api_key_usage_history h
+     JOIN api_keys k ON k.id = h.key_id
+     WHERE ${scopeCondition} AND h.timestamp >= $2
+     GROUP BY h.model`,
+    [scopeId, windowStartTime]
+  );
+
+  const reservations = await db.query(
+    `SELECT COALESCE(SUM(r.credits), 0) as reserved_credits, r.model
+     FROM quota_reservations r
+     JOIN api_keys k ON k.id = r.key_id
+     WHERE ${scopeCondition} AND r.expires_at > $2
+     GROUP BY r.model`,
+    [scopeId, now]
   );
 
+  let reservedCredits = 0;
+  for (const row of reservations.rows) {
+    // Unrecognised models are weighted as Sonnet, so they are counted as Sonnet here too
+    if (!modelFamilies || modelFamilies.includes(getModelFamily(row.model ?? "") ?? "sonnet")) {
+      reservedCredits += Number(row.reserved_credits);
+    }
+  }
+
   let totalCredits = 0;
   let totalCost = 0;
   let totalRequests = 0;
@@ -82,6 +193,11 @@ export async function getRollingWindowUsage(keyId: string, windowHours: number):
 
   // Aggregate across all models
   for (const row of result.rows) {
+    const modelType = getModelFamily(row.model ?? "") ?? "sonnet";
+    if (modelFamilies && !modelFamilies.includes(modelType)) {
+      continue;
+    }
+
     totalCredits += Number(row.total_credits);
     totalCost += Number(row.total_cost);
     totalRequests += Number(row.total_requests);
@@ -94,13 +210,6 @@ export async function getRollingWindowUsage(keyId: string, windowHours: number):
       }
     }
 
-    // Extract model type from full model name
-    const modelName = row.model?.toLowerCase() || "unknown";
-    let modelType = "sonnet"; // default
-    if (modelName.includes("opus")) modelType = "opus";
-    else if (modelName.includes("haiku")) modelType = "haiku";
-    else if (modelName.includes("sonnet")) modelType = "sonnet";
-
     modelBreakdown.push({
       model: modelType,
       requests: Number(row.total_requests),
@@ -121,6 +230,7 @@ export async function getRollingWindowUsage(keyId: string, windowHours: number):
 
   return {
     currentCredits: totalCredits,
+    reservedCredits,
     currentRequests: totalRequests,
     currentCost: totalCost,
     oldestRequestTimestamp: oldestTimestamp,
@@ -139,7 +249,7 @@ export async function getRollingWindowUsage(keyId: string, windowHours: number):
  * @returns Usage percentages and over-limit status
  */
 export function calculateUsagePercentage(usage: WindowUsageStats, planType: PlanType): UsagePercentages {
-  const limits = PLAN_LIMITS[planType];
+  const limits = getPlanLimits(planType);
 
   const creditPercentage = (usage.currentCredits / limits.creditsPerWindow) * 100;
   const isOverLimit = creditPercentage >= 100;
@@ -150,57 +260,269 @@ export function calculateUsagePercentage(usage: WindowUsageStats, planType: Plan
   };
 }
 
+function buildWindowStatus(
+  window: QuotaWindow,
+  scope: QuotaWindowStatus["scope"],
+  effectiveCredits: number,
+  usage: WindowUsageStats
+): QuotaWindowStatus {
+  // Credits reserved by requests in flight are as good as spent
+  const creditPercentage = ((usage.currentCredits + usage.reservedCredits) / effectiveCredits) * 100;
+
+  return {
+    name: window.name,
+    scope,
+    windowHours: window.windowHours,
+    modelFamilies: window.modelFamilies ?? null,
+    planCredits: window.credits,
+    effectiveCredits,
+    usage,
+    percentages: {
+      creditPercentage: Math.round(creditPercentage),
+      isOverLimit: creditPercentage >= 100,
+    },
+    resetTime: getNextResetTime(usage.oldestRequestTimestamp, window.windowHours),
+  };
+}
+
+/**
+ * Get usage of every quota window of a plan for an API key
+ * @param keyId - API key ID
+ * @param planType - Plan type
+ * @param quotaPercentage - Share of each pool window the key may use (1-100)
+ * @returns One status per window, primary window first
+ */
+export async function getQuotaWindowStatuses(
+  keyId: string,
+  planType: PlanType,
+  quotaPercentage: number,
+  db: Queryable = pool
+): Promise<QuotaWindowStatus[]> {
+  return Promise.all(
+    getQuotaWindows(planType).map(async (window) => {
+      const usage = await getRollingWindowUsage(keyId, window.windowHours, window.modelFamilies, db);
+      return buildWindowStatus(window, "key", calculateEffectiveLimit(window.credits, quotaPercentage), usage);
+    })
+  );
+}
+
+/**
+ * Get usage of every quota window of a plan across all of an owner's keys
+ * @param ownerId - User ID of the key owner
+ * @param planType - Owner's plan type
+ * @returns One status per window, primary window first
+ */
+export async function getPoolWindowStatuses(
+  ownerId: string,
+  planType: PlanType,
+  db: Queryable = pool
+): Promise<QuotaWindowStatus[]> {
+  return Promise.all(
+    getQuotaWindows(planType).map(async (window) => {
+      const usage = await getPoolWindowUsage(ownerId, window.windowHours, window.modelFamilies, db);
+      return buildWindowStatus(window, "pool", window.credits, usage);
+    })
+  );
+}
+
 /**
  * Check if an API key has exceeded its quota
+ * Every window of the plan is enforced, both against the key's share and against
+ * the owner's pool. Model-specific windows (e.g. the weekly Opus cap) only block
+ * requests for those models.
  * @param keyId - API key ID
  * @param planType - Plan type
+ * @param model - Model named in the request, if any
  * @returns Quota check result with usage stats and decision
  */
-export async function checkQuotaLimit(keyId: string, planType: PlanType): Promise<QuotaCheckResult> {
-  const limits = PLAN_LIMITS[planType];
+export async function checkQuotaLimit(keyId: string, planType: PlanType, model?: string | null): Promise<QuotaCheckResult> {
+  const key = await getKeyQuotaSettings(pool, keyId);
+  return evaluateQuota(pool, keyId, key, planType, model ?? null, 0);
+}
 
-  // Get quota_percentage from api_keys table
-  const keyResult = await pool.query(
-    "SELECT quota_percentage FROM api_keys WHERE id = $1",
-    [keyId]
-  );
-  const quotaPercentage = keyResult.rows[0]?.quota_percentage ?? 100;
+/**
+ * Check quota for a request and reserve its estimated cost
+ * The check and the reservation run under a per-owner lock, so concurrent requests
+ * see each other's reservations. A request is rejected when a window it counts
+ * against has less room left than its estimate; an estimate larger than a whole
+ * window is capped at that window, so such a request can still run on a fresh window.
+ * @param keyId - API key ID
+ * @param planType - Plan type
+ * @param model - Model named in the request, if any
+ * @param estimatedTokens - Upper bound of the request's tokens (see estimateRequestTokens)
+ * @returns Quota check result; reservationId is set when credits were reserved
+ */
+export async function reserveQuota(
+  keyId: string,
+  planType: PlanType,
+  model: string | null,
+  estimatedTokens: number
+): Promise<QuotaCheckResult> {
+  const estimatedCredits = calculateCreditsUsed(model || "sonnet", estimatedTokens);
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const key = await getKeyQuotaSettings(client, keyId);
+    if (key.ownerId) {
+      await client.query("SELECT pg_advisory_xact_lock($1, hashtext($2))", [RESERVATION_LOCK_NAMESPACE, key.ownerId]);
+    }
 
-  // Calculate effective limit based on quota percentage
-  const effectiveCreditsLimit = calculateEffectiveLimit(limits.creditsPerWindow, quotaPercentage);
+    const result = await evaluateQuota(client, keyId, key, planType, model, estimatedCredits);
 
-  const usage = await getRollingWindowUsage(keyId, limits.windowHours);
+    if (result.allowed && estimatedCredits > 0) {
+      const now = Date.now();
+      const reservation = await client.query(
+        `INSERT INTO quota_reservations (key_id, model, credits, created_at, expires_at)
+         VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+        [keyId, model, estimatedCredits, now, now + RESERVATION_TTL_MS]
+      );
+      result.reservationId = reservation.rows[0].id;
+    }
 
-  // Calculate percentages based on effective limit (not plan limit)
-  const creditPercentage = (usage.currentCredits / effectiveCreditsLimit) * 100;
-  const isOverLimit = creditPercentage >= 100;
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
 
-  const percentages = {
-    creditPercentage: Math.round(creditPercentage),
-    isOverLimit
-  };
+/**
+ * Release a reservation once the request's real usage has been recorded (or it failed)
+ * Failures are logged and swallowed; an unreleased reservation expires on its own.
+ */
+export async function releaseReservation(reservationId: number): Promise<void> {
+  try {
+    await pool.query(
+      "DELETE FROM quota_reservations WHERE id = $1 OR expires_at <= $2",
+      [reservationId, Date.now()]
+    );
+  } catch (error) {
+    console.error("[Quota] Failed to release reservation:", error);
+  }
+}
 
-  const resetTime = getNextResetTime(usage.oldestRequestTimestamp, limits.windowHours);
+/**
+ * Estimate the most tokens a Messages request can use: its prompt plus max_tokens
+ * The prompt is sized from its JSON at about four characters per token, with a flat
+ * estimate for each base64 image or document so attachments don't count by byte.
+ * @param body - Messages API request body
+ * @returns Estimated input tokens plus max_tokens
+ */
+export function estimateRequestTokens(body: MessagesRequestBody | null): number {
+  let attachments = 0;
+  const prompt = JSON.stringify([body?.system ?? null, body?.messages ?? [], body?.tools ?? null], (key, value) => {
+    if (key === "source" && value?.type === "base64") {
+      attachments++;
+      return undefined;
+    }
+    return value;
+  });
 
-  if (percentages.isOverLimit) {
-    const limitDescription = quotaPercentage < 100
-      ? `${quotaPercentage}% of ${planType} plan limit`
-      : `${planType} plan limit`;
+  const inputTokens = Math.ceil(prompt.length / CHARS_PER_TOKEN) + attachments * TOKENS_PER_ATTACHMENT;
+  const maxTokens = typeof body?.max_tokens === "number" && body.max_tokens > 0 ? body.max_tokens : 0;
+  return inputTokens + maxTokens;
+}
+
+interface KeyQuotaSettings {
+  ownerId: string | null;
+  quotaPercentage: number;
+  warningThresholds: number[];
+}
+
+async function getKeyQuotaSettings(db: Queryable, keyId: string): Promise<KeyQuotaSettings> {
+  // Get quota_percentage, warning thresholds and owner from api_keys table
+  const keyResult = await db.query(
+    "SELECT user_id, quota_percentage, warning_thresholds FROM api_keys WHERE id = $1",
+    [keyId]
+  );
+  return {
+    ownerId: keyResult.rows[0]?.user_id ?? null,
+    quotaPercentage: keyResult.rows[0]?.quota_percentage ?? 100,
+    warningThresholds: keyResult.rows[0]?.warning_thresholds ?? DEFAULT_WARNING_THRESHOLDS,
+  };
+}
+
+async function evaluateQuota(
+  db: Queryable,
+  keyId: string,
+  key: KeyQuotaSettings,
+  planType: PlanType,
+  model: string | null,
+  estimatedCredits: number
+): Promise<QuotaCheckResult> {
+  const { ownerId, quotaPercentage } = key;
+
+  const [windows, poolWindows] = await Promise.all([
+    getQuotaWindowStatuses(keyId, planType, quotaPercentage, db),
+    ownerId ? getPoolWindowStatuses(ownerId, planType, db) : Promise.resolve([]),
+  ]);
+  const [primary] = windows;
+
+  // Unrecognised models are weighted as Sonnet, so they are counted as Sonnet here too
+  const family = model ? getModelFamily(model) ?? "sonnet" : null;
+  const lacksRoom = (window: QuotaWindowStatus) => {
+    const spent = window.usage.currentCredits + window.usage.reservedCredits;
+    return window.percentages.isOverLimit ||
+      spent + Math.min(estimatedCredits, window.effectiveCredits) > window.effectiveCredits;
+  };
+  const appliesToRequest = (window: QuotaWindowStatus) =>
+    !window.modelFamilies || (family !== null && window.modelFamilies.includes(family));
+  const exhausted = [...windows, ...poolWindows].filter((window) => lacksRoom(window) && appliesToRequest(window));
+
+  if (exhausted.length > 0) {
+    // The request can only go through once every exhausted window has reset
+    const exceededWindow = exhausted.reduce((latest, window) =>
+      window.resetTime > latest.resetTime ? window : latest
+    );
+    recordQuotaRejection(planType);
+
+    const windowDescription = exceededWindow.name === primary.name ? "" : ` ${exceededWindow.name}`;
+    const limitDescription = exceededWindow.scope === "pool"
+      ? `the owner's shared ${planType} plan${windowDescription} limit`
+      : quotaPercentage < 100
+        ? `${quotaPercentage}% of ${planType} plan${windowDescription} limit`
+        : `${planType} plan${windowDescription} limit`;
+    const estimateDescription = exceededWindow.percentages.isOverLimit
+      ? ""
+      : ` and this request may need up to ${estimatedCredits} credits`;
 
     return {
       allowed: false,
-      reason: `Quota exceeded: ${percentages.creditPercentage}% of ${limitDescription} used. Resets ${formatDuration(usage.timeUntilResetMs)} from now.`,
-      usage,
-      percentages,
-      resetTime
+      reason: `Quota exceeded: ${exceededWindow.percentages.creditPercentage}% of ${limitDescription} used${estimateDescription}. Resets ${formatDuration(exceededWindow.usage.timeUntilResetMs)} from now.`,
+      usage: exceededWindow.usage,
+      percentages: exceededWindow.percentages,
+      resetTime: exceededWindow.resetTime,
+      windows,
+      pool: poolWindows,
+      exceededWindow,
+      warnings: [],
     };
   }
 
+  const warnings: QuotaWarning[] = [];
+  for (const window of windows.filter(appliesToRequest)) {
+    const thresholds = key.warningThresholds.filter((threshold) => window.percentages.creditPercentage >= threshold);
+    if (thresholds.length > 0) {
+      warnings.push({
+        window: window.name,
+        windowHours: window.windowHours,
+        percentage: window.percentages.creditPercentage,
+        thresholds,
+      });
+    }
+  }
+
   return {
     allowed: true,
-    usage,
-    percentages,
-    resetTime
+    usage: primary.usage,
+    percentages: primary.percentages,
+    resetTime: primary.resetTime,
+    windows,
+    pool: poolWindows,
+    warnings,
   };
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Upstream retry module
+ * Retries transient Anthropic errors (429, 529 overloaded, 5xx) with jittered
+ * exponential backoff, honouring retry-after and a total time budget.
+ * Only whole responses are retried: once a response is handed to the client,
+ * including the first byte of a stream, it is never replayed.
+ */
+
+import pool from "./db";
+import { getUpstreamConfig, UpstreamTimeoutError } from "./upstream";
+import { recordUpstreamMetrics } from "./metrics";
+
+export type AttemptOutcome = "success" | "retried" | "failed" | "error";
+
+export interface UpstreamAttempt {
+  attempt: number;
+  status: number | null;
+  outcome: AttemptOutcome;
+  error: string | null;
+  durationMs: number;
+  retryDelayMs: number | null;
+}
+
+export interface RetryOptions {
+  // Statuses that may be retried for this call (defaults to RETRYABLE_STATUSES)
+  retryableStatuses?: number[];
+  // Called after every attempt, e.g. to record it
+  onAttempt?: (attempt: UpstreamAttempt) => Promise<void> | void;
+}
+
+export const RETRYABLE_STATUSES = [429, 500, 502, 503, 504, 529];
+
+/**
+ * Parse a retry-after header (seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+/**
+ * Delay before the next attempt
+ * Uses retry-after when the upstream sent one, otherwise "full jitter" exponential
+ * backoff: a random delay up to base * 2^(attempt - 1), capped at the max delay.
+ * @param attempt - The attempt that just failed (1-based)
+ */
+export function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  const hinted = parseRetryAfter(retryAfter);
+  if (hinted !== null) {
+    return hinted;
+  }
+
+  const { retryBaseDelayMs, retryMaxDelayMs } = getUpstreamConfig();
+  const ceiling = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Call the upstream, retrying transient failures
+ * Stops when attempts run out or the next wait would exceed the retry budget;
+ * the last response is then returned as-is. Timeouts are not retried, since
+ * each one has already used a full upstream timeout.
+ * @param send - Performs one upstream fetch
+ */
+export async function withRetry(send: () => Promise<Response>, options: RetryOptions = {}): Promise<Response> {
+  const { retryMaxAttempts, retryBudgetMs } = getUpstreamConfig();
+  const retryableStatuses = options.retryableStatuses ?? RETRYABLE_STATUSES;
+  const deadline = Date.now() + retryBudgetMs;
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    const canRetry = attempt < Math.max(1, retryMaxAttempts);
+
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const delay = getRetryDelay(attempt, null);
+      const retry = canRetry && !(error instanceof UpstreamTimeoutError) && Date.now() + delay <= deadline;
+
+      await options.onAttempt?.({
+        attempt,
+        status: null,
+        outcome: retry ? "retried" : "error",
+        error: message,
+        durationMs: Date.now() - startedAt,
+        retryDelayMs: retry ? delay : null,
+      });
+      if (!retry) throw error;
+
+      console.warn(`[Retry] Upstream request failed (${message}), retrying in ${delay}ms (attempt ${attempt})`);
+      await sleep(delay);
+      continue;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const errorType = response.ok
+      ? null
+      : await response.clone().json().then((b) => b?.error?.type ?? null).catch(() => null);
+
+    if (!retryableStatuses.includes(response.status)) {
+      await options.onAttempt?.({
+        attempt,
+        status: response.status,
+        outcome: response.ok ? "success" : "failed",
+        error: errorType,
+        durationMs,
+        retryDelayMs: null,
+      });
+      return response;
+    }
+
+    const delay = getRetryDelay(attempt, response.headers.get("retry-after"));
+    const retry = canRetry && Date.now() + delay <= deadline;
+
+    await options.onAttempt?.({
+      attempt,
+      status: response.status,
+      outcome: retry ? "retried" : "failed",
+      error: errorType,
+      durationMs,
+      retryDelayMs: retry ? delay : null,
+    });
+    if (!retry) return response;
+
+    console.warn(`[Retry] Upstream returned ${response.status}, retrying in ${delay}ms (attempt ${attempt})`);
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Record one upstream attempt for metrics
+ * Failures are logged and swallowed so they never fail the proxied request.
+ */
+export async function recordUpstreamAttempt(
+  keyId: string,
+  accountId: string | null,
+  path: string,
+  attempt: UpstreamAttempt
+): Promise<void> {
+  // Without a status the error is a connection failure or timeout message, not a bounded type
+  recordUpstreamMetrics(attempt.outcome, attempt.status, attempt.status === null ? "connection_error" : attempt.error);
+
+  try {
+    await pool.query(
+      `INSERT INTO upstream_attempts
+       (key_id, account_id, path, attempt, status, outcome, error, duration_ms, retry_delay_ms, timestamp)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [keyId, accountId, path, attempt.attempt, attempt.status, attempt.outcome, attempt.error,
+       attempt.durationMs, attempt.retryDelayMs, Date.now()]
+    );
+  } catch (error) {
+    console.error("[Retry] Failed to record upstream attempt:", error);
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Streaming module for Server-Sent Events passthrough
+ * Tees Claude SSE responses so token usage can be recorded without buffering the stream
+ */
+
+export interface StreamUsage {
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+export interface SSEEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Incremental SSE parser - feed it raw text chunks, get back complete events
+ * Events may be split across chunks at any byte; partial events are buffered
+ */
+export class SSEParser {
+  private buffer = "";
+
+  push(chunk: string): SSEEvent[] {
+    this.buffer += chunk.replace(/\r\n?/g, "\n");
+    const events: SSEEvent[] = [];
+
+    let boundary = this.buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary);
+      this.buffer = this.buffer.slice(boundary + 2);
+
+      const event = parseEventBlock(block);
+      if (event) {
+        events.push(event);
+      }
+
+      boundary = this.buffer.indexOf("\n\n");
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush a trailing event that was not terminated by a blank line
+   */
+  end(): SSEEvent[] {
+    const block = this.buffer;
+    this.buffer = "";
+    const event = parseEventBlock(block);
+    return event ? [event] : [];
+  }
+}
+
+function parseEventBlock(block: string): SSEEvent | null {
+  let event: string | null = null;
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: dataLines.join("\n") };
+}
+
+/**
+ * Accumulates usage from Claude streaming events
+ * - message_start carries input and cache tokens (and an initial output count)
+ * - message_delta carries the cumulative output tokens (and may restate input tokens)
+ */
+export class StreamUsageAccumulator {
+  private usage: StreamUsage = {
+    model: null,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+  };
+  private seenUsage = false;
+
+  handle(event: SSEEvent): void {
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (!payload || typeof payload !== "object") {
+      return;
+    }
+
+    if (payload.type === "message_start" && payload.message) {
+      if (payload.message.model) {
+        this.usage.model = payload.message.model;
+      }
+      this.apply(payload.message.usage);
+    } else if (payload.type === "message_delta") {
+      this.apply(payload.usage);
+    }
+  }
+
+  private apply(usage: any): void {
+    if (!usage || typeof usage !== "object") {
+      return;
+    }
+
+    this.seenUsage = true;
+
+    // Counts are cumulative, so later events replace earlier values
+    if (typeof usage.input_tokens === "number") {
+      this.usage.input_tokens = usage.input_tokens;
+    }
+    if (typeof usage.output_tokens === "number") {
+      this.usage.output_tokens = usage.output_tokens;
+    }
+    if (typeof usage.cache_creation_input_tokens === "number") {
+      this.usage.cache_creation_input_tokens = usage.cache_creation_input_tokens;
+    }
+    if (typeof usage.cache_read_input_tokens === "number") {
+      this.usage.cache_read_input_tokens = usage.cache_read_input_tokens;
+    }
+  }
+
+  result(): StreamUsage | null {
+    return this.seenUsage ? { ...this.usage } : null;
+  }
+}
+
+/**
+ * Wrap an SSE response body so usage is extracted as bytes pass through
+ * @param body - Upstream response body
+ * @param onComplete - Called exactly once when the stream ends, errors or is cancelled by the client
+ * @returns A stream that yields the upstream bytes unchanged
+ */
+export function trackStreamUsage(
+  body: ReadableStream<Uint8Array>,
+  onComplete: (usage: StreamUsage | null) => void | Promise<void>
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  const accumulator = new StreamUsageAccumulator();
+  let completed = false;
+
+  const complete = async () => {
+    if (completed) return;
+    completed = true;
+
+    for (const event of parser.push(decoder.decode())) {
+      accumulator.handle(event);
+    }
+    for (const event of parser.end()) {
+      accumulator.handle(event);
+    }
+
+    try {
+      await onComplete(accumulator.result());
+    } catch (error) {
+      console.error("[Stream] Usage completion handler failed:", error);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          await complete();
+          controller.close();
+          return;
+        }
+
+        for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+          accumulator.handle(event);
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        await complete();
+        controller.error(error);
+      }
+    },
+
+    // Client disconnected mid-stream: stop reading upstream and record what we saw
+    async cancel(reason) {
+      try {
+        await reader.cancel(reason);
+      } catch {
+        // Upstream may already be closed
+      }
+      await complete();
+    },
+  });
+}
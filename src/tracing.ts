@@ -0,0 +1,112 @@
+/**
+ * Tracing module
+ * OpenTelemetry spans around the steps of a proxied request (key validation, quota,
+ * token refresh, the upstream call, usage recording), exported over OTLP/HTTP.
+ * Tracing is off unless OTEL_EXPORTER_OTLP_ENDPOINT or OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+ * is set; without a provider every span below is a no-op.
+ */
+
+import { trace, context, propagation, SpanKind, SpanStatusCode, type Span, type Attributes } from "@opentelemetry/api";
+import { BasicTracerProvider, BatchSpanProcessor, SimpleSpanProcessor, type SpanExporter } from "@opentelemetry/sdk-trace-base";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+
+const tracer = trace.getTracer("claude-proxy-service");
+
+let provider: BasicTracerProvider | null = null;
+
+/**
+ * Start exporting traces
+ * @param exporter - Export spans here instead of OTLP (tests); spans are then exported synchronously
+ * @returns Whether tracing was enabled
+ */
+export function initTracing(exporter?: SpanExporter): boolean {
+  if (provider) return true;
+
+  const env = process.env;
+  if (!exporter && !env.OTEL_EXPORTER_OTLP_ENDPOINT && !env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) {
+    return false;
+  }
+
+  // The OTLP exporter reads its endpoint and headers from the standard OTEL_* variables
+  provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: env.OTEL_SERVICE_NAME || "claude-proxy-service" }),
+    spanProcessors: [exporter ? new SimpleSpanProcessor(exporter) : new BatchSpanProcessor(new OTLPTraceExporter())],
+  });
+
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+
+  console.log("[Tracing] OpenTelemetry tracing enabled");
+  return true;
+}
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) return;
+  await provider.shutdown();
+  provider = null;
+}
+
+/**
+ * Run a function inside a child span of the current span
+ * The span records a thrown error and always ends when the function settles.
+ */
+export async function withSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Start the server span of a proxied request, continuing the client's W3C traceparent
+ * The caller ends the span with finishServerSpan once the response is complete,
+ * which for streams is after the last byte.
+ * @returns The span and a function that runs code with the span as the active context
+ */
+export function startServerSpan(headers: Headers, name: string, attributes: Attributes) {
+  const parent = propagation.extract(context.active(), headers, {
+    keys: (carrier) => [...carrier.keys()],
+    get: (carrier, key) => carrier.get(key) ?? undefined,
+  });
+  const span = tracer.startSpan(name, { kind: SpanKind.SERVER, attributes }, parent);
+  const active = trace.setSpan(parent, span);
+
+  return {
+    span,
+    run: <T>(fn: () => T): T => context.with(active, fn),
+  };
+}
+
+/**
+ * End a server span with the response status
+ */
+export function finishServerSpan(span: Span, status: number, attributes: Attributes): void {
+  span.setAttributes({ ...attributes, "http.response.status_code": status });
+  if (status >= 500) {
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+  span.end();
+}
+
+/**
+ * Bind a callback to the current context, so work done later (e.g. when a stream
+ * finishes) is still recorded under the request's span
+ */
+export function bindToCurrentContext<T extends (...args: any[]) => any>(fn: T): T {
+  return context.bind(context.active(), fn);
+}
@@ -0,0 +1,132 @@
+/**
+ * Upstream configuration module
+ * Every outbound call to Anthropic goes through here, so the API and OAuth hosts,
+ * timeouts and default headers can be changed in one place (egress gateways,
+ * regional endpoints, or a local fake server in tests).
+ */
+
+import { withSpan } from "./tracing";
+
+export type UpstreamService = "api" | "oauth";
+
+export interface UpstreamConfig {
+  apiBaseUrl: string;
+  oauthBaseUrl: string;
+  authorizeUrl: string;
+  redirectUri: string;
+  apiTimeoutMs: number;
+  oauthTimeoutMs: number;
+  anthropicVersion: string;
+  anthropicBeta: string;
+  defaultHeaders: Record<string, string>;
+  // Retries of transient API errors (429, 529, 5xx)
+  retryMaxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  retryBudgetMs: number;
+}
+
+export class UpstreamTimeoutError extends Error {
+  constructor(service: UpstreamService, timeoutMs: number) {
+    super(`Upstream ${service} request timed out after ${timeoutMs}ms`);
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+// Overrides applied on top of the environment (used by tests)
+let overrides: Partial<UpstreamConfig> = {};
+
+function parseHeaders(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    console.error("[Upstream] UPSTREAM_DEFAULT_HEADERS must be a JSON object; ignoring it");
+    return {};
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * Get the current upstream configuration
+ * Read from the environment on every call so changes apply without a restart of the module.
+ */
+export function getUpstreamConfig(): UpstreamConfig {
+  const env = process.env;
+  const config: UpstreamConfig = {
+    apiBaseUrl: env.ANTHROPIC_API_BASE_URL || "https://api.anthropic.com",
+    oauthBaseUrl: env.ANTHROPIC_OAUTH_BASE_URL || "https://console.anthropic.com",
+    authorizeUrl: env.CLAUDE_AUTHORIZE_URL || "https://claude.ai/oauth/authorize",
+    redirectUri: env.CLAUDE_REDIRECT_URI || "https://platform.claude.com/oauth/code/callback",
+    // Time allowed until response headers arrive; streamed bodies are not cut off
+    apiTimeoutMs: Number(env.UPSTREAM_API_TIMEOUT_MS || 10 * 60 * 1000),
+    oauthTimeoutMs: Number(env.UPSTREAM_OAUTH_TIMEOUT_MS || 15 * 1000),
+    anthropicVersion: env.ANTHROPIC_VERSION || "2023-06-01",
+    anthropicBeta: env.ANTHROPIC_BETA || "oauth-2025-04-20,claude-code-20250219,interleaved-thinking-2025-05-14,fine-grained-tool-streaming-2025-05-14",
+    defaultHeaders: parseHeaders(env.UPSTREAM_DEFAULT_HEADERS),
+    // Attempts include the first call; the budget caps time spent across all of them
+    retryMaxAttempts: Number(env.UPSTREAM_RETRY_MAX_ATTEMPTS || 3),
+    retryBaseDelayMs: Number(env.UPSTREAM_RETRY_BASE_DELAY_MS || 500),
+    retryMaxDelayMs: Number(env.UPSTREAM_RETRY_MAX_DELAY_MS || 8000),
+    retryBudgetMs: Number(env.UPSTREAM_RETRY_BUDGET_MS || 30 * 1000),
+    ...overrides,
+  };
+
+  return {
+    ...config,
+    apiBaseUrl: trimSlash(config.apiBaseUrl),
+    oauthBaseUrl: trimSlash(config.oauthBaseUrl),
+  };
+}
+
+/**
+ * Override parts of the upstream configuration (e.g. point tests at a fake server)
+ * Call with no arguments to go back to the environment.
+ */
+export function configureUpstream(config: Partial<UpstreamConfig> = {}): void {
+  overrides = config;
+}
+
+/**
+ * Fetch from the Anthropic API or OAuth server
+ * @param service - Which upstream the path belongs to
+ * @param path - Path starting with "/", e.g. "/v1/messages"
+ * @param init - Fetch options; headers override the configured default headers
+ * @throws UpstreamTimeoutError if no response arrives within the service's timeout
+ */
+export async function upstreamFetch(
+  service: UpstreamService,
+  path: string,
+  init: Omit<RequestInit, "headers"> & { headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const config = getUpstreamConfig();
+  const baseUrl = service === "api" ? config.apiBaseUrl : config.oauthBaseUrl;
+  const timeoutMs = service === "api" ? config.apiTimeoutMs : config.oauthTimeoutMs;
+
+  const method = init.method || "GET";
+  return withSpan(`upstream ${method} ${path}`, { "claude_proxy.upstream": service, "http.request.method": method, "url.full": `${baseUrl}${path}` }, async (span) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { ...config.defaultHeaders, ...init.headers },
+        signal: controller.signal,
+      });
+      span.setAttribute("http.response.status_code", response.status);
+      return response;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new UpstreamTimeoutError(service, timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+}
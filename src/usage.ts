@@ -20,6 +20,8 @@ export interface UsageUpdate {
   output_tokens: number;
   cache_creation_input_tokens?: number;
   cache_read_input_tokens?: number;
+  // Claude account that served the request, for per-account usage
+  account_id?: string;
 }
 
 // Initialize usage tracking for a new API key
@@ -64,8 +66,8 @@ export async function updateKeyUsage(keyId: string, usage: UsageUpdate): Promise
       `INSERT INTO api_key_usage_history
        (key_id, timestamp, model, input_tokens, output_tokens,
         cache_creation_tokens, cache_read_tokens, total_tokens,
-        cost, credits_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        cost, credits_used, account_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
       [
         keyId,
         timestampMs,
@@ -76,7 +78,8 @@ export async function updateKeyUsage(keyId: string, usage: UsageUpdate): Promise
         cacheRead,
         totalTokens,
         totalCost,
-        creditsUsed
+        creditsUsed,
+        usage.account_id ?? null
       ]
     );
 
@@ -0,0 +1,356 @@
+/**
+ * Webhook endpoints module
+ * Owners register HTTP endpoints to hear about events in the proxy (keys created
+ * or deleted, accepted invitations, exhausted quotas, Claude account problems).
+ * Each delivery goes through the outbox: it is signed with the endpoint's secret,
+ * retried with exponential backoff and kept as the endpoint's delivery log, from
+ * which any delivery can be replayed.
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import pool from "./db";
+import { enqueueDelivery } from "./outbox";
+import { checkWebhookUrl } from "./channels";
+import type { QuotaWindowStatus } from "./quota";
+
+export const WEBHOOK_EVENTS = [
+  "key.created",
+  "key.deleted",
+  "invitation.accepted",
+  "quota.exceeded",
+  "oauth.disconnected",
+  "oauth.revoked",
+  "oauth.refresh_failed",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+const MAX_ENDPOINTS_PER_USER = 10;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  // Events sent to the endpoint; empty means every event
+  events: WebhookEvent[];
+  description: string | null;
+  isActive: boolean;
+  createdAt: number;
+}
+
+export interface WebhookEndpointInput {
+  url?: string;
+  events?: string[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  event: string;
+  status: "pending" | "sending" | "sent" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  replayOf: number | null;
+  payload: { subject: string; text: string; data: Record<string, unknown> };
+  createdAt: number;
+  sentAt: number | null;
+  nextAttemptAt: number | null;
+}
+
+function toEndpoint(row: any): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    events: row.events,
+    description: row.description,
+    isActive: row.is_active,
+    createdAt: Number(row.created_at),
+  };
+}
+
+/**
+ * Validate an endpoint sent by an owner
+ * @param partial - Allow url to be missing (updates)
+ * @returns An error message, or null if the endpoint is valid
+ */
+export function validateWebhookEndpoint(input: any, partial = false): string | null {
+  if (!input || typeof input !== "object") {
+    return "Webhook endpoint must be an object";
+  }
+  if (input.url !== undefined || !partial) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      return "url must be a valid URL";
+    }
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return "url must use http or https";
+    }
+    const urlError = checkWebhookUrl(input.url);
+    if (urlError) {
+      return urlError;
+    }
+  }
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events)) {
+      return "events must be an array";
+    }
+    const unknown = input.events.filter((event: unknown) => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(", ")}. Available events: ${WEBHOOK_EVENTS.join(", ")}`;
+    }
+  }
+  if (input.description !== undefined && input.description !== null && typeof input.description !== "string") {
+    return "description must be a string";
+  }
+  if (input.isActive !== undefined && typeof input.isActive !== "boolean") {
+    return "isActive must be a boolean";
+  }
+  return null;
+}
+
+/**
+ * Register a webhook endpoint for an owner
+ * @returns The endpoint and its signing secret (only ever returned here)
+ */
+export async function createWebhookEndpoint(
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<{ success: boolean; endpoint?: WebhookEndpoint; secret?: string; error?: string }> {
+  const error = validateWebhookEndpoint(input);
+  if (error) {
+    return { success: false, error };
+  }
+
+  try {
+    const count = await pool.query("SELECT COUNT(*) AS count FROM webhook_endpoints WHERE user_id = $1", [userId]);
+    if (Number(count.rows[0].count) >= MAX_ENDPOINTS_PER_USER) {
+      return { success: false, error: `At most ${MAX_ENDPOINTS_PER_USER} webhook endpoints are allowed` };
+    }
+
+    const secret = `whsec_${randomBytes(24).toString("hex")}`;
+    const result = await pool.query(
+      `INSERT INTO webhook_endpoints (id, user_id, url, secret, events, description, is_active, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [randomUUID(), userId, input.url, secret, JSON.stringify([...new Set(input.events ?? [])]),
+       input.description ?? null, input.isActive ?? true, Date.now()]
+    );
+    return { success: true, endpoint: toEndpoint(result.rows[0]), secret };
+  } catch (error) {
+    console.error("[Webhooks] Create endpoint error:", error);
+    return { success: false, error: "Failed to create webhook endpoint" };
+  }
+}
+
+/**
+ * List an owner's webhook endpoints, oldest first
+ */
+export async function listWebhookEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+  const result = await pool.query(
+    "SELECT * FROM webhook_endpoints WHERE user_id = $1 ORDER BY created_at, id",
+    [userId]
+  );
+  return result.rows.map(toEndpoint);
+}
+
+/**
+ * Change an endpoint's URL, events, description or active state (owner only)
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  userId: string,
+  input: WebhookEndpointInput
+): Promise<{ success: boolean; endpoint?: WebhookEndpoint; error?: string }> {
+  const error = validateWebhookEndpoint(input, true);
+  if (error) {
+    return { success: false, error };
+  }
+
+  try {
+    const result = await pool.query(
+      `UPDATE webhook_endpoints SET
+         url = COALESCE($3, url),
+         events = COALESCE($4, events),
+         description = CASE WHEN $5 THEN $6 ELSE description END,
+         is_active = COALESCE($7, is_active)
+       WHERE id = $1 AND user_id = $2
+       RETURNING *`,
+      [endpointId, userId, input.url ?? null,
+       input.events ? JSON.stringify([...new Set(input.events)]) : null,
+       input.description !== undefined, input.description ?? null, input.isActive ?? null]
+    );
+    if (result.rows.length === 0) {
+      return { success: false, error: "Webhook endpoint not found" };
+    }
+    return { success: true, endpoint: toEndpoint(result.rows[0]) };
+  } catch (error) {
+    console.error("[Webhooks] Update endpoint error:", error);
+    return { success: false, error: "Failed to update webhook endpoint" };
+  }
+}
+
+/**
+ * Delete an endpoint and its delivery log (owner only)
+ * @returns false if the owner has no such endpoint
+ */
+export async function deleteWebhookEndpoint(endpointId: string, userId: string): Promise<boolean> {
+  const result = await pool.query(
+    "DELETE FROM webhook_endpoints WHERE id = $1 AND user_id = $2",
+    [endpointId, userId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Queue an event for each of an owner's active endpoints subscribed to it
+ * Failures are logged and swallowed so they never fail the action that raised the event.
+ * @param subject - One-line summary, also sent as the delivery's text
+ */
+export async function emitWebhookEvent(
+  userId: string,
+  event: WebhookEvent,
+  subject: string,
+  data: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    const endpoints = await pool.query(
+      `SELECT id, url FROM webhook_endpoints
+       WHERE user_id = $1 AND is_active = true AND (events = '[]'::jsonb OR events ? $2)`,
+      [userId, event]
+    );
+    for (const endpoint of endpoints.rows) {
+      await enqueueDelivery("webhook", endpoint.url, { event, subject, text: subject, data }, { endpointId: endpoint.id });
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${event} event:`, error);
+  }
+}
+
+/**
+ * Emit quota.exceeded for the window that rejected a key's request
+ * Fires once per window: like warning thresholds it is recorded in quota_threshold_events
+ * (as threshold 100 of "exceeded:<window>") and re-arms after a full window.
+ */
+export async function emitQuotaExceeded(keyId: string, window: QuotaWindowStatus): Promise<void> {
+  try {
+    const now = Date.now();
+    const fired = await pool.query(
+      `INSERT INTO quota_threshold_events (key_id, window_name, threshold, fired_at)
+       VALUES ($1, $2, 100, $3)
+       ON CONFLICT (key_id, window_name, threshold) DO UPDATE SET fired_at = EXCLUDED.fired_at
+       WHERE quota_threshold_events.fired_at <= $4
+       RETURNING threshold`,
+      [keyId, `exceeded:${window.name}`, now, now - window.windowHours * 60 * 60 * 1000]
+    );
+    if (fired.rows.length === 0) {
+      return;
+    }
+
+    const key = await pool.query("SELECT user_id, name, key_prefix FROM api_keys WHERE id = $1", [keyId]);
+    if (key.rows.length === 0) {
+      return;
+    }
+    const { user_id: ownerId, name, key_prefix: keyPrefix } = key.rows[0];
+    await emitWebhookEvent(ownerId, "quota.exceeded", `API key ${name || keyPrefix} has exhausted its ${window.name} quota`, {
+      keyId,
+      window: window.name,
+      scope: window.scope,
+      usagePercentage: window.percentages.creditPercentage,
+      resetAt: window.resetTime.toISOString(),
+    });
+  } catch (error) {
+    console.error("[Webhooks] Failed to emit quota.exceeded:", error);
+  }
+}
+
+/**
+ * List an endpoint's deliveries, newest first (owner only)
+ * @param cursor - Only return deliveries with a smaller id (the previous page's next_cursor)
+ * @returns null if the owner has no such endpoint
+ */
+export async function listWebhookDeliveries(
+  endpointId: string,
+  userId: string,
+  options: { limit?: number; cursor?: number | null } = {}
+): Promise<{ deliveries: WebhookDelivery[]; next_cursor: number | null } | null> {
+  const endpoint = await pool.query("SELECT 1 FROM webhook_endpoints WHERE id = $1 AND user_id = $2", [endpointId, userId]);
+  if (endpoint.rows.length === 0) {
+    return null;
+  }
+
+  const limit = Math.min(Math.max(1, options.limit || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  // Fetch one extra row to know whether there is another page
+  const result = await pool.query(
+    `SELECT id, event, status, attempts, response_status, last_error, replay_of, subject, body, data,
+            created_at, sent_at, next_attempt_at
+     FROM notification_outbox
+     WHERE endpoint_id = $1 AND ($2::int IS NULL OR id < $2)
+     ORDER BY id DESC
+     LIMIT $3`,
+    [endpointId, options.cursor ?? null, limit + 1]
+  );
+
+  const deliveries = result.rows.slice(0, limit).map((row) => ({
+    id: row.id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    lastError: row.last_error,
+    replayOf: row.replay_of,
+    payload: { subject: row.subject, text: row.body, data: row.data },
+    createdAt: Number(row.created_at),
+    sentAt: row.sent_at === null ? null : Number(row.sent_at),
+    // Only meaningful while the delivery waits for a retry
+    nextAttemptAt: row.status === "pending" ? Number(row.next_attempt_at) : null,
+  }));
+
+  return {
+    deliveries,
+    next_cursor: result.rows.length > limit ? deliveries[deliveries.length - 1].id : null,
+  };
+}
+
+/**
+ * Send a delivery again as a new delivery with the same payload (owner only)
+ * @returns The ID of the new delivery
+ */
+export async function replayWebhookDelivery(
+  endpointId: string,
+  deliveryId: number,
+  userId: string
+): Promise<{ success: boolean; deliveryId?: number; error?: string }> {
+  try {
+    const result = await pool.query(
+      `SELECT o.event, o.subject, o.body, o.data, e.url, e.is_active
+       FROM notification_outbox o
+       JOIN webhook_endpoints e ON e.id = o.endpoint_id
+       WHERE o.id = $1 AND o.endpoint_id = $2 AND e.user_id = $3`,
+      [deliveryId, endpointId, userId]
+    );
+    const original = result.rows[0];
+    if (!original) {
+      return { success: false, error: "Delivery not found" };
+    }
+    if (!original.is_active) {
+      return { success: false, error: "Webhook endpoint is disabled" };
+    }
+
+    const replayId = await enqueueDelivery(
+      "webhook",
+      original.url,
+      { event: original.event, subject: original.subject, text: original.body, data: original.data },
+      { endpointId, replayOf: deliveryId }
+    );
+    console.log(`[Webhooks] Replaying delivery ${deliveryId} as ${replayId}`);
+    return { success: true, deliveryId: replayId };
+  } catch (error) {
+    console.error("[Webhooks] Replay delivery error:", error);
+    return { success: false, error: "Failed to replay delivery" };
+  }
+}
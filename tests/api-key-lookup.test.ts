@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach, spyOn } from "bun:test";
+import pool, { initializeDatabase } from "../src/db";
+import { generateApiKey, validateApiKey, rotateApiKey, parseKeyLookupId, hashApiKey } from "../src/keys";
+import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
+
+describe("API Key Lookup", () => {
+  let testUserId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    testUserId = randomUUID();
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)",
+      [testUserId, `lookup-${testUserId}@example.com`, "hash"]
+    );
+  });
+
+  afterEach(async () => {
+    await pool.query("DELETE FROM api_keys WHERE user_id = $1", [testUserId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+  });
+
+  describe("parseKeyLookupId", () => {
+    test("should extract the lookup id from current-format keys", () => {
+      const key = `sk-proj-0123456789abcdef-${"a".repeat(64)}`;
+      expect(parseKeyLookupId(key)).toBe("0123456789abcdef");
+    });
+
+    test("should return null for legacy and malformed keys", () => {
+      expect(parseKeyLookupId(`sk-proj-${"a".repeat(64)}`)).toBeNull();
+      expect(parseKeyLookupId("sk-test-123")).toBeNull();
+      expect(parseKeyLookupId(`sk-proj-0123456789abcdef-${"a".repeat(63)}`)).toBeNull();
+    });
+  });
+
+  describe("generateApiKey", () => {
+    test("should store a lookup id and HMAC hash instead of bcrypt", async () => {
+      const result = await generateApiKey(testUserId, "Lookup Key");
+      expect(result.success).toBe(true);
+
+      const lookupId = parseKeyLookupId(result.key!);
+      expect(lookupId).not.toBeNull();
+
+      const row = (await pool.query("SELECT * FROM api_keys WHERE user_id = $1", [testUserId])).rows[0];
+      expect(row.key_lookup_id).toBe(lookupId);
+      expect(row.hash_algorithm).toBe("hmac-sha256");
+      expect(row.key_hash).toBe(hashApiKey(result.key!));
+      expect(row.key_hash.startsWith("$2")).toBe(false);
+    });
+  });
+
+  describe("validateApiKey", () => {
+    test("should validate a newly generated key", async () => {
+      const result = await generateApiKey(testUserId);
+      const validation = await validateApiKey(result.key!);
+
+      expect(validation.valid).toBe(true);
+      expect(validation.userId).toBe(testUserId);
+    });
+
+    test("should reject a key with a known lookup id but wrong secret", async () => {
+      const result = await generateApiKey(testUserId);
+      const lookupId = parseKeyLookupId(result.key!);
+
+      const validation = await validateApiKey(`sk-proj-${lookupId}-${"0".repeat(64)}`);
+      expect(validation.valid).toBe(false);
+    });
+
+    test("should reject a revoked key", async () => {
+      const result = await generateApiKey(testUserId);
+      await pool.query("UPDATE api_keys SET is_active = false WHERE user_id = $1", [testUserId]);
+
+      const validation = await validateApiKey(result.key!);
+      expect(validation.valid).toBe(false);
+    });
+
+    test("should keep validating legacy bcrypt keys", async () => {
+      const legacyKey = `sk-proj-${"b".repeat(64)}`;
+      const keyId = randomUUID();
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+        [keyId, testUserId, await bcrypt.hash(legacyKey, 4), "sk-proj-bbbbbbb..."]
+      );
+
+      const validation = await validateApiKey(legacyKey);
+      expect(validation.valid).toBe(true);
+      expect(validation.keyId).toBe(keyId);
+    });
+
+    test("should only bcrypt-check legacy-shaped keys against the rows sharing their prefix", async () => {
+      const legacyKey = `sk-proj-${"d".repeat(64)}`;
+      const keyId = randomUUID();
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+        [keyId, testUserId, await bcrypt.hash(legacyKey, 4), "sk-proj-ddddddd..."]
+      );
+      const compare = spyOn(bcrypt, "compare");
+
+      try {
+        expect((await validateApiKey("not-a-key")).valid).toBe(false);
+        expect((await validateApiKey(`sk-proj-${"e".repeat(64)}`)).valid).toBe(false);
+        expect(compare).not.toHaveBeenCalled();
+
+        expect((await validateApiKey(`sk-proj-${"d".repeat(63)}e`)).valid).toBe(false);
+        expect(compare).toHaveBeenCalledTimes(1);
+      } finally {
+        compare.mockRestore();
+      }
+    });
+  });
+
+  describe("rotateApiKey", () => {
+    test("should migrate a legacy key to the lookup scheme and invalidate the old key", async () => {
+      const legacyKey = `sk-proj-${"c".repeat(64)}`;
+      const keyId = randomUUID();
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, quota_percentage) VALUES ($1, $2, $3, $4, $5)",
+        [keyId, testUserId, await bcrypt.hash(legacyKey, 4), "sk-proj-ccccccc...", 40]
+      );
+
+      const rotated = await rotateApiKey(keyId, testUserId);
+      expect(rotated.success).toBe(true);
+
+      expect((await validateApiKey(legacyKey)).valid).toBe(false);
+
+      const validation = await validateApiKey(rotated.key!);
+      expect(validation.valid).toBe(true);
+      expect(validation.keyId).toBe(keyId);
+
+      const row = (await pool.query("SELECT * FROM api_keys WHERE id = $1", [keyId])).rows[0];
+      expect(row.hash_algorithm).toBe("hmac-sha256");
+      expect(row.quota_percentage).toBe(40);
+    });
+
+    test("should not rotate a key owned by another user", async () => {
+      const result = await generateApiKey(testUserId);
+      const keyId = (await pool.query("SELECT id FROM api_keys WHERE user_id = $1", [testUserId])).rows[0].id;
+
+      const rotated = await rotateApiKey(keyId, randomUUID());
+      expect(rotated.success).toBe(false);
+      expect((await validateApiKey(result.key!)).valid).toBe(true);
+    });
+  });
+});
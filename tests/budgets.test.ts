@@ -0,0 +1,190 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { checkBudgets, getBudgetPeriod } from "../src/budgets";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+describe("Dollar budgets", () => {
+  let fake: FakeAnthropic;
+  let ownerId: string;
+  let otherId: string;
+  let keyA: string;
+  let keyB: string;
+  let apiKeyA: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    ownerId = randomUUID();
+    otherId = randomUUID();
+    keyA = `budget-key-a-${randomUUID()}`;
+    keyB = `budget-key-b-${randomUUID()}`;
+    apiKeyA = legacyApiKey();
+
+    await pool.query("INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, 'pro')", [ownerId, `budget-${ownerId}@example.com`, "hash"]);
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [otherId, `budget-${otherId}@example.com`, "hash"]);
+    await pool.query(
+      "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at) VALUES ($1, $2, $3, $4)",
+      [ownerId, "access", "refresh", Date.now() + 60 * 60 * 1000]
+    );
+    for (const [id, secret] of [[keyA, apiKeyA], [keyB, legacyApiKey()]]) {
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+        [id, ownerId, await bcrypt.hash(secret, 4), legacyKeyPrefix(secret)]
+      );
+    }
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    await pool.query("DELETE FROM users WHERE id IN ($1, $2)", [ownerId, otherId]);
+  });
+
+  function request(path: string, options: { method?: string; body?: unknown; as?: string } = {}) {
+    const userId = options.as ?? ownerId;
+    const token = jwt.sign({ userId, email: `budget-${userId}@example.com` }, JWT_SECRET);
+    return app.request(path, {
+      method: options.method || "GET",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  function proxy() {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKeyA, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-sonnet-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  async function addSpend(keyId: string, cost: number, timestamp = Date.now() - 60 * 1000) {
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, cost, credits_used) VALUES ($1, $2, $3, 0, $4, 0)",
+      [keyId, timestamp, "claude-sonnet-4-20250514", cost]
+    );
+  }
+
+  test("should reject invalid budgets", async () => {
+    const invalid = [
+      { amountUsd: 0 },
+      { amountUsd: 0.001 },
+      { amountUsd: 10, period: "weekly" },
+      { amountUsd: 10, mode: "block" },
+      { amountUsd: 10, period: "custom", periodStart: "2026-01-01" },
+      { amountUsd: 10, period: "custom", periodStart: "2026-02-01", periodEnd: "2026-01-01" },
+    ];
+    for (const body of invalid) {
+      expect((await request("/api/user/budget", { method: "PUT", body })).status).toBe(400);
+    }
+  });
+
+  test("should only let the owner set a key's budget", async () => {
+    const response = await request(`/api/keys/${keyA}/budget`, { method: "PUT", body: { amountUsd: 10 }, as: otherId });
+
+    expect(response.status).toBe(404);
+  });
+
+  test("should reject requests once a hard key budget is spent", async () => {
+    const set = await request(`/api/keys/${keyA}/budget`, { method: "PUT", body: { amountUsd: 5 } });
+    expect((await set.json()).budget).toMatchObject({ scope: "key", amountUsd: 5, period: "monthly", mode: "hard", isActive: true });
+    await addSpend(keyA, 5);
+
+    const response = await proxy();
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get("retry-after"))).toBeGreaterThan(0);
+    const body = await response.json();
+    expect(body.error.budget_exceeded).toMatchObject({ scope: "key", amount_usd: 5, spent_usd: 5 });
+    expect(body.error.message).toContain("$5.00 monthly key budget");
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  test("should count all of the owner's keys against the owner budget", async () => {
+    await request("/api/user/budget", { method: "PUT", body: { amountUsd: 10 } });
+    await addSpend(keyB, 10);
+
+    const result = await checkBudgets(keyA, ownerId);
+
+    expect(result.allowed).toBe(false);
+    expect(result.exceededBudget?.scope).toBe("owner");
+  });
+
+  test("should let requests through a warn-only budget with a warning header", async () => {
+    await request("/api/user/budget", { method: "PUT", body: { amountUsd: 1, mode: "warn" } });
+    await addSpend(keyB, 2);
+
+    const response = await proxy();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-budget-warning")).toContain("$2.00 of the $1.00 monthly owner budget spent");
+  });
+
+  test("should only count spend within the budget's period", async () => {
+    await request(`/api/keys/${keyA}/budget`, { method: "PUT", body: { amountUsd: 5 } });
+    const { start } = getBudgetPeriod("monthly", null, null);
+    await addSpend(keyA, 50, start - 1000);
+    await addSpend(keyA, 1);
+
+    const result = await checkBudgets(keyA, ownerId);
+
+    expect(result.allowed).toBe(true);
+    expect(result.budgets[0].spentUsd).toBe(1);
+  });
+
+  test("should not enforce a custom budget outside its period", async () => {
+    await request(`/api/keys/${keyA}/budget`, {
+      method: "PUT",
+      body: { amountUsd: 5, period: "custom", periodStart: "2020-01-01T00:00:00Z", periodEnd: "2020-02-01T00:00:00Z" },
+    });
+    await addSpend(keyA, 5, Date.parse("2020-01-15T00:00:00Z"));
+
+    const result = await checkBudgets(keyA, ownerId);
+
+    expect(result.allowed).toBe(true);
+    expect(result.budgets[0]).toMatchObject({ isActive: false, isOverBudget: true, spentUsd: 5 });
+  });
+
+  test("should report budgets in the quota endpoints", async () => {
+    await request(`/api/keys/${keyA}/budget`, { method: "PUT", body: { amountUsd: 20 } });
+    await request("/api/user/budget", { method: "PUT", body: { amountUsd: 100, mode: "warn" } });
+    await addSpend(keyA, 5);
+    await addSpend(keyB, 5);
+
+    const quota = (await (await request(`/api/keys/${keyA}/quota`)).json()).quota;
+    expect(quota.budgets.key).toMatchObject({ amountUsd: 20, spentUsd: 5, remainingUsd: 15, percentage: 25 });
+    expect(quota.budgets.owner).toMatchObject({ amountUsd: 100, spentUsd: 10, percentage: 10, mode: "warn" });
+
+    const overview = (await (await request("/api/quota/overview")).json()).overview;
+    expect(overview.budget).toMatchObject({ scope: "owner", spentUsd: 10 });
+    expect(overview.keys.find((k: any) => k.keyId === keyA).budget).toMatchObject({ amountUsd: 20 });
+    expect(overview.keys.find((k: any) => k.keyId === keyB).budget).toBeNull();
+  });
+
+  test("should remove budgets", async () => {
+    await request(`/api/keys/${keyA}/budget`, { method: "PUT", body: { amountUsd: 5 } });
+    await addSpend(keyA, 5);
+
+    expect((await request(`/api/keys/${keyA}/budget`, { method: "DELETE" })).status).toBe(200);
+    expect((await checkBudgets(keyA, ownerId)).allowed).toBe(true);
+    expect((await request("/api/user/budget", { method: "DELETE" })).status).toBe(404);
+    expect((await (await request("/api/user/budget")).json()).budget).toBeNull();
+  });
+});
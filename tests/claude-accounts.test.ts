@@ -0,0 +1,258 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { proxyToClaudeAPI } from "../src/proxy";
+import { selectAccounts, setAccountStrategy, markAccountUsed } from "../src/accounts";
+import { saveOAuthTokens } from "../src/oauth";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const JWT_SECRET = process.env.JWT_SECRET || "test-secret-key";
+
+describe("Claude account pool", () => {
+  let testUserId: string;
+  let testKeyId: string;
+  let testApiKey: string;
+  let accountIds: string[];
+  let usedTokens: string[];
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  async function addAccount(name: string, createdAt: number): Promise<string> {
+    const result = await pool.query(
+      `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, account_uuid, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+      [testUserId, `token-${name}`, `refresh-${name}`, Date.now() + 60 * 60 * 1000, `uuid-${name}`, createdAt]
+    );
+    return result.rows[0].id;
+  }
+
+  beforeEach(async () => {
+    testUserId = randomUUID();
+    testKeyId = `pool-key-${randomUUID()}`;
+    testApiKey = legacyApiKey();
+    usedTokens = [];
+
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+      [testUserId, `pool-${testUserId}@example.com`, "hash", "pro"]
+    );
+    const now = Date.now();
+    accountIds = [await addAccount("a", now - 3000), await addAccount("b", now - 2000), await addAccount("c", now - 1000)];
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+      [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey)]
+    );
+    await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await pool.query("DELETE FROM api_key_usage_history WHERE key_id = $1", [testKeyId]);
+    await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+    await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+  });
+
+  // Upstream mock: responds per access token, defaulting to a successful message
+  function mockUpstream(statusByToken: Record<string, number> = {}) {
+    global.fetch = (async (_url: string, options?: RequestInit) => {
+      const token = new Headers(options?.headers).get("authorization")!.replace("Bearer ", "");
+      usedTokens.push(token);
+      const status = statusByToken[token] || 200;
+      const body = status === 200
+        ? { id: "msg_1", usage: { input_tokens: 10, output_tokens: 5 } }
+        : { type: "error", error: { type: status === 429 ? "rate_limit_error" : "authentication_error" } };
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: { "content-type": "application/json", ...(status === 429 ? { "retry-after": "120" } : {}) },
+      });
+    }) as unknown as typeof fetch;
+  }
+
+  function messagesRequest(): Request {
+    return new Request("http://localhost:3000/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": testApiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-haiku-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  test("saveOAuthTokens should add a new account per Claude account and update existing ones", async () => {
+    const tokens = { access_token: "new-token", refresh_token: "new-refresh", expires_at: Date.now() + 1000 };
+
+    const addedId = await saveOAuthTokens(testUserId, { ...tokens, account_uuid: "uuid-d" });
+    expect(accountIds).not.toContain(addedId);
+
+    const updatedId = await saveOAuthTokens(testUserId, { ...tokens, access_token: "refreshed", account_uuid: "uuid-a" });
+    expect(updatedId).toBe(accountIds[0]);
+
+    const count = await pool.query("SELECT COUNT(*) FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    expect(Number(count.rows[0].count)).toBe(4);
+  });
+
+  test("saveOAuthTokens should reconnect an account saved before account_uuid was recorded", async () => {
+    await pool.query("UPDATE oauth_tokens SET account_uuid = NULL WHERE id = $1", [accountIds[1]]);
+    const tokens = { access_token: "reconnected", refresh_token: "new-refresh", expires_at: Date.now() + 1000 };
+
+    expect(await saveOAuthTokens(testUserId, { ...tokens, account_uuid: "uuid-d" })).toBe(accountIds[1]);
+    const row = await pool.query("SELECT account_uuid FROM oauth_tokens WHERE id = $1", [accountIds[1]]);
+    expect(row.rows[0].account_uuid).toBe("uuid-d");
+
+    // Once no legacy row is left, other Claude accounts are added as usual
+    expect(accountIds).not.toContain(await saveOAuthTokens(testUserId, { ...tokens, account_uuid: "uuid-e" }));
+    const count = await pool.query("SELECT COUNT(*) FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    expect(Number(count.rows[0].count)).toBe(4);
+  });
+
+  test("round_robin should start with the least recently used account", async () => {
+    await markAccountUsed(accountIds[0]);
+
+    const ordered = await selectAccounts(testUserId, testKeyId);
+    expect(ordered.map((a) => a.id)).toEqual([accountIds[1], accountIds[2], accountIds[0]]);
+  });
+
+  test("round_robin should spread consecutive requests across accounts", async () => {
+    mockUpstream();
+
+    for (let i = 0; i < 3; i++) {
+      const response = await proxyToClaudeAPI(messagesRequest());
+      expect(response.status).toBe(200);
+    }
+
+    expect(new Set(usedTokens)).toEqual(new Set(["token-a", "token-b", "token-c"]));
+  });
+
+  test("least_used should prefer the account with the lowest window usage", async () => {
+    await setAccountStrategy(testUserId, "least_used");
+    // Account b is on a bigger plan, so the same credits are a smaller share of its window
+    await pool.query("UPDATE oauth_tokens SET plan_type = 'max-20x' WHERE id = $1", [accountIds[1]]);
+    const now = Date.now();
+    for (const accountId of [accountIds[0], accountIds[1], accountIds[2], accountIds[2]]) {
+      await pool.query(
+        `INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used, account_id)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [testKeyId, now, "claude-sonnet-4-20250514", 1000, 20000, accountId]
+      );
+    }
+
+    const ordered = await selectAccounts(testUserId, testKeyId);
+    expect(ordered.map((a) => a.id)).toEqual([accountIds[1], accountIds[0], accountIds[2]]);
+  });
+
+  test("sticky should route a key to the same account every time", async () => {
+    await setAccountStrategy(testUserId, "sticky");
+
+    const first = (await selectAccounts(testUserId, testKeyId))[0].id;
+    await markAccountUsed(first);
+    const second = (await selectAccounts(testUserId, testKeyId))[0].id;
+
+    expect(second).toBe(first);
+  });
+
+  test("should fail over on 429 and put the account on cooldown", async () => {
+    mockUpstream({ "token-a": 429 });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+
+    expect(response.status).toBe(200);
+    expect(usedTokens).toEqual(["token-a", "token-b"]);
+
+    const account = await pool.query("SELECT rate_limited_until FROM oauth_tokens WHERE id = $1", [accountIds[0]]);
+    expect(Number(account.rows[0].rate_limited_until)).toBeGreaterThan(Date.now() + 100 * 1000);
+
+    // The cooling-down account is tried last from now on
+    const ordered = await selectAccounts(testUserId, testKeyId);
+    expect(ordered[ordered.length - 1].id).toBe(accountIds[0]);
+  });
+
+  test("should fail over on a revoked-token 401", async () => {
+    mockUpstream({ "token-a": 401 });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+
+    expect(response.status).toBe(200);
+    expect(usedTokens).toEqual(["token-a", "token-b"]);
+  });
+
+  test("should return the last upstream error when every account fails", async () => {
+    mockUpstream({ "token-a": 429, "token-b": 429, "token-c": 429 });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+
+    expect(response.status).toBe(429);
+    expect(usedTokens).toEqual(["token-a", "token-b", "token-c"]);
+  });
+
+  test("should attribute usage to the account that served the request", async () => {
+    mockUpstream({ "token-a": 429 });
+
+    await proxyToClaudeAPI(messagesRequest());
+
+    const history = await pool.query("SELECT account_id FROM api_key_usage_history WHERE key_id = $1", [testKeyId]);
+    expect(history.rows.map((r) => r.account_id)).toEqual([accountIds[1]]);
+  });
+
+  test("accounts API should list, update, remove accounts and set the strategy", async () => {
+    const token = jwt.sign({ userId: testUserId }, JWT_SECRET, { expiresIn: "1h" });
+    const headers = { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+
+    const patch = await app.request(`/api/claude/accounts/${accountIds[0]}`, {
+      method: "PATCH",
+      headers,
+      body: JSON.stringify({ label: "Team A", planType: "max-5x" }),
+    });
+    expect(patch.status).toBe(200);
+
+    const invalidPlan = await app.request(`/api/claude/accounts/${accountIds[0]}`, {
+      method: "PATCH",
+      headers,
+      body: JSON.stringify({ planType: "enterprise" }),
+    });
+    expect(invalidPlan.status).toBe(400);
+
+    const strategy = await app.request("/api/claude/account-strategy", {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ strategy: "sticky" }),
+    });
+    expect(strategy.status).toBe(200);
+
+    const removed = await app.request(`/api/claude/accounts/${accountIds[2]}`, { method: "DELETE", headers });
+    expect(removed.status).toBe(200);
+
+    const list = await app.request("/api/claude/accounts", { headers });
+    const body = await list.json();
+    expect(body.strategy).toBe("sticky");
+    expect(body.accounts).toHaveLength(2);
+    expect(body.accounts[0].label).toBe("Team A");
+    expect(body.accounts[0].effective_plan).toBe("max-5x");
+    expect(body.accounts[1].effective_plan).toBe("pro");
+    expect(body.accounts[0].usage.percentage).toBe(0);
+  });
+
+  test("should not let an owner modify another owner's account", async () => {
+    const otherUserId = randomUUID();
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)",
+      [otherUserId, `pool-other-${otherUserId}@example.com`, "hash"]
+    );
+    const otherToken = jwt.sign({ userId: otherUserId }, JWT_SECRET, { expiresIn: "1h" });
+
+    try {
+      const response = await app.request(`/api/claude/accounts/${accountIds[0]}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${otherToken}` },
+      });
+
+      expect(response.status).toBe(404);
+    } finally {
+      await pool.query("DELETE FROM users WHERE id = $1", [otherUserId]);
+    }
+  });
+});
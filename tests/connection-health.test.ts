@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { proxyToClaudeAPI } from "../src/proxy";
+import { saveOAuthTokens, ensureValidToken, getConnectionStatus } from "../src/oauth";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const JWT_SECRET = process.env.JWT_SECRET || "test-secret-key";
+
+describe("Claude connection health", () => {
+  let testUserId: string;
+  let testKeyId: string;
+  let testApiKey: string;
+  let accountId: string;
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    testUserId = randomUUID();
+    testKeyId = `health-key-${randomUUID()}`;
+    testApiKey = legacyApiKey();
+
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+      [testUserId, `health-${testUserId}@example.com`, "hash", "pro"]
+    );
+    accountId = await saveOAuthTokens(testUserId, {
+      access_token: "access",
+      refresh_token: "refresh",
+      expires_at: Date.now() + 60 * 60 * 1000,
+      account_uuid: "health-account",
+    });
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+      [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey)]
+    );
+    await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+    await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+  });
+
+  function mockFetch(status: number, body: unknown) {
+    global.fetch = (async () => new Response(JSON.stringify(body), {
+      status,
+      headers: { "content-type": "application/json" },
+    })) as unknown as typeof fetch;
+  }
+
+  function messagesRequest(): Request {
+    return new Request("http://localhost:3000/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": testApiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-haiku-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  async function expireToken() {
+    await pool.query("UPDATE oauth_tokens SET expires_at = $1 WHERE id = $2", [Date.now() - 1000, accountId]);
+  }
+
+  test("should mark the connection revoked when refresh returns invalid_grant", async () => {
+    await expireToken();
+    mockFetch(400, { error: "invalid_grant", error_description: "Refresh token revoked" });
+
+    const result = await ensureValidToken(testUserId);
+    expect(result.success).toBe(false);
+    expect(result.revoked).toBe(true);
+
+    const status = await getConnectionStatus(testUserId);
+    expect(status.connected).toBe(false);
+    expect(status.health).toBe("revoked");
+    expect(status.last_error).toContain("Refresh token revoked");
+    expect(status.last_error_at).toBeGreaterThan(Date.now() - 5000);
+  });
+
+  test("should mark refresh_failed for transient refresh errors and stay connected", async () => {
+    await expireToken();
+    mockFetch(503, { error: "temporarily_unavailable" });
+
+    await ensureValidToken(testUserId);
+
+    const status = await getConnectionStatus(testUserId);
+    expect(status.connected).toBe(true);
+    expect(status.health).toBe("refresh_failed");
+  });
+
+  test("should tell API key users when the provider's connection was revoked", async () => {
+    await expireToken();
+    mockFetch(400, { error: "invalid_grant" });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+
+    expect(response.status).toBe(401);
+    const body = await response.json();
+    expect(body.error.type).toBe("authentication_error");
+    expect(body.error.message).toContain("revoked");
+  });
+
+  test("should mark the connection revoked when upstream rejects the access token", async () => {
+    mockFetch(401, { type: "error", error: { type: "authentication_error", message: "OAuth token has been revoked" } });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+    expect(response.status).toBe(401);
+
+    const status = await getConnectionStatus(testUserId);
+    expect(status.health).toBe("revoked");
+    expect(status.last_error).toContain("OAuth token has been revoked");
+  });
+
+  test("should recover to healthy after a successful upstream call and keep the last error", async () => {
+    await pool.query(
+      "UPDATE oauth_tokens SET health_status = 'refresh_failed', last_error = 'timeout', last_error_at = $1 WHERE id = $2",
+      [Date.now(), accountId]
+    );
+    mockFetch(200, { id: "msg_1", usage: { input_tokens: 1, output_tokens: 1 } });
+
+    const response = await proxyToClaudeAPI(messagesRequest());
+    expect(response.status).toBe(200);
+
+    const status = await getConnectionStatus(testUserId);
+    expect(status.health).toBe("healthy");
+    expect(status.last_error).toBe("timeout");
+  });
+
+  test("reconnecting a revoked account should make it healthy", async () => {
+    await pool.query("UPDATE oauth_tokens SET health_status = 'revoked' WHERE id = $1", [accountId]);
+
+    await saveOAuthTokens(testUserId, {
+      access_token: "new-access",
+      refresh_token: "new-refresh",
+      expires_at: Date.now() + 60 * 60 * 1000,
+      account_uuid: "health-account",
+    });
+
+    expect((await getConnectionStatus(testUserId)).health).toBe("healthy");
+  });
+
+  test("GET /api/claude/status should expose health per account", async () => {
+    await pool.query(
+      "UPDATE oauth_tokens SET health_status = 'revoked', last_error = 'invalid_grant', last_error_at = $1 WHERE id = $2",
+      [Date.now(), accountId]
+    );
+    const token = jwt.sign({ userId: testUserId }, JWT_SECRET, { expiresIn: "1h" });
+
+    const response = await app.request("/api/claude/status", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.connected).toBe(false);
+    expect(body.health).toBe("revoked");
+    expect(body.last_error).toBe("invalid_grant");
+    expect(body.accounts[0]).toMatchObject({ id: accountId, health_status: "revoked" });
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { randomUUID } from "crypto";
+
+/**
+ * End-to-end tests: the full Hono app against a local fake Anthropic server
+ * Every flow goes through the public HTTP API, from registration to proxied requests.
+ */
+describe("End-to-end against a fake Anthropic server", () => {
+  let fake: FakeAnthropic;
+  let email: string;
+  let token: string;
+  let apiKey: string;
+  let keyId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    email = `e2e-${randomUUID()}@example.com`;
+    await app.request("/api/auth/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password: "e2e-password" }),
+    });
+    const login = await app.request("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password: "e2e-password" }),
+    });
+    token = (await login.json()).token;
+
+    await connectClaude("primary");
+
+    const generated = await api("/api/keys/generate", { method: "POST", body: JSON.stringify({ name: "e2e" }) });
+    apiKey = (await generated.json()).key;
+    const list = await (await api("/api/keys/list")).json();
+    keyId = list.owned[0].id;
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    // Keys, tokens and usage are removed with the user
+    await pool.query("DELETE FROM users WHERE email = $1", [email]);
+  });
+
+  function api(path: string, init: RequestInit = {}) {
+    return app.request(path, {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json", ...init.headers },
+    });
+  }
+
+  function proxy(path: string, body?: unknown, method = "POST") {
+    return app.request(path, {
+      method,
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  function message(extra: Record<string, unknown> = {}) {
+    return {
+      model: "claude-haiku-4-20250514",
+      max_tokens: 64,
+      messages: [{ role: "user", content: "Hello" }],
+      ...extra,
+    };
+  }
+
+  // Run the dashboard OAuth flow; the fake uses the code as the Claude account identity
+  async function connectClaude(code: string) {
+    const { url } = await (await api("/api/claude/connect")).json();
+    const state = new URL(url).searchParams.get("state");
+    const response = await api("/api/claude/callback", { method: "POST", body: JSON.stringify({ code: `${code}#${state}` }) });
+    expect(response.status).toBe(200);
+    return (await response.json()).accountId as string;
+  }
+
+  async function keyUsage() {
+    return (await (await api(`/api/keys/${keyId}/usage`)).json()).usage;
+  }
+
+  test("OAuth connect should exchange the code with the stored verifier", async () => {
+    const exchange = fake.requests.find((r) => r.path === "/v1/oauth/token")!;
+    expect(exchange.body.grant_type).toBe("authorization_code");
+    expect(exchange.body.code).toBe("primary");
+    expect(exchange.body.code_verifier).toBeTruthy();
+
+    const status = await (await api("/api/claude/status")).json();
+    expect(status.connected).toBe(true);
+    expect(status.health).toBe("healthy");
+  });
+
+  test("should proxy a JSON message and record its usage", async () => {
+    fake.enqueue({ path: "/v1/messages", usage: { input_tokens: 120, output_tokens: 30 }, text: "Hi there" });
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.content[0].text).toBe("Hi there");
+
+    const upstream = fake.requests.find((r) => r.path === "/v1/messages")!;
+    expect(upstream.headers.get("authorization")).toBe(`Bearer ${fake.lastIssuedTokens()!.access_token}`);
+    expect(upstream.headers.get("x-api-key")).toBeNull();
+
+    const usage = await keyUsage();
+    expect(Number(usage.input_tokens)).toBe(120);
+    expect(Number(usage.output_tokens)).toBe(30);
+    expect(Number(usage.request_count)).toBe(1);
+  });
+
+  test("should stream a message and record usage from the SSE events", async () => {
+    fake.enqueue({ path: "/v1/messages", usage: { input_tokens: 40, output_tokens: 12 }, text: "Streamed" });
+
+    const response = await proxy("/v1/messages", message({ stream: true }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    const text = await response.text();
+    expect(text).toContain("event: message_stop");
+    expect(text).toContain("Streamed");
+
+    // Usage is written once the stream has been fully read
+    let usage = await keyUsage();
+    for (let i = 0; i < 20 && Number(usage.request_count) === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      usage = await keyUsage();
+    }
+    expect(Number(usage.input_tokens)).toBe(40);
+    expect(Number(usage.output_tokens)).toBe(12);
+  });
+
+  test("should proxy count_tokens and models through the catch-all route", async () => {
+    fake.enqueue({ path: "/v1/messages/count_tokens", usage: { input_tokens: 7 } });
+
+    const counted = await proxy("/v1/messages/count_tokens", message());
+    expect(counted.status).toBe(200);
+    expect((await counted.json()).input_tokens).toBe(7);
+
+    const models = await proxy("/v1/models", undefined, "GET");
+    expect(models.status).toBe(200);
+    const body = await models.json();
+    expect(body.data.map((m: any) => m.id)).toContain("claude-sonnet-4-20250514");
+  });
+
+  test("should translate OpenAI chat completions", async () => {
+    fake.enqueue({ path: "/v1/messages", usage: { input_tokens: 9, output_tokens: 4 }, text: "Translated" });
+
+    const response = await proxy("/v1/chat/completions", {
+      model: "claude-haiku-4-20250514",
+      messages: [{ role: "system", content: "Be brief" }, { role: "user", content: "Hello" }],
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.choices[0].message.content).toBe("Translated");
+    expect(body.usage.prompt_tokens).toBe(9);
+
+    const upstream = fake.requests.find((r) => r.path === "/v1/messages")!;
+    expect(upstream.body.system).toBeDefined();
+  });
+
+  test("should pass upstream rate limits through when the wait exceeds the retry budget", async () => {
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url, retryBudgetMs: 5000 });
+    fake.rateLimitNext(17);
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("retry-after")).toBe("17");
+    const body = await response.json();
+    expect(body.error.type).toBe("rate_limit_error");
+    expect(fake.requests.filter((r) => r.path === "/v1/messages")).toHaveLength(1);
+  });
+
+  test("should retry a rate limit after a short retry-after", async () => {
+    fake.rateLimitNext(0);
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(200);
+    expect(fake.requests.filter((r) => r.path === "/v1/messages")).toHaveLength(2);
+  });
+
+  test("should retry an overloaded upstream and record each attempt", async () => {
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url, retryBaseDelayMs: 1 });
+    fake.enqueue({ path: "/v1/messages", status: 529, error: { type: "overloaded_error", message: "Overloaded" } });
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(200);
+    const attempts = await pool.query(
+      "SELECT attempt, status, outcome, error FROM upstream_attempts WHERE key_id = $1 ORDER BY attempt",
+      [keyId]
+    );
+    expect(attempts.rows).toMatchObject([
+      { attempt: 1, status: 529, outcome: "retried", error: "overloaded_error" },
+      { attempt: 2, status: 200, outcome: "success", error: null },
+    ]);
+  });
+
+  test("should fail over to another account when one is rate limited", async () => {
+    await connectClaude("secondary");
+    fake.rateLimitNext(30);
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(200);
+    const attempts = fake.requests.filter((r) => r.path === "/v1/messages");
+    expect(attempts).toHaveLength(2);
+    expect(attempts[0].headers.get("authorization")).not.toBe(attempts[1].headers.get("authorization"));
+  });
+
+  test("should pass scripted upstream errors through", async () => {
+    fake.enqueue({ path: "/v1/messages", status: 400, error: { type: "invalid_request_error", message: "max_tokens is required" } });
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.type).toBe("invalid_request_error");
+    expect(fake.requests.filter((r) => r.path === "/v1/messages")).toHaveLength(1);
+  });
+
+  test("should refresh an expired token before proxying", async () => {
+    const original = fake.lastIssuedTokens()!;
+    await pool.query(
+      "UPDATE oauth_tokens SET expires_at = $1 WHERE user_id = (SELECT id FROM users WHERE email = $2)",
+      [Date.now() - 60 * 1000, email]
+    );
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(200);
+    const refresh = fake.requests.find((r) => r.body?.grant_type === "refresh_token")!;
+    expect(refresh.body.refresh_token).toBe(original.refresh_token);
+    const upstream = fake.requests.find((r) => r.path === "/v1/messages")!;
+    expect(upstream.headers.get("authorization")).toBe(`Bearer ${fake.lastIssuedTokens()!.access_token}`);
+  });
+
+  test("should surface a revoked Claude connection", async () => {
+    fake.revokeAccessToken(fake.lastIssuedTokens()!.access_token);
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(401);
+    const status = await (await api("/api/claude/status")).json();
+    expect(status.connected).toBe(false);
+    expect(status.health).toBe("revoked");
+  });
+
+  test("should return 504 when the upstream is too slow", async () => {
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url, apiTimeoutMs: 50 });
+    fake.enqueue({ path: "/v1/messages", delayMs: 300 });
+
+    const response = await proxy("/v1/messages", message());
+
+    expect(response.status).toBe(504);
+    expect((await response.json()).error.type).toBe("timeout_error");
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { rotateApiKey } from "../src/keys";
+import { configureUpstream } from "../src/upstream";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Key invitations", () => {
+  let ownerId: string;
+  let inviteeId: string;
+  let inviteeEmail: string;
+  let keyId: string;
+  let fake: FakeAnthropic;
+  const originalTtl = process.env.INVITATION_TTL_DAYS;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    ownerId = randomUUID();
+    inviteeId = randomUUID();
+    inviteeEmail = `invitee-${inviteeId}@example.com`;
+    keyId = `invite-key-${randomUUID()}`;
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [ownerId, `owner-${ownerId}@example.com`, "hash"]);
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [inviteeId, inviteeEmail, "hash"]);
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, ownerId, `hash-${keyId}`, "sk-test", "Shared"]
+    );
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    if (originalTtl === undefined) {
+      delete process.env.INVITATION_TTL_DAYS;
+    } else {
+      process.env.INVITATION_TTL_DAYS = originalTtl;
+    }
+    await pool.query("DELETE FROM users WHERE id IN ($1, $2)", [ownerId, inviteeId]);
+  });
+
+  function request(path: string, options: { method?: string; body?: unknown; as?: string } = {}) {
+    const userId = options.as ?? ownerId;
+    const token = jwt.sign({ userId }, JWT_SECRET);
+    return app.request(path, {
+      method: options.method || "GET",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  async function invite() {
+    const response = await request(`/api/keys/${keyId}/assign`, { method: "POST", body: { email: inviteeEmail } });
+    expect(response.status).toBe(200);
+    return invitationToken();
+  }
+
+  async function invitationToken() {
+    const result = await pool.query("SELECT invitation_token FROM api_keys WHERE id = $1", [keyId]);
+    return result.rows[0].invitation_token as string | null;
+  }
+
+  async function assignment() {
+    const result = await pool.query(
+      "SELECT assignment_status, assigned_to_email, assigned_to_user_id, invitation_token, invitation_expires_at FROM api_keys WHERE id = $1",
+      [keyId]
+    );
+    return result.rows[0];
+  }
+
+  async function pendingInvitations() {
+    return (await (await request("/api/keys/list", { as: inviteeId })).json()).pending_invitations;
+  }
+
+  async function eventActions() {
+    const page = await (await request(`/api/keys/${keyId}/events`)).json();
+    return page.events.map((event: any) => event.action);
+  }
+
+  test("should expire invitations after INVITATION_TTL_DAYS", async () => {
+    process.env.INVITATION_TTL_DAYS = "2";
+    const before = Date.now();
+    const token = await invite();
+
+    const [pending] = await pendingInvitations();
+    expect(pending.invitation_token).toBe(token);
+    expect(pending.expires_at).toBeGreaterThanOrEqual(before + 2 * DAY_MS);
+    expect(pending.expires_at).toBeLessThan(before + 2 * DAY_MS + 60 * 1000);
+
+    await pool.query("UPDATE api_keys SET invitation_expires_at = $1 WHERE id = $2", [Date.now() - 1000, keyId]);
+
+    expect(await pendingInvitations()).toEqual([]);
+    const accepted = await request(`/api/keys/accept-invitation/${token}`, { method: "POST", as: inviteeId });
+    expect(accepted.status).toBe(400);
+    expect((await accepted.json()).error).toBe("Invalid or expired invitation");
+
+    // The owner still sees it, with its expiry
+    const owned = (await (await request("/api/keys/list")).json()).owned;
+    expect(owned[0]).toMatchObject({ assignment_status: "pending", assigned_to_email: inviteeEmail });
+    expect(owned[0].invitation_expires_at).toBeLessThan(Date.now());
+  });
+
+  test("should resend an expired invitation with a new link", async () => {
+    const oldToken = await invite();
+    await pool.query("UPDATE api_keys SET invitation_expires_at = $1 WHERE id = $2", [Date.now() - 1000, keyId]);
+
+    const resent = await request(`/api/keys/${keyId}/invitation/resend`, { method: "POST" });
+    expect(resent.status).toBe(200);
+    expect((await resent.json()).expires_at).toBeGreaterThan(Date.now() + 6 * DAY_MS);
+
+    const newToken = await invitationToken();
+    expect(newToken).not.toBe(oldToken);
+    expect((await request(`/api/keys/accept-invitation/${oldToken}`, { method: "POST", as: inviteeId })).status).toBe(400);
+    expect((await request(`/api/keys/accept-invitation/${newToken}`, { method: "POST", as: inviteeId })).status).toBe(200);
+
+    // Only pending invitations can be resent
+    const again = await request(`/api/keys/${keyId}/invitation/resend`, { method: "POST" });
+    expect(again.status).toBe(400);
+    expect((await again.json()).error).toBe("This key has no pending invitation");
+
+    expect(await eventActions()).toEqual(["invitation_accepted", "invitation_resent", "invitation_sent"]);
+  });
+
+  test("should let the invitee decline", async () => {
+    const token = await invite();
+
+    // Only the invited address can decline
+    expect((await request(`/api/keys/decline-invitation/${token}`, { method: "POST" })).status).toBe(400);
+
+    const declined = await request(`/api/keys/decline-invitation/${token}`, { method: "POST", as: inviteeId });
+    expect(declined.status).toBe(200);
+
+    expect(await assignment()).toEqual({
+      assignment_status: "unassigned",
+      assigned_to_email: null,
+      assigned_to_user_id: null,
+      invitation_token: null,
+      invitation_expires_at: null,
+    });
+    expect(await pendingInvitations()).toEqual([]);
+    expect((await request(`/api/keys/accept-invitation/${token}`, { method: "POST", as: inviteeId })).status).toBe(400);
+
+    const page = await (await request(`/api/keys/${keyId}/events`)).json();
+    expect(page.events[0]).toMatchObject({ action: "invitation_declined", actor_user_id: inviteeId, actor_email: inviteeEmail, email: inviteeEmail });
+  });
+
+  test("should let the owner cancel a pending invitation", async () => {
+    const token = await invite();
+
+    const cancelled = await request(`/api/keys/${keyId}/assignment`, { method: "DELETE" });
+    expect(cancelled.status).toBe(200);
+    expect((await cancelled.json()).key).toBeUndefined();
+
+    expect((await assignment()).assignment_status).toBe("unassigned");
+    expect((await request(`/api/keys/accept-invitation/${token}`, { method: "POST", as: inviteeId })).status).toBe(400);
+    expect(await eventActions()).toEqual(["invitation_cancelled", "invitation_sent"]);
+
+    // The key can be assigned again
+    await invite();
+    expect((await assignment()).assignment_status).toBe("pending");
+  });
+
+  function proxyWith(apiKey: string) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-sonnet-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  test("should revoke an accepted assignee's access", async () => {
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+    await pool.query(
+      "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at) VALUES ($1, 'access', 'refresh', $2)",
+      [ownerId, Date.now() + 60 * 60 * 1000]
+    );
+    // The value the owner shared with the assignee
+    const shared = (await rotateApiKey(keyId, ownerId)).key!;
+    const token = await invite();
+    await request(`/api/keys/accept-invitation/${token}`, { method: "POST", as: inviteeId });
+    expect((await request(`/api/keys/${keyId}/requests`, { as: inviteeId })).status).toBe(200);
+    expect((await proxyWith(shared)).status).toBe(200);
+
+    // Only the owner can unassign
+    const byAssignee = await request(`/api/keys/${keyId}/assignment`, { method: "DELETE", as: inviteeId });
+    expect(byAssignee.status).toBe(400);
+
+    const revoked = await request(`/api/keys/${keyId}/assignment`, { method: "DELETE" });
+    expect(revoked.status).toBe(200);
+    const { key: rotated } = await revoked.json();
+    expect(rotated).toMatch(/^sk-proj-/);
+
+    // The shared value no longer works; the owner's new one does
+    expect((await proxyWith(shared)).status).toBe(401);
+    expect((await proxyWith(rotated)).status).toBe(200);
+    expect((await request(`/api/keys/${keyId}/requests`, { as: inviteeId })).status).toBe(404);
+    expect((await (await request("/api/keys/list", { as: inviteeId })).json()).assigned).toEqual([]);
+    expect(await eventActions()).toEqual(["assignment_revoked", "invitation_accepted", "invitation_sent"]);
+
+    const again = await request(`/api/keys/${keyId}/assignment`, { method: "DELETE" });
+    expect(again.status).toBe(400);
+    expect((await again.json()).error).toBe("This key is not assigned");
+  });
+
+  test("should only show a key's history to its owner", async () => {
+    await invite();
+
+    expect((await request(`/api/keys/${keyId}/events`, { as: inviteeId })).status).toBe(404);
+
+    const page = await (await request(`/api/keys/${keyId}/events?limit=1`)).json();
+    expect(page.events).toEqual([
+      expect.objectContaining({ key_id: keyId, action: "invitation_sent", actor_user_id: ownerId, email: inviteeEmail }),
+    ]);
+    expect(page.next_cursor).toBeNull();
+  });
+
+  test("should reject an out-of-range history cursor", async () => {
+    const response = await request(`/api/keys/${keyId}/events?cursor=99999999999`);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("cursor must be at most 2147483647");
+  });
+});
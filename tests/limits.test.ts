@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { getModelWeight, calculateCreditsUsed, PLAN_LIMITS, PlanLimits, PlanType } from "../src/limits";
+import { getModelWeight, calculateCreditsUsed, getModelFamily, isModelAllowed, getDeniedModels, PLAN_LIMITS, PlanLimits, PlanType } from "../src/limits";
 
 describe("Limits Module", () => {
   describe("getModelWeight", () => {
@@ -171,6 +171,36 @@ describe("Limits Module", () => {
     });
   });
 
+  describe("Model access", () => {
+    test("getModelFamily should detect model families case-insensitively", () => {
+      expect(getModelFamily("claude-opus-4-20250514")).toBe("opus");
+      expect(getModelFamily("Claude-Sonnet-4.5")).toBe("sonnet");
+      expect(getModelFamily("claude-3-5-haiku-latest")).toBe("haiku");
+      expect(getModelFamily("gpt-4")).toBeNull();
+    });
+
+    test("free plan should deny opus and allow haiku and sonnet", () => {
+      expect(isModelAllowed("claude-opus-4-20250514", "free")).toBe(false);
+      expect(isModelAllowed("claude-sonnet-4-20250514", "free")).toBe(true);
+      expect(isModelAllowed("claude-haiku-4-20250514", "free")).toBe(true);
+    });
+
+    test("paid plans should allow every model family", () => {
+      for (const plan of ["pro", "max-5x", "max-20x"] as PlanType[]) {
+        expect(isModelAllowed("claude-opus-4-20250514", plan)).toBe(true);
+        expect(getDeniedModels(plan)).toEqual([]);
+      }
+    });
+
+    test("unrecognised models should be left to the upstream API", () => {
+      expect(isModelAllowed("claude-unknown-model", "free")).toBe(true);
+    });
+
+    test("getDeniedModels should list families missing from the plan", () => {
+      expect(getDeniedModels("free")).toEqual(["opus"]);
+    });
+  });
+
   describe("Edge Cases", () => {
     test("should handle null or undefined model gracefully", () => {
       // TypeScript should prevent this, but just in case
@@ -0,0 +1,145 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { ensureValidToken } from "../src/oauth";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, deleteTestUsers } from "./support/fixtures";
+
+const METRICS_TOKEN = "test-metrics-token";
+
+describe("Prometheus metrics", () => {
+  let fake: FakeAnthropic;
+  let userId: string;
+  let keyId: string;
+  let apiKey: string;
+  const originalToken = process.env.METRICS_TOKEN;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    process.env.METRICS_TOKEN = METRICS_TOKEN;
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    ({ userId, keyId, apiKey } = await createProxyFixture("metrics", { planType: "max-5x" }));
+  });
+
+  afterEach(async () => {
+    if (originalToken === undefined) {
+      delete process.env.METRICS_TOKEN;
+    } else {
+      process.env.METRICS_TOKEN = originalToken;
+    }
+    configureUpstream();
+    await deleteTestUsers(userId);
+  });
+
+  async function scrape(): Promise<string> {
+    const response = await app.request("/metrics", { headers: { Authorization: `Bearer ${METRICS_TOKEN}` } });
+    expect(response.status).toBe(200);
+    return response.text();
+  }
+
+  // Value of one sample, e.g. metric(text, 'claude_proxy_credits_total{plan="pro"}'); 0 if absent
+  function metric(text: string, sample: string): number {
+    const line = text.split("\n").find((l) => l.startsWith(`${sample} `));
+    return line ? Number(line.slice(sample.length + 1)) : 0;
+  }
+
+  function proxy(model: string) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model, max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  test("should be disabled without METRICS_TOKEN", async () => {
+    delete process.env.METRICS_TOKEN;
+
+    const response = await app.request("/metrics");
+
+    expect(response.status).toBe(404);
+  });
+
+  test("should require the bearer token", async () => {
+    expect((await app.request("/metrics")).status).toBe(401);
+    expect((await app.request("/metrics", { headers: { Authorization: "Bearer wrong" } })).status).toBe(401);
+
+    const response = await app.request("/metrics", { headers: { Authorization: `Bearer ${METRICS_TOKEN}` } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/plain");
+  });
+
+  test("should expose DB pool utilisation", async () => {
+    const text = await scrape();
+
+    expect(text).toContain("# TYPE claude_proxy_db_pool_connections gauge");
+    expect(text).toMatch(/claude_proxy_db_pool_connections\{state="idle"\} \d+/);
+    expect(metric(text, "claude_proxy_db_pool_max_connections")).toBeGreaterThan(0);
+  });
+
+  test("should count proxied requests, latency, tokens and credits", async () => {
+    fake.enqueue({ path: "/v1/messages", usage: { input_tokens: 100, output_tokens: 20 } });
+    const before = await scrape();
+
+    expect((await proxy("claude-sonnet-4-20250514")).status).toBe(200);
+    const after = await scrape();
+
+    const requests = 'claude_proxy_requests_total{route="/v1/messages",status="200",model="sonnet"}';
+    expect(metric(after, requests) - metric(before, requests)).toBe(1);
+
+    const durations = 'claude_proxy_request_duration_seconds_count{route="/v1/messages"}';
+    expect(metric(after, durations) - metric(before, durations)).toBe(1);
+
+    const input = 'claude_proxy_tokens_total{plan="max-5x",type="input"}';
+    expect(metric(after, input) - metric(before, input)).toBe(100);
+    const credits = 'claude_proxy_credits_total{plan="max-5x"}';
+    expect(metric(after, credits) - metric(before, credits)).toBeGreaterThan(0);
+  });
+
+  test("should count upstream errors", async () => {
+    fake.enqueue({ path: "/v1/messages", status: 400, error: { type: "invalid_request_error", message: "bad" } });
+    const errors = 'claude_proxy_upstream_errors_total{status="400",error_type="invalid_request_error"}';
+    const failed = 'claude_proxy_upstream_attempts_total{outcome="failed"}';
+    const before = await scrape();
+
+    await proxy("claude-sonnet-4-20250514");
+
+    const after = await scrape();
+    expect(metric(after, errors) - metric(before, errors)).toBe(1);
+    expect(metric(after, failed) - metric(before, failed)).toBe(1);
+  });
+
+  test("should count quota rejections", async () => {
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, Date.now(), "claude-sonnet-4-20250514", 1, 100_000_000]
+    );
+    const sample = 'claude_proxy_quota_rejections_total{plan="max-5x"}';
+    const before = await scrape();
+
+    expect((await proxy("claude-sonnet-4-20250514")).status).toBe(429);
+
+    expect(metric(await scrape(), sample) - metric(before, sample)).toBe(1);
+  });
+
+  test("should count OAuth refresh outcomes", async () => {
+    await pool.query("UPDATE oauth_tokens SET expires_at = $1 WHERE user_id = $2", [Date.now() - 1000, userId]);
+    fake.revokeRefreshToken("owner-refresh");
+    const sample = 'claude_proxy_oauth_refresh_total{outcome="revoked"}';
+    const before = await scrape();
+
+    await ensureValidToken(userId);
+
+    expect(metric(await scrape(), sample) - metric(before, sample)).toBe(1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { proxyToClaudeAPI, proxyToClaudeAPIGeneric } from "../src/proxy";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const JWT_SECRET = process.env.JWT_SECRET || "test-secret-key";
+
+describe("Plan model access enforcement", () => {
+  let testUserId: string;
+  let testKeyId: string;
+  let testApiKey: string;
+  let upstreamCalls: number;
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    testUserId = randomUUID();
+    testKeyId = `model-key-${randomUUID()}`;
+    testApiKey = legacyApiKey();
+    upstreamCalls = 0;
+
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+      [testUserId, `model-${testUserId}@example.com`, "hash", "free"]
+    );
+    await pool.query(
+      `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at)
+       VALUES ($1, $2, $3, $4)`,
+      [testUserId, "test-access-token", "test-refresh-token", Date.now() + 60 * 60 * 1000]
+    );
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+      [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey)]
+    );
+    await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+
+    global.fetch = (async () => {
+      upstreamCalls++;
+      return new Response(
+        JSON.stringify({ id: "msg_1", usage: { input_tokens: 1, output_tokens: 1 } }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      );
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+    await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+  });
+
+  function messagesRequest(model: string): Request {
+    return new Request("http://localhost:3000/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": testApiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model, max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  test("should reject opus on the free plan with a permission_error", async () => {
+    const response = await proxyToClaudeAPI(messagesRequest("claude-opus-4-20250514"));
+
+    expect(response.status).toBe(403);
+    const body = await response.json();
+    expect(body.error.type).toBe("permission_error");
+    expect(body.error.allowed_models).toEqual(["haiku", "sonnet"]);
+    expect(upstreamCalls).toBe(0);
+  });
+
+  test("should reject disallowed models on generic endpoints such as count_tokens", async () => {
+    const request = new Request("http://localhost:3000/v1/messages/count_tokens", {
+      method: "POST",
+      headers: { "x-api-key": testApiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-opus-4-20250514", messages: [{ role: "user", content: "Hi" }] }),
+    });
+
+    const response = await proxyToClaudeAPIGeneric(request, "/v1/messages/count_tokens", "POST");
+
+    expect(response.status).toBe(403);
+    expect(upstreamCalls).toBe(0);
+  });
+
+  test("should forward allowed models", async () => {
+    const response = await proxyToClaudeAPIGeneric(messagesRequest("claude-haiku-4-20250514"), "/v1/messages", "POST");
+
+    expect(response.status).toBe(200);
+    expect(upstreamCalls).toBe(1);
+  });
+
+  test("quota API should report allowed and denied models", async () => {
+    const token = jwt.sign({ userId: testUserId }, JWT_SECRET, { expiresIn: "1h" });
+
+    const response = await app.request(`/api/keys/${testKeyId}/quota`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.quota.models).toEqual({ allowed: ["haiku", "sonnet"], denied: ["opus"] });
+
+    const overview = await app.request("/api/quota/overview", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const overviewBody = await overview.json();
+    expect(overviewBody.overview.keys[0].deniedModels).toEqual(["opus"]);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import pool, { initializeDatabase } from "../src/db";
+import { configureChannels, signWebhookPayload } from "../src/channels";
+import { processOutbox } from "../src/outbox";
+import { notify, notifyQuotaThresholds } from "../src/notifications";
+import { assignKey } from "../src/keys";
+import { setConnectionHealth } from "../src/oauth";
+import { startSmtpSink, type SmtpSink } from "./support/smtp-sink";
+import { randomUUID } from "crypto";
+
+const SECRET = "webhook-test-secret";
+
+describe("Notification channels", () => {
+  let sink: SmtpSink;
+  let receiver: ReturnType<typeof Bun.serve>;
+  let received: Array<{ path: string; headers: Headers; body: string }>;
+  let failWebhooks: boolean;
+  let ownerId: string;
+  let ownerEmail: string;
+  let keyId: string;
+  const originalMaxAttempts = process.env.NOTIFY_MAX_ATTEMPTS;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    sink = await startSmtpSink();
+    receiver = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ path: new URL(request.url).pathname, headers: request.headers, body: await request.text() });
+        return new Response(failWebhooks ? "down" : "ok", { status: failWebhooks ? 500 : 200 });
+      },
+    });
+  });
+
+  afterAll(async () => {
+    receiver.stop(true);
+    await sink.stop();
+  });
+
+  beforeEach(async () => {
+    sink.reset();
+    received = [];
+    failWebhooks = false;
+    await pool.query("DELETE FROM notification_outbox");
+    configureChannels({
+      smtpUrl: sink.url,
+      smtpFrom: "Proxy <proxy@example.com>",
+      webhookUrls: [`http://localhost:${receiver.port}/hook`],
+      webhookSecret: SECRET,
+      slackWebhookUrl: `http://localhost:${receiver.port}/slack`,
+      publicBaseUrl: "https://proxy.example.com",
+    });
+
+    ownerId = randomUUID();
+    ownerEmail = `channels-${ownerId}@example.com`;
+    keyId = `channels-key-${randomUUID()}`;
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [ownerId, ownerEmail, "hash"]);
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, ownerId, `hash-${keyId}`, "sk-test", "Build bot"]
+    );
+  });
+
+  afterEach(async () => {
+    configureChannels();
+    if (originalMaxAttempts === undefined) {
+      delete process.env.NOTIFY_MAX_ATTEMPTS;
+    } else {
+      process.env.NOTIFY_MAX_ATTEMPTS = originalMaxAttempts;
+    }
+    await pool.query("DELETE FROM notification_outbox");
+    await pool.query("DELETE FROM users WHERE id = $1", [ownerId]);
+  });
+
+  async function outbox() {
+    const result = await pool.query("SELECT channel, recipient, status, attempts, last_error FROM notification_outbox ORDER BY id");
+    return result.rows;
+  }
+
+  test("should email an invitation to the invitee", async () => {
+    const invitee = `invitee-${randomUUID()}@example.com`;
+    expect((await assignKey(keyId, ownerId, invitee)).success).toBe(true);
+
+    expect(await processOutbox()).toEqual({ sent: 3, failed: 0 });
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]).toMatchObject({ from: "proxy@example.com", to: [invitee] });
+    expect(sink.messages[0].subject).toBe(`${ownerEmail} shared a Claude API key with you`);
+    const { rows: [{ invitation_token }] } = await pool.query("SELECT invitation_token FROM api_keys WHERE id = $1", [keyId]);
+    expect(sink.messages[0].raw.replace(/=\r\n/g, "").replace(/=3D/g, "=")).toContain(`https://proxy.example.com/dashboard?invitation=${invitation_token}`);
+    expect((await outbox()).map((row) => row.status)).toEqual(["sent", "sent", "sent"]);
+  });
+
+  test("should sign webhook deliveries and post Slack messages", async () => {
+    await notify({ type: "quota_threshold", keyId, subject: "Quota warning", message: "Build bot is at 80%", data: { threshold: 80 } });
+
+    await processOutbox();
+
+    const hook = received.find((r) => r.path === "/hook")!;
+    const timestamp = Number(hook.headers.get("x-webhook-timestamp"));
+    expect(hook.headers.get("x-webhook-signature")).toBe(`sha256=${signWebhookPayload(SECRET, timestamp, hook.body)}`);
+    expect(hook.headers.get("x-webhook-event")).toBe("quota_threshold");
+    expect(JSON.parse(hook.body)).toMatchObject({ event: "quota_threshold", subject: "Quota warning", data: { threshold: 80, keyId } });
+
+    const slack = received.find((r) => r.path === "/slack")!;
+    expect(JSON.parse(slack.body)).toEqual({ text: "*Quota warning*\nBuild bot is at 80%" });
+  });
+
+  test("should retry failed deliveries with backoff", async () => {
+    configureChannels({ smtpUrl: sink.url, webhookUrls: [], slackWebhookUrl: null });
+    sink.failNext();
+    await notify({ type: "quota_threshold", userIds: [ownerId], subject: "Quota warning", message: "At 80%" });
+
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 1 });
+    const [pending] = await outbox();
+    expect(pending).toMatchObject({ channel: "email", recipient: ownerEmail, status: "pending", attempts: 1 });
+    expect(pending.last_error).toContain("451");
+
+    // Not due yet
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 0 });
+
+    await pool.query("UPDATE notification_outbox SET next_attempt_at = $1", [Date.now()]);
+    expect(await processOutbox()).toEqual({ sent: 1, failed: 0 });
+    expect(sink.messages).toHaveLength(1);
+  });
+
+  test("should give up after NOTIFY_MAX_ATTEMPTS", async () => {
+    process.env.NOTIFY_MAX_ATTEMPTS = "2";
+    configureChannels({ webhookUrls: [`http://localhost:${receiver.port}/hook`], smtpUrl: null, slackWebhookUrl: null });
+    failWebhooks = true;
+    await notify({ type: "quota_threshold", subject: "Quota warning", message: "At 80%" });
+
+    await processOutbox();
+    await pool.query("UPDATE notification_outbox SET next_attempt_at = $1", [Date.now()]);
+    await processOutbox();
+
+    expect(await outbox()).toEqual([
+      expect.objectContaining({ status: "failed", attempts: 2, last_error: "Webhook responded with 500" }),
+    ]);
+  });
+
+  test("should email quota warnings to the owner and assignee", async () => {
+    const assigneeId = randomUUID();
+    const assigneeEmail = `channels-assignee-${assigneeId}@example.com`;
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [assigneeId, assigneeEmail, "hash"]);
+    await pool.query("UPDATE api_keys SET assigned_to_user_id = $1 WHERE id = $2", [assigneeId, keyId]);
+
+    try {
+      await notifyQuotaThresholds(keyId, [{ window: "5h", windowHours: 5, percentage: 82, thresholds: [80] }]);
+      await processOutbox();
+
+      expect(sink.messages.map((m) => m.to[0]).sort()).toEqual([ownerEmail, assigneeEmail].sort());
+      expect(sink.messages[0].subject).toBe("API key Build bot has used 82% of its 5h quota");
+    } finally {
+      await pool.query("DELETE FROM users WHERE id = $1", [assigneeId]);
+    }
+  });
+
+  test("should tell the owner once when a Claude account is revoked", async () => {
+    const account = await pool.query(
+      "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, label) VALUES ($1, 'a', 'r', $2, 'Work') RETURNING id",
+      [ownerId, Date.now() + 60 * 60 * 1000]
+    );
+    const accountId = account.rows[0].id;
+
+    await setConnectionHealth(accountId, "revoked", "invalid_grant");
+    await setConnectionHealth(accountId, "revoked", "invalid_grant");
+    await processOutbox();
+
+    expect(sink.messages).toHaveLength(1);
+    expect(sink.messages[0]).toMatchObject({ to: [ownerEmail], subject: "Work was disconnected" });
+    const inApp = await pool.query("SELECT type FROM notifications WHERE user_id = $1", [ownerId]);
+    expect(inApp.rows).toEqual([{ type: "oauth_disconnected" }]);
+  });
+
+  test("should queue nothing when no channel is configured", async () => {
+    configureChannels({ smtpUrl: null, webhookUrls: [], slackWebhookUrl: null });
+
+    await notify({ type: "quota_threshold", userIds: [ownerId], subject: "Quota warning", message: "At 80%" });
+
+    expect(await outbox()).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+
+const JWT_SECRET = process.env.JWT_SECRET || "test-secret-key";
+
+describe("Server-side OAuth PKCE state", () => {
+  let userId: string;
+  let otherUserId: string;
+  let tokenExchanges: Record<string, string>[];
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    userId = randomUUID();
+    otherUserId = randomUUID();
+    tokenExchanges = [];
+
+    for (const id of [userId, otherUserId]) {
+      await pool.query(
+        "INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)",
+        [id, `pkce-${id}@example.com`, "hash"]
+      );
+    }
+
+    global.fetch = (async (_url: string, options?: RequestInit) => {
+      tokenExchanges.push(JSON.parse(options!.body as string));
+      return new Response(
+        JSON.stringify({
+          access_token: "access",
+          refresh_token: "refresh",
+          expires_in: 3600,
+          account: { uuid: `uuid-${tokenExchanges.length}`, email_address: "claude@example.com" },
+        }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      );
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    // Pending authorizations and tokens are removed with the users
+    await pool.query("DELETE FROM users WHERE id = $1 OR id = $2", [userId, otherUserId]);
+  });
+
+  function authHeaders(id: string) {
+    const token = jwt.sign({ userId: id }, JWT_SECRET, { expiresIn: "1h" });
+    return { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+  }
+
+  async function startFlow(id: string): Promise<{ body: any; state: string }> {
+    const response = await app.request("/api/claude/connect", { headers: authHeaders(id) });
+    const body = await response.json();
+    const state = new URL(body.url).searchParams.get("state")!;
+    return { body, state };
+  }
+
+  function callback(id: string, code: string) {
+    return app.request("/api/claude/callback", {
+      method: "POST",
+      headers: authHeaders(id),
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  test("connect should not expose the verifier", async () => {
+    const { body, state } = await startFlow(userId);
+
+    expect(body.verifier).toBeUndefined();
+    expect(state).toBeTruthy();
+
+    const pending = await pool.query("SELECT * FROM oauth_pending_authorizations WHERE state = $1", [state]);
+    expect(pending.rows[0].user_id).toBe(userId);
+    expect(pending.rows[0].code_verifier).not.toBe(state);
+    expect(Number(pending.rows[0].expires_at)).toBeGreaterThan(Date.now());
+  });
+
+  test("callback should exchange the code with the stored verifier", async () => {
+    const { state } = await startFlow(userId);
+    const pending = await pool.query("SELECT code_verifier FROM oauth_pending_authorizations WHERE state = $1", [state]);
+
+    const response = await callback(userId, `auth-code#${state}`);
+
+    expect(response.status).toBe(200);
+    expect(tokenExchanges[0].code).toBe("auth-code");
+    expect(tokenExchanges[0].code_verifier).toBe(pending.rows[0].code_verifier);
+
+    const tokens = await pool.query("SELECT COUNT(*) FROM oauth_tokens WHERE user_id = $1", [userId]);
+    expect(Number(tokens.rows[0].count)).toBe(1);
+  });
+
+  test("a state should only be usable once", async () => {
+    const { state } = await startFlow(userId);
+
+    expect((await callback(userId, `auth-code#${state}`)).status).toBe(200);
+    expect((await callback(userId, `auth-code#${state}`)).status).toBe(400);
+    expect(tokenExchanges).toHaveLength(1);
+  });
+
+  test("another user cannot complete someone else's authorization", async () => {
+    const { state } = await startFlow(userId);
+
+    const response = await callback(otherUserId, `auth-code#${state}`);
+
+    expect(response.status).toBe(400);
+    expect(tokenExchanges).toHaveLength(0);
+    const tokens = await pool.query("SELECT COUNT(*) FROM oauth_tokens WHERE user_id = $1", [otherUserId]);
+    expect(Number(tokens.rows[0].count)).toBe(0);
+  });
+
+  test("expired authorizations should be rejected", async () => {
+    const { state } = await startFlow(userId);
+    await pool.query("UPDATE oauth_pending_authorizations SET expires_at = $1 WHERE state = $2", [Date.now() - 1, state]);
+
+    const response = await callback(userId, `auth-code#${state}`);
+
+    expect(response.status).toBe(400);
+    expect(tokenExchanges).toHaveLength(0);
+  });
+
+  test("a code without a state should use the user's latest pending authorization", async () => {
+    await startFlow(userId);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const { state } = await startFlow(userId);
+    const latest = await pool.query("SELECT code_verifier FROM oauth_pending_authorizations WHERE state = $1", [state]);
+
+    const response = await callback(userId, "auth-code");
+
+    expect(response.status).toBe(200);
+    expect(tokenExchanges[0].code_verifier).toBe(latest.rows[0].code_verifier);
+  });
+
+  test("callback should require a code", async () => {
+    const response = await app.request("/api/claude/callback", {
+      method: "POST",
+      headers: authHeaders(userId),
+      body: JSON.stringify({}),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
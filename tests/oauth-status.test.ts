@@ -46,7 +46,7 @@ describe("OAuth Status API Endpoint", () => {
       expect(data).toEqual({ connected: false });
     });
 
-    it("should return { connected: true } for user with OAuth", async () => {
+    it("should return { connected: true, health: \"healthy\" } for user with OAuth", async () => {
       // Add OAuth tokens for the user
       await pool.query(
         `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, updated_at)
@@ -63,7 +63,8 @@ describe("OAuth Status API Endpoint", () => {
 
       expect(response.status).toBe(200);
       const data = await response.json();
-      expect(data).toEqual({ connected: true });
+      expect(data).toMatchObject({ connected: true, health: "healthy", last_error: null, last_error_at: null });
+      expect(data.accounts).toHaveLength(1);
     });
 
     it("should return 401 without authentication", async () => {
@@ -0,0 +1,383 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { toAnthropicRequest, toOpenAIResponse, toOpenAIStream, toFinishReason } from "../src/openai";
+import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const encoder = new TextEncoder();
+
+function sse(events: object[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`event: ${(event as any).type}\ndata: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+}
+
+function parseChunks(text: string): any[] {
+  return text
+    .split("\n\n")
+    .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map((line) => JSON.parse(line.slice(6)));
+}
+
+describe("OpenAI Compatibility", () => {
+  describe("toAnthropicRequest", () => {
+    test("should move system and developer messages into the system prompt", () => {
+      const body = toAnthropicRequest({
+        model: "claude-sonnet-4-20250514",
+        messages: [
+          { role: "system", content: "You are terse." },
+          { role: "developer", content: [{ type: "text", text: "Answer in English." }] },
+          { role: "user", content: "Hi" },
+        ],
+      });
+
+      expect(body.system).toBe("You are terse.\n\nAnswer in English.");
+      expect(body.messages).toEqual([{ role: "user", content: "Hi" }]);
+      expect(body.max_tokens).toBe(4096);
+    });
+
+    test("should convert sampling options and stop sequences", () => {
+      const body = toAnthropicRequest({
+        model: "claude-sonnet-4-20250514",
+        messages: [{ role: "user", content: "Hi" }],
+        max_completion_tokens: 50,
+        temperature: 1.5,
+        top_p: 0.9,
+        stop: "END",
+        stream: true,
+      });
+
+      expect(body.max_tokens).toBe(50);
+      expect(body.temperature).toBe(1);
+      expect(body.top_p).toBe(0.9);
+      expect(body.stop_sequences).toEqual(["END"]);
+      expect(body.stream).toBe(true);
+    });
+
+    test("should convert image parts", () => {
+      const body = toAnthropicRequest({
+        model: "claude-sonnet-4-20250514",
+        messages: [{
+          role: "user",
+          content: [
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+            { type: "image_url", image_url: { url: "https://example.com/cat.jpg" } },
+          ],
+        }],
+      });
+
+      expect(body.messages[0].content).toEqual([
+        { type: "text", text: "What is this?" },
+        { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+        { type: "image", source: { type: "url", url: "https://example.com/cat.jpg" } },
+      ]);
+    });
+
+    test("should convert tools, tool choice, tool calls and tool results", () => {
+      const body = toAnthropicRequest({
+        model: "claude-sonnet-4-20250514",
+        messages: [
+          { role: "user", content: "Weather in Paris and Rome?" },
+          {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              { id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" } },
+              { id: "call_2", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Rome\"}" } },
+            ],
+          },
+          { role: "tool", tool_call_id: "call_1", content: "18C" },
+          { role: "tool", tool_call_id: "call_2", content: "24C" },
+        ],
+        tools: [{
+          type: "function",
+          function: { name: "get_weather", description: "Get weather", parameters: { type: "object", properties: { city: { type: "string" } } } },
+        }],
+        tool_choice: { type: "function", function: { name: "get_weather" } },
+      });
+
+      expect(body.tools).toEqual([{
+        name: "get_weather",
+        description: "Get weather",
+        input_schema: { type: "object", properties: { city: { type: "string" } } },
+      }]);
+      expect(body.tool_choice).toEqual({ type: "tool", name: "get_weather" });
+      expect(body.messages[1]).toEqual({
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "call_1", name: "get_weather", input: { city: "Paris" } },
+          { type: "tool_use", id: "call_2", name: "get_weather", input: { city: "Rome" } },
+        ],
+      });
+      // Both results are grouped into a single user turn
+      expect(body.messages.length).toBe(3);
+      expect(body.messages[2]).toEqual({
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: "18C" },
+          { type: "tool_result", tool_use_id: "call_2", content: "24C" },
+        ],
+      });
+    });
+
+    test("should drop assistant turns with neither text nor tool calls", () => {
+      const body = toAnthropicRequest({
+        model: "claude-sonnet-4-20250514",
+        messages: [
+          { role: "user", content: "Hi" },
+          { role: "assistant", content: null },
+          { role: "assistant", content: "", tool_calls: [] },
+          { role: "user", content: "Are you there?" },
+        ],
+      });
+
+      expect(body.messages).toEqual([
+        { role: "user", content: "Hi" },
+        { role: "user", content: "Are you there?" },
+      ]);
+    });
+
+    test("should map string tool choices", () => {
+      const base = { model: "claude-sonnet-4-20250514", messages: [{ role: "user" as const, content: "Hi" }] };
+      expect(toAnthropicRequest({ ...base, tool_choice: "auto" }).tool_choice).toEqual({ type: "auto" });
+      expect(toAnthropicRequest({ ...base, tool_choice: "required" }).tool_choice).toEqual({ type: "any" });
+      expect(toAnthropicRequest({ ...base, tool_choice: "none" }).tool_choice).toEqual({ type: "none" });
+    });
+  });
+
+  describe("toOpenAIResponse", () => {
+    test("should convert text, tool use, finish reason and usage", () => {
+      const response: any = toOpenAIResponse({
+        id: "msg_123",
+        model: "claude-sonnet-4-20250514",
+        content: [
+          { type: "text", text: "Checking." },
+          { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Paris" } },
+        ],
+        stop_reason: "tool_use",
+        usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 },
+      });
+
+      expect(response.object).toBe("chat.completion");
+      expect(response.id).toBe("chatcmpl-msg_123");
+      expect(response.choices[0].message.content).toBe("Checking.");
+      expect(response.choices[0].message.tool_calls).toEqual([
+        { id: "toolu_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" } },
+      ]);
+      expect(response.choices[0].finish_reason).toBe("tool_calls");
+      expect(response.usage).toEqual({ prompt_tokens: 150, completion_tokens: 20, total_tokens: 170 });
+    });
+
+    test("should map stop reasons", () => {
+      expect(toFinishReason("end_turn")).toBe("stop");
+      expect(toFinishReason("stop_sequence")).toBe("stop");
+      expect(toFinishReason("max_tokens")).toBe("length");
+      expect(toFinishReason("tool_use")).toBe("tool_calls");
+    });
+  });
+
+  describe("toOpenAIStream", () => {
+    test("should translate text and tool call deltas into chunks", async () => {
+      const stream = toOpenAIStream(sse([
+        { type: "message_start", message: { model: "claude-sonnet-4-20250514", usage: { input_tokens: 10, output_tokens: 1 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } },
+        { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_1", name: "lookup", input: {} } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "{\"q\":" } },
+        { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: "\"x\"}" } },
+        { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 7 } },
+        { type: "message_stop" },
+      ]), { model: "claude-sonnet-4-20250514", includeUsage: true });
+
+      const text = await new Response(stream).text();
+      expect(text.trim().endsWith("data: [DONE]")).toBe(true);
+
+      const chunks = parseChunks(text);
+      expect(chunks[0].choices[0].delta).toEqual({ role: "assistant", content: "" });
+
+      const content = chunks.map((c) => c.choices[0]?.delta?.content || "").join("");
+      expect(content).toBe("Hello");
+
+      const toolDeltas = chunks.flatMap((c) => c.choices[0]?.delta?.tool_calls || []);
+      expect(toolDeltas[0]).toMatchObject({ index: 0, id: "toolu_1", function: { name: "lookup" } });
+      expect(toolDeltas.map((d: any) => d.function.arguments).join("")).toBe("{\"q\":\"x\"}");
+
+      const finalChoice = chunks.filter((c) => c.choices.length > 0).pop();
+      expect(finalChoice.choices[0].finish_reason).toBe("tool_calls");
+
+      const usageChunk = chunks[chunks.length - 1];
+      expect(usageChunk.choices).toEqual([]);
+      expect(usageChunk.usage).toEqual({ prompt_tokens: 10, completion_tokens: 7, total_tokens: 17 });
+    });
+  });
+
+  describe("POST /v1/chat/completions", () => {
+    let testUserId: string;
+    let testKeyId: string;
+    let testApiKey: string;
+    let upstreamBody: any;
+    let upstreamResponse: () => Response;
+    const originalFetch = global.fetch;
+
+    beforeAll(async () => {
+      await initializeDatabase();
+    });
+
+    beforeEach(async () => {
+      testUserId = randomUUID();
+      testKeyId = `openai-key-${randomUUID()}`;
+      testApiKey = legacyApiKey();
+      upstreamBody = null;
+
+      await pool.query(
+        "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+        [testUserId, `openai-${testUserId}@example.com`, "hash", "pro"]
+      );
+      await pool.query(
+        `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [testUserId, "test-access-token", "test-refresh-token", Date.now() + 60 * 60 * 1000]
+      );
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+        [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey)]
+      );
+      await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+
+      global.fetch = (async (_url: string, options?: RequestInit) => {
+        upstreamBody = JSON.parse(String(options?.body));
+        return upstreamResponse();
+      }) as unknown as typeof fetch;
+    });
+
+    afterEach(async () => {
+      global.fetch = originalFetch;
+      await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+      await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+    });
+
+    test("should return an OpenAI-shaped completion and record usage", async () => {
+      upstreamResponse = () => new Response(JSON.stringify({
+        id: "msg_abc",
+        model: "claude-sonnet-4-20250514",
+        content: [{ type: "text", text: "Hi there" }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 12, output_tokens: 3 },
+      }), { status: 200, headers: { "content-type": "application/json" } });
+
+      const response = await app.request("/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${testApiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: "claude-sonnet-4-20250514",
+          messages: [{ role: "system", content: "Be nice" }, { role: "user", content: "Hello" }],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("X-RateLimit-Limit")).toBe("10000000");
+
+      const body = await response.json();
+      expect(body.choices[0].message).toEqual({ role: "assistant", content: "Hi there" });
+      expect(body.usage.total_tokens).toBe(15);
+      expect(upstreamBody.system).toBe("Be nice");
+
+      const history = await pool.query("SELECT * FROM api_key_usage_history WHERE key_id = $1", [testKeyId]);
+      expect(history.rows.length).toBe(1);
+      expect(Number(history.rows[0].total_tokens)).toBe(15);
+    });
+
+    test("should stream OpenAI chunks and record usage when the stream ends", async () => {
+      upstreamResponse = () => new Response(sse([
+        { type: "message_start", message: { model: "claude-sonnet-4-20250514", usage: { input_tokens: 8, output_tokens: 1 } } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Yo" } },
+        { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 2 } },
+        { type: "message_stop" },
+      ]), { status: 200, headers: { "content-type": "text/event-stream" } });
+
+      const response = await app.request("/v1/chat/completions", {
+        method: "POST",
+        headers: { "x-api-key": testApiKey, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: "claude-sonnet-4-20250514",
+          stream: true,
+          messages: [{ role: "user", content: "Hello" }],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/event-stream");
+
+      const text = await response.text();
+      expect(parseChunks(text).map((c) => c.choices[0]?.delta?.content || "").join("")).toBe("Yo");
+      expect(upstreamBody.stream).toBe(true);
+
+      await Bun.sleep(50);
+      const history = await pool.query("SELECT * FROM api_key_usage_history WHERE key_id = $1", [testKeyId]);
+      expect(history.rows.length).toBe(1);
+      expect(Number(history.rows[0].output_tokens)).toBe(2);
+    });
+
+    test("should return OpenAI-shaped errors when the quota is exceeded", async () => {
+      await pool.query(
+        `INSERT INTO api_key_usage_history (key_id, model, credits_used, timestamp)
+         VALUES ($1, $2, $3, $4)`,
+        [testKeyId, "claude-sonnet-4-20250514", 10_000_000, Date.now()]
+      );
+
+      const response = await app.request("/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${testApiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "claude-sonnet-4-20250514", messages: [{ role: "user", content: "Hello" }] }),
+      });
+
+      expect(response.status).toBe(429);
+      const body = await response.json();
+      expect(body.error.code).toBe("rate_limit_exceeded");
+      expect(body.error.type).toBe("rate_limit_error");
+      expect(upstreamBody).toBeNull();
+    });
+
+    test("should reject requests without messages", async () => {
+      const response = await app.request("/v1/chat/completions", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${testApiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "claude-sonnet-4-20250514" }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error.type).toBe("invalid_request_error");
+    });
+
+    test("should reject malformed message entries", async () => {
+      const invalid = [
+        [null],
+        ["Hi"],
+        [{ role: "user", content: "Hi" }, { content: "no role" }],
+        [{ role: "user", content: [null] }],
+        [{ role: "assistant", tool_calls: [{ id: "call_1" }] }],
+      ];
+      for (const messages of invalid) {
+        const response = await app.request("/v1/chat/completions", {
+          method: "POST",
+          headers: { Authorization: `Bearer ${testApiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ model: "claude-sonnet-4-20250514", messages }),
+        });
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error.type).toBe("invalid_request_error");
+      }
+      expect(upstreamBody).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { loadPlans, refreshPlans, invalidatePlanCache, saveModelWeight } from "../src/plans";
+import { PLAN_LIMITS, DEFAULT_PLAN_LIMITS, DEFAULT_MODEL_WEIGHTS, getModelWeight, calculateCreditsUsed } from "../src/limits";
+import { updateUserPlan } from "../src/keys";
+import { checkQuotaLimit } from "../src/quota";
+import { createProxyFixture } from "./support/fixtures";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+describe("Plans and model weights", () => {
+  let adminEmail: string;
+  let adminId: string;
+  let userId: string;
+  let planName: string;
+  const originalAdmins = process.env.ADMIN_EMAILS;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    adminId = randomUUID();
+    userId = randomUUID();
+    adminEmail = `plans-admin-${adminId}@example.com`;
+    planName = `contractor-${randomUUID().slice(0, 8)}`;
+    process.env.ADMIN_EMAILS = `someone@example.com, ${adminEmail.toUpperCase()}`;
+
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [adminId, adminEmail, "hash"]);
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [userId, `plans-user-${userId}@example.com`, "hash"]);
+  });
+
+  afterEach(async () => {
+    if (originalAdmins === undefined) {
+      delete process.env.ADMIN_EMAILS;
+    } else {
+      process.env.ADMIN_EMAILS = originalAdmins;
+    }
+    await pool.query("DELETE FROM users WHERE id IN ($1, $2)", [adminId, userId]);
+    await pool.query("DELETE FROM plans WHERE name = $1", [planName]);
+    for (const [family, weight] of Object.entries(DEFAULT_MODEL_WEIGHTS)) {
+      await saveModelWeight(family, weight);
+    }
+    await loadPlans();
+  });
+
+  function request(path: string, options: { method?: string; body?: unknown; asAdmin?: boolean } = {}) {
+    const token = options.asAdmin === false
+      ? jwt.sign({ userId, email: `plans-user-${userId}@example.com` }, JWT_SECRET)
+      : jwt.sign({ userId: adminId, email: adminEmail }, JWT_SECRET);
+    return app.request(path, {
+      method: options.method || "GET",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  const contractorPlan = {
+    creditsPerWindow: 2_000_000,
+    windowHours: 8,
+    weeklyWindows: [{ name: "7d", windowHours: 168, credits: 20_000_000 }],
+    allowedModels: ["haiku", "sonnet"],
+  };
+
+  test("should seed the built-in plans and weights", async () => {
+    const plans = await pool.query("SELECT name, credits_per_window FROM plans WHERE name = ANY($1)", [Object.keys(DEFAULT_PLAN_LIMITS)]);
+    expect(plans.rows).toHaveLength(4);
+
+    const weights = await pool.query("SELECT family, weight FROM model_weights");
+    expect(Object.fromEntries(weights.rows.map((r) => [r.family, r.weight]))).toEqual(DEFAULT_MODEL_WEIGHTS);
+  });
+
+  test("should restrict admin endpoints to ADMIN_EMAILS", async () => {
+    expect((await request("/api/admin/plans", { asAdmin: false })).status).toBe(403);
+
+    const response = await request("/api/admin/plans");
+    expect(response.status).toBe(200);
+    const { plans } = await response.json();
+    expect(plans.find((p: any) => p.name === "pro")).toMatchObject({ creditsPerWindow: 10_000_000, builtIn: true });
+  });
+
+  test("should create a custom plan that users can be put on", async () => {
+    const response = await request(`/api/admin/plans/${planName}`, { method: "PUT", body: contractorPlan });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).plan).toMatchObject({ name: planName, builtIn: false, ...contractorPlan });
+    expect(PLAN_LIMITS[planName].creditsPerWindow).toBe(2_000_000);
+
+    expect((await updateUserPlan(userId, planName)).success).toBe(true);
+    const plan = await request("/api/user/plan", { asAdmin: false });
+    expect((await plan.json()).availablePlans).toContain(planName);
+  });
+
+  test("should reject invalid plans", async () => {
+    const invalid = [
+      { ...contractorPlan, creditsPerWindow: -1 },
+      { ...contractorPlan, allowedModels: ["gpt"] },
+      { ...contractorPlan, weeklyWindows: [{ name: "7d", windowHours: 168 }] },
+    ];
+    for (const body of invalid) {
+      expect((await request(`/api/admin/plans/${planName}`, { method: "PUT", body })).status).toBe(400);
+    }
+    expect((await request("/api/admin/plans/Bad Name", { method: "PUT", body: contractorPlan })).status).toBe(400);
+    expect(PLAN_LIMITS[planName]).toBeUndefined();
+  });
+
+  test("should only delete plans nobody is on", async () => {
+    await request(`/api/admin/plans/${planName}`, { method: "PUT", body: contractorPlan });
+    await updateUserPlan(userId, planName);
+
+    expect((await request(`/api/admin/plans/${planName}`, { method: "DELETE" })).status).toBe(409);
+
+    await updateUserPlan(userId, "pro");
+    expect((await request(`/api/admin/plans/${planName}`, { method: "DELETE" })).status).toBe(200);
+    expect(PLAN_LIMITS[planName]).toBeUndefined();
+    expect((await updateUserPlan(userId, planName)).success).toBe(false);
+
+    expect((await request("/api/admin/plans/pro", { method: "DELETE" })).status).toBe(400);
+  });
+
+  test("should hold users on a plan that no longer exists to the default plan", async () => {
+    const { keyId } = await createProxyFixture("plans", { userId });
+    await request(`/api/admin/plans/${planName}`, { method: "PUT", body: contractorPlan });
+    await updateUserPlan(userId, planName);
+    // Removed behind the API's back, e.g. by another instance or by hand
+    await pool.query("DELETE FROM plans WHERE name = $1", [planName]);
+    await loadPlans();
+
+    const quotaCheck = await checkQuotaLimit(keyId, planName);
+    expect(quotaCheck.allowed).toBe(true);
+    expect(quotaCheck.windows[0].planCredits).toBe(PLAN_LIMITS.pro.creditsPerWindow);
+
+    const response = await request(`/api/keys/${keyId}/quota`, { asAdmin: false });
+    expect(response.status).toBe(200);
+  });
+
+  test("should apply model weight changes to credit calculations", async () => {
+    const response = await request("/api/admin/model-weights/opus", { method: "PUT", body: { weight: 3 } });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).weights.opus).toBe(3);
+    expect(getModelWeight("claude-opus-4-20250514")).toBe(3);
+    expect(calculateCreditsUsed("claude-opus-4-20250514", 100)).toBe(300);
+
+    expect((await request("/api/admin/model-weights/opus", { method: "PUT", body: { weight: 0 } })).status).toBe(400);
+    expect((await request("/api/admin/model-weights/gpt", { method: "PUT", body: { weight: 1 } })).status).toBe(400);
+  });
+
+  test("should pick up changes made by another instance once the cache is invalidated", async () => {
+    await loadPlans();
+    await pool.query("UPDATE model_weights SET weight = 0.5 WHERE family = 'haiku'");
+
+    await refreshPlans();
+    expect(getModelWeight("claude-haiku-4-20250514")).toBe(0.25);
+
+    invalidatePlanCache();
+    await refreshPlans();
+    expect(getModelWeight("claude-haiku-4-20250514")).toBe(0.5);
+  });
+});
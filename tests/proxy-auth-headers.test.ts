@@ -0,0 +1,137 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import pool from "../src/db";
+import { extractApiKey, proxyToClaudeAPI, proxyToClaudeAPIGeneric } from "../src/proxy";
+import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+describe("Proxy API key headers", () => {
+  describe("extractApiKey", () => {
+    test("should read Authorization: Bearer", () => {
+      const request = new Request("http://localhost/v1/messages", {
+        headers: { authorization: "Bearer sk-proj-abc" },
+      });
+      expect(extractApiKey(request)).toBe("sk-proj-abc");
+    });
+
+    test("should read x-api-key", () => {
+      const request = new Request("http://localhost/v1/messages", {
+        headers: { "x-api-key": "sk-proj-xyz" },
+      });
+      expect(extractApiKey(request)).toBe("sk-proj-xyz");
+    });
+
+    test("should prefer Authorization when both headers are present", () => {
+      const request = new Request("http://localhost/v1/messages", {
+        headers: { authorization: "Bearer sk-proj-abc", "x-api-key": "sk-proj-xyz" },
+      });
+      expect(extractApiKey(request)).toBe("sk-proj-abc");
+    });
+
+    test("should fall back to x-api-key when Authorization is not a bearer token", () => {
+      const request = new Request("http://localhost/v1/messages", {
+        headers: { authorization: "Basic Zm9vOmJhcg==", "x-api-key": "sk-proj-xyz" },
+      });
+      expect(extractApiKey(request)).toBe("sk-proj-xyz");
+    });
+
+    test("should return null when no key is present", () => {
+      expect(extractApiKey(new Request("http://localhost/v1/messages"))).toBeNull();
+      expect(extractApiKey(new Request("http://localhost/v1/messages", {
+        headers: { "x-api-key": "   " },
+      }))).toBeNull();
+    });
+  });
+
+  describe("Proxy integration", () => {
+    let testUserId: string;
+    let testKeyId: string;
+    let testApiKey: string;
+    let forwardedHeaders: Headers | null;
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+      testUserId = randomUUID();
+      testKeyId = `headers-key-${randomUUID()}`;
+      testApiKey = legacyApiKey();
+      forwardedHeaders = null;
+
+      await pool.query(
+        "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+        [testUserId, `headers-${testUserId}@example.com`, "hash", "pro"]
+      );
+      await pool.query(
+        `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [testUserId, "owner-oauth-token", "owner-refresh-token", Date.now() + 60 * 60 * 1000]
+      );
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix) VALUES ($1, $2, $3, $4)",
+        [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey)]
+      );
+      await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+
+      global.fetch = (async (_url: string, options?: RequestInit) => {
+        forwardedHeaders = new Headers(options?.headers);
+        return new Response(
+          JSON.stringify({ id: "msg_1", usage: { input_tokens: 1, output_tokens: 1 } }),
+          { status: 200, headers: { "content-type": "application/json" } }
+        );
+      }) as unknown as typeof fetch;
+    });
+
+    afterEach(async () => {
+      global.fetch = originalFetch;
+      await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+      await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+    });
+
+    function messagesRequest(headers: Record<string, string>): Request {
+      return new Request("http://localhost:3000/v1/messages", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify({
+          model: "claude-haiku-4-20250514",
+          max_tokens: 16,
+          messages: [{ role: "user", content: "Hi" }],
+        }),
+      });
+    }
+
+    test("proxyToClaudeAPI should authenticate with x-api-key", async () => {
+      const response = await proxyToClaudeAPI(messagesRequest({ "x-api-key": testApiKey }));
+
+      expect(response.status).toBe(200);
+      expect(forwardedHeaders!.get("authorization")).toBe("Bearer owner-oauth-token");
+      expect(forwardedHeaders!.get("x-api-key")).toBeNull();
+    });
+
+    test("proxyToClaudeAPIGeneric should authenticate with x-api-key and strip it upstream", async () => {
+      const response = await proxyToClaudeAPIGeneric(
+        messagesRequest({ "x-api-key": testApiKey, "anthropic-beta": "custom-beta" }),
+        "/v1/messages",
+        "POST"
+      );
+
+      expect(response.status).toBe(200);
+      expect(forwardedHeaders!.get("authorization")).toBe("Bearer owner-oauth-token");
+      expect(forwardedHeaders!.get("x-api-key")).toBeNull();
+      expect(forwardedHeaders!.get("anthropic-beta")).toBe("custom-beta");
+    });
+
+    test("should return 401 when neither header is present", async () => {
+      const response = await proxyToClaudeAPIGeneric(messagesRequest({}), "/v1/messages", "POST");
+
+      expect(response.status).toBe(401);
+      expect(forwardedHeaders).toBeNull();
+    });
+
+    test("should return 401 for an invalid x-api-key", async () => {
+      const response = await proxyToClaudeAPI(messagesRequest({ "x-api-key": "sk-proj-not-a-key" }));
+
+      expect(response.status).toBe(401);
+      expect(forwardedHeaders).toBeNull();
+    });
+  });
+});
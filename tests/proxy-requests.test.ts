@@ -0,0 +1,150 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, createTestUser, deleteTestUsers } from "./support/fixtures";
+import jwt from "jsonwebtoken";
+
+const JWT_SECRET = process.env.JWT_SECRET || "test-secret-key";
+
+describe("Proxy request log", () => {
+  let fake: FakeAnthropic;
+  let ownerId: string;
+  let memberId: string;
+  let keyId: string;
+  let apiKey: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    ({ userId: ownerId, keyId, apiKey } = await createProxyFixture("requests"));
+    memberId = await createTestUser("requests");
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    await deleteTestUsers(ownerId, memberId);
+  });
+
+  function proxy(body: Record<string, unknown>) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: JSON.stringify({ max_tokens: 16, messages: [{ role: "user", content: "Hi" }], ...body }),
+    });
+  }
+
+  function listRequests(userId: string, query = "") {
+    const token = jwt.sign({ userId }, JWT_SECRET, { expiresIn: "1h" });
+    return app.request(`/api/keys/${keyId}/requests${query}`, { headers: { Authorization: `Bearer ${token}` } });
+  }
+
+  async function loggedRequests() {
+    const result = await pool.query("SELECT * FROM proxy_requests WHERE key_id = $1 ORDER BY id", [keyId]);
+    return result.rows;
+  }
+
+  test("should log a successful request with latency and upstream request id", async () => {
+    const response = await proxy({ model: "claude-haiku-4-20250514" });
+    expect(response.status).toBe(200);
+
+    const [row] = await loggedRequests();
+    expect(row).toMatchObject({
+      path: "/v1/messages",
+      method: "POST",
+      model: "claude-haiku-4-20250514",
+      status: 200,
+      stream: false,
+      error_type: null,
+    });
+    expect(row.upstream_request_id).toMatch(/^req_fake_/);
+    expect(row.ttfb_ms).toBeGreaterThanOrEqual(0);
+    expect(row.duration_ms).toBeGreaterThanOrEqual(row.ttfb_ms);
+  });
+
+  test("should log a stream once the client has read it", async () => {
+    const response = await proxy({ model: "claude-haiku-4-20250514", stream: true });
+    expect(await loggedRequests()).toHaveLength(0);
+
+    await response.text();
+
+    const [row] = await loggedRequests();
+    expect(row.stream).toBe(true);
+    expect(row.status).toBe(200);
+    expect(row.ttfb_ms).not.toBeNull();
+  });
+
+  test("should log upstream errors with their type and message", async () => {
+    fake.enqueue({ path: "/v1/messages", status: 400, error: { type: "invalid_request_error", message: "messages: too short" } });
+
+    await proxy({ model: "claude-haiku-4-20250514" });
+
+    const [row] = await loggedRequests();
+    expect(row.status).toBe(400);
+    expect(row.error_type).toBe("invalid_request_error");
+    expect(row.error_message).toBe("messages: too short");
+  });
+
+  test("should log requests the proxy rejects itself", async () => {
+    await pool.query("UPDATE users SET plan_type = 'free' WHERE id = $1", [ownerId]);
+
+    const response = await proxy({ model: "claude-opus-4-20250514" });
+    expect(response.status).toBe(403);
+
+    const [row] = await loggedRequests();
+    expect(row.status).toBe(403);
+    expect(row.error_type).toBe("permission_error");
+    expect(row.ttfb_ms).toBeNull();
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  test("should paginate newest first", async () => {
+    for (let i = 0; i < 3; i++) {
+      await proxy({ model: "claude-haiku-4-20250514" });
+    }
+    const ids = (await loggedRequests()).map((row) => row.id).reverse();
+
+    const first = await (await listRequests(ownerId, "?limit=2")).json();
+    expect(first.requests.map((r: any) => r.id)).toEqual(ids.slice(0, 2));
+    expect(first.next_cursor).toBe(ids[1]);
+
+    const second = await (await listRequests(ownerId, `?limit=2&cursor=${first.next_cursor}`)).json();
+    expect(second.requests.map((r: any) => r.id)).toEqual(ids.slice(2));
+    expect(second.next_cursor).toBeNull();
+  });
+
+  test("should reject an out-of-range page query", async () => {
+    for (const query of ["?cursor=99999999999", "?cursor=-1", "?limit=abc"]) {
+      const response = await listRequests(ownerId, query);
+      expect(response.status).toBe(400);
+    }
+    const last = await (await listRequests(ownerId, "?cursor=2147483647")).json();
+    expect(last.requests).toEqual([]);
+  });
+
+  test("assigned users can read the log, other users cannot", async () => {
+    await proxy({ model: "claude-haiku-4-20250514" });
+
+    expect((await listRequests(memberId)).status).toBe(404);
+
+    await pool.query("UPDATE api_keys SET assigned_to_user_id = $1 WHERE id = $2", [memberId, keyId]);
+    const response = await listRequests(memberId);
+    expect(response.status).toBe(200);
+    expect((await response.json()).requests).toHaveLength(1);
+  });
+
+  test("should reject invalid pagination parameters", async () => {
+    expect((await listRequests(ownerId, "?limit=abc")).status).toBe(400);
+  });
+});
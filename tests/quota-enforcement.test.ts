@@ -8,11 +8,13 @@ import pool from "../src/db";
 import { proxyToClaudeAPI } from "../src/proxy";
 import { PLAN_LIMITS } from "../src/limits";
 import bcrypt from "bcryptjs";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
 
 describe("Quota Enforcement - Proxy Integration", () => {
   let testUserId: string;
   let testKeyId: string;
   let testApiKey: string;
+  const originalFetch = global.fetch;
 
   beforeEach(async () => {
     // Create test user
@@ -30,17 +32,18 @@ describe("Quota Enforcement - Proxy Integration", () => {
     );
 
     // Create test API key with proper bcrypt hash
-    testApiKey = `sk-test-${Date.now()}`;
+    testApiKey = legacyApiKey();
     testKeyId = `quota-key-${Date.now()}`;
     const keyHash = await bcrypt.hash(testApiKey, 10);
 
     await pool.query(
       "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name, plan_type, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7)",
-      [testKeyId, testUserId, keyHash, "sk-test", "Quota Enforcement Test Key", "free", Math.floor(Date.now() / 1000)] // Start with free plan for easier limit testing
+      [testKeyId, testUserId, keyHash, legacyKeyPrefix(testApiKey), "Quota Enforcement Test Key", "free", Math.floor(Date.now() / 1000)] // Start with free plan for easier limit testing
     );
   });
 
   afterEach(async () => {
+    global.fetch = originalFetch;
     // Clean up test data
     await pool.query("DELETE FROM api_key_usage_history WHERE key_id = $1", [testKeyId]);
     await pool.query("DELETE FROM api_key_usage WHERE key_id = $1", [testKeyId]);
@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { checkQuotaLimit } from "../src/quota";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+describe("Owner-level quota pool", () => {
+  let ownerId: string;
+  let keyA: string;
+  let keyB: string;
+  let apiKeyB: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    ownerId = randomUUID();
+    keyA = `pool-key-a-${randomUUID()}`;
+    keyB = `pool-key-b-${randomUUID()}`;
+    apiKeyB = legacyApiKey();
+
+    await pool.query("INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, 'pro')", [ownerId, `pool-${ownerId}@example.com`, "hash"]);
+    await pool.query(
+      "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at) VALUES ($1, $2, $3, $4)",
+      [ownerId, "access", "refresh", Date.now() + 60 * 60 * 1000]
+    );
+    for (const [id, secret] of [[keyA, legacyApiKey()], [keyB, apiKeyB]]) {
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name) VALUES ($1, $2, $3, $4, $5)",
+        [id, ownerId, await bcrypt.hash(secret, 4), legacyKeyPrefix(secret), id]
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await pool.query("DELETE FROM api_keys WHERE user_id = $1", [ownerId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [ownerId]);
+  });
+
+  async function addUsage(keyId: string, credits: number) {
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, Date.now() - 60 * 1000, "claude-sonnet-4-20250514", credits, credits]
+    );
+  }
+
+  test("should reject a key within its share once the owner's pool is exhausted", async () => {
+    await addUsage(keyA, 6_000_000);
+    await addUsage(keyB, 4_000_000);
+
+    const result = await checkQuotaLimit(keyB, "pro", "claude-sonnet-4-20250514");
+
+    expect(result.windows[0].percentages.isOverLimit).toBe(false);
+    expect(result.pool[0].usage.currentCredits).toBe(10_000_000);
+    expect(result.allowed).toBe(false);
+    expect(result.exceededWindow?.scope).toBe("pool");
+    expect(result.reason).toContain("owner's shared pro plan limit");
+  });
+
+  test("should reject a key that used up its share while the pool has room", async () => {
+    await pool.query("UPDATE api_keys SET quota_percentage = 30 WHERE id = $1", [keyB]);
+    await addUsage(keyB, 3_000_000);
+
+    const result = await checkQuotaLimit(keyB, "pro", "claude-sonnet-4-20250514");
+
+    expect(result.allowed).toBe(false);
+    expect(result.exceededWindow?.scope).toBe("key");
+    expect(result.reason).toContain("30% of pro plan limit");
+    expect(result.pool[0].percentages.creditPercentage).toBe(30);
+  });
+
+  test("should allow keys while both their share and the pool have room", async () => {
+    await addUsage(keyA, 3_000_000);
+    await addUsage(keyB, 3_000_000);
+
+    const result = await checkQuotaLimit(keyB, "pro", "claude-sonnet-4-20250514");
+
+    expect(result.allowed).toBe(true);
+    expect(result.pool[0].percentages.creditPercentage).toBe(60);
+  });
+
+  test("should report the pool on a proxied 429", async () => {
+    await addUsage(keyA, 10_000_000);
+
+    const response = await app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKeyB, "content-type": "application/json" },
+      body: JSON.stringify({ model: "claude-sonnet-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+
+    expect(response.status).toBe(429);
+    expect((await response.json()).error.quota_exceeded).toMatchObject({ window: "5h", scope: "pool" });
+  });
+
+  test("should show pool totals in the overview and key quota", async () => {
+    await pool.query("UPDATE api_keys SET quota_percentage = 50 WHERE id = $1", [keyA]);
+    await addUsage(keyA, 2_000_000);
+    await addUsage(keyB, 3_000_000);
+    const authorization = `Bearer ${jwt.sign({ userId: ownerId, email: `pool-${ownerId}@example.com` }, JWT_SECRET)}`;
+
+    const overview = (await (await app.request("/api/quota/overview", { headers: { authorization } })).json()).overview;
+
+    expect(overview.overallPercentage).toBe(50);
+    expect(overview.pool).toMatchObject({ plan: "pro", credits: 5_000_000, planCredits: 10_000_000, percentage: 50, isOverLimit: false });
+    expect(overview.pool.windows.map((w: any) => w.name)).toEqual(["5h", "7d", "7d_opus"]);
+    const shareA = overview.keys.find((k: any) => k.keyId === keyA);
+    expect(shareA).toMatchObject({ quotaPercentage: 50, percentage: 40 });
+
+    const quota = (await (await app.request(`/api/keys/${keyA}/quota`, { headers: { authorization } })).json()).quota;
+    expect(quota.pool[0]).toMatchObject({ name: "5h", credits: 5_000_000, percentage: 50 });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { reserveQuota, releaseReservation, checkQuotaLimit, estimateRequestTokens } from "../src/quota";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, deleteTestUsers } from "./support/fixtures";
+
+const SONNET = "claude-sonnet-4-20250514";
+
+describe("Quota reservations", () => {
+  describe("estimateRequestTokens()", () => {
+    test("should add max_tokens to the prompt size", () => {
+      const body = { model: SONNET, max_tokens: 1000, messages: [{ role: "user", content: "x".repeat(4000) }] };
+
+      const estimate = estimateRequestTokens(body);
+
+      expect(estimate).toBeGreaterThan(2000);
+      expect(estimate).toBeLessThan(2050);
+    });
+
+    test("should count base64 attachments at a flat rate", () => {
+      const image = { type: "image", source: { type: "base64", media_type: "image/png", data: "A".repeat(1_000_000) } };
+      const body = { max_tokens: 10, messages: [{ role: "user", content: [image, { type: "text", text: "What is this?" }] }] };
+
+      expect(estimateRequestTokens(body)).toBeLessThan(2000);
+    });
+  });
+
+  describe("with a key", () => {
+    let fake: FakeAnthropic;
+    let userId: string;
+    let keyId: string;
+    let apiKey: string;
+
+    beforeAll(async () => {
+      await initializeDatabase();
+      fake = startFakeAnthropic();
+    });
+
+    afterAll(() => {
+      fake.stop();
+    });
+
+    beforeEach(async () => {
+      fake.reset();
+      configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+      ({ userId, keyId, apiKey } = await createProxyFixture("reservation"));
+    });
+
+    afterEach(async () => {
+      configureUpstream();
+      await deleteTestUsers(userId);
+    });
+
+    async function addUsage(credits: number) {
+      await pool.query(
+        "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, $4, $5)",
+        [keyId, Date.now() - 60 * 1000, SONNET, credits, credits]
+      );
+    }
+
+    async function reservations(): Promise<number> {
+      const result = await pool.query("SELECT COUNT(*) FROM quota_reservations WHERE key_id = $1", [keyId]);
+      return Number(result.rows[0].count);
+    }
+
+    function proxy(body: Record<string, unknown>) {
+      return app.request("/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": apiKey, "content-type": "application/json" },
+        body: JSON.stringify({ model: SONNET, max_tokens: 16, messages: [{ role: "user", content: "Hi" }], ...body }),
+      });
+    }
+
+    test("should count reserved credits until they are released", async () => {
+      const result = await reserveQuota(keyId, "pro", SONNET, 4_000_000);
+      expect(result.allowed).toBe(true);
+      expect(result.reservationId).toBeDefined();
+
+      const during = await checkQuotaLimit(keyId, "pro", SONNET);
+      expect(during.usage.currentCredits).toBe(0);
+      expect(during.usage.reservedCredits).toBe(4_000_000);
+      expect(during.percentages.creditPercentage).toBe(40);
+
+      await releaseReservation(result.reservationId!);
+      expect((await checkQuotaLimit(keyId, "pro", SONNET)).usage.reservedCredits).toBe(0);
+    });
+
+    test("should reject a request whose estimate exceeds the room left", async () => {
+      await addUsage(9_900_000);
+
+      const result = await reserveQuota(keyId, "pro", "claude-opus-4-20250514", 200_000);
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain("may need up to 1000000 credits");
+      expect(result.reservationId).toBeUndefined();
+      expect(await reservations()).toBe(0);
+    });
+
+    test("should let a request larger than a whole window run on a fresh window", async () => {
+      await pool.query("UPDATE users SET plan_type = 'free' WHERE id = $1", [userId]);
+
+      const result = await reserveQuota(keyId, "free", SONNET, 32_000);
+
+      expect(result.allowed).toBe(true);
+    });
+
+    test("should not let concurrent requests overshoot the window", async () => {
+      await addUsage(5_000_000);
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => reserveQuota(keyId, "pro", SONNET, 1_000_000))
+      );
+
+      expect(results.filter((r) => r.allowed)).toHaveLength(5);
+      expect(await reservations()).toBe(5);
+    });
+
+    test("should ignore expired reservations", async () => {
+      await pool.query(
+        "INSERT INTO quota_reservations (key_id, model, credits, created_at, expires_at) VALUES ($1, $2, $3, $4, $5)",
+        [keyId, SONNET, 10_000_000, Date.now() - 60 * 60 * 1000, Date.now() - 1000]
+      );
+
+      expect((await reserveQuota(keyId, "pro", SONNET, 1000)).allowed).toBe(true);
+    });
+
+    test("should settle the reservation when a proxied response finishes", async () => {
+      fake.enqueue({ path: "/v1/messages", usage: { input_tokens: 10, output_tokens: 5 } });
+
+      const response = await proxy({ max_tokens: 4096 });
+
+      expect(response.status).toBe(200);
+      expect(await reservations()).toBe(0);
+      const history = await pool.query("SELECT credits_used FROM api_key_usage_history WHERE key_id = $1", [keyId]);
+      expect(Number(history.rows[0].credits_used)).toBe(15);
+    });
+
+    test("should hold the reservation while a stream is in flight", async () => {
+      const response = await proxy({ stream: true, max_tokens: 4096 });
+      expect(await reservations()).toBe(1);
+
+      await response.text();
+
+      expect(await reservations()).toBe(0);
+    });
+
+    test("should release the reservation when the upstream call fails", async () => {
+      fake.enqueue({ path: "/v1/messages", status: 400, error: { type: "invalid_request_error", message: "bad" } });
+
+      expect((await proxy({})).status).toBe(400);
+
+      expect(await reservations()).toBe(0);
+    });
+
+    test("should reject a proxied request that would overshoot with 429", async () => {
+      await addUsage(9_999_000);
+
+      const response = await proxy({ max_tokens: 8192 });
+
+      expect(response.status).toBe(429);
+      expect(fake.requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { checkQuotaLimit } from "../src/quota";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, createTestUser, deleteTestUsers } from "./support/fixtures";
+import jwt from "jsonwebtoken";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+const SONNET = "claude-sonnet-4-20250514";
+
+describe("Quota warning thresholds", () => {
+  let fake: FakeAnthropic;
+  let ownerId: string;
+  let assigneeId: string;
+  let keyId: string;
+  let apiKey: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    assigneeId = await createTestUser("warning");
+    ({ userId: ownerId, keyId, apiKey } = await createProxyFixture("warning", { keyName: "CI key", assignedToUserId: assigneeId }));
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    await deleteTestUsers(ownerId, assigneeId);
+  });
+
+  function request(path: string, options: { method?: string; body?: unknown; as?: string } = {}) {
+    const userId = options.as ?? ownerId;
+    const token = jwt.sign({ userId, email: `warning-${userId}@example.com` }, JWT_SECRET);
+    return app.request(path, {
+      method: options.method || "GET",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  function proxy(body: Record<string, unknown> = {}) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model: SONNET, max_tokens: 16, messages: [{ role: "user", content: "Hi" }], ...body }),
+    });
+  }
+
+  async function addUsage(credits: number) {
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, Date.now() - 60 * 1000, SONNET, credits, credits]
+    );
+  }
+
+  async function notificationsOf(userId: string) {
+    const result = await pool.query("SELECT data FROM notifications WHERE user_id = $1 AND key_id = $2 ORDER BY id", [userId, keyId]);
+    return result.rows.map((row) => row.data);
+  }
+
+  // Threshold notifications are sent after the response, so wait for them to land
+  async function waitForNotifications(userId: string, count: number) {
+    let notifications = await notificationsOf(userId);
+    for (let i = 0; i < 40 && notifications.length < count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 25));
+      notifications = await notificationsOf(userId);
+    }
+    return notifications;
+  }
+
+  test("should not warn below the lowest threshold", async () => {
+    await addUsage(7_000_000);
+
+    const response = await proxy();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-quota-warning")).toBeNull();
+    expect((await response.json()).warnings).toBeUndefined();
+    expect(await notificationsOf(ownerId)).toEqual([]);
+  });
+
+  test("should warn in headers and body once a threshold is reached", async () => {
+    await addUsage(8_100_000);
+
+    const response = await proxy();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-quota-warning")).toBe("5h quota window at 81% (warning threshold 80%)");
+    const body = await response.json();
+    expect(body.warnings).toEqual([{ type: "quota_warning", message: "5h quota window at 81% (warning threshold 80%)" }]);
+    expect(body.content).toBeDefined();
+  });
+
+  test("should warn on streaming responses", async () => {
+    await addUsage(8_100_000);
+
+    const response = await proxy({ stream: true });
+    const text = await response.text();
+
+    expect(response.headers.get("x-quota-warning")).toContain("warning threshold 80%");
+    expect(text.startsWith(
+      'event: quota_warning\ndata: {"type":"quota_warning","message":"5h quota window at 81% (warning threshold 80%)"}\n\n'
+    )).toBe(true);
+    expect(text).toContain("event: message_stop");
+  });
+
+  test("should notify the owner and assignee once per threshold and window", async () => {
+    await addUsage(8_100_000);
+
+    await proxy();
+    await proxy();
+
+    expect(await waitForNotifications(ownerId, 1)).toEqual([{ window: "5h", threshold: 80, percentage: 81 }]);
+    expect(await waitForNotifications(assigneeId, 1)).toHaveLength(1);
+
+    await addUsage(1_500_000);
+    await proxy();
+    expect((await waitForNotifications(ownerId, 2)).map((n) => n.threshold)).toEqual([80, 95]);
+  });
+
+  test("should only send the highest threshold reached at once", async () => {
+    await addUsage(9_600_000);
+
+    await proxy();
+
+    expect(await waitForNotifications(ownerId, 1)).toEqual([{ window: "5h", threshold: 95, percentage: 96 }]);
+    const events = await pool.query("SELECT threshold FROM quota_threshold_events WHERE key_id = $1 ORDER BY threshold", [keyId]);
+    expect(events.rows.map((row) => row.threshold)).toEqual([80, 95]);
+  });
+
+  test("should fire again once the window has rolled over", async () => {
+    await addUsage(8_100_000);
+    await proxy();
+    await waitForNotifications(ownerId, 1);
+    await pool.query("UPDATE quota_threshold_events SET fired_at = $1 WHERE key_id = $2", [Date.now() - 6 * 60 * 60 * 1000, keyId]);
+
+    await proxy();
+
+    expect(await waitForNotifications(ownerId, 2)).toHaveLength(2);
+  });
+
+  test("should use the key's own thresholds", async () => {
+    const invalid = [[0], [101], [50.5], "80", Array.from({ length: 11 }, (_, i) => i + 1)];
+    for (const thresholds of invalid) {
+      expect((await request(`/api/keys/${keyId}/warning-thresholds`, { method: "PATCH", body: { thresholds } })).status).toBe(400);
+    }
+    expect((await request(`/api/keys/${keyId}/warning-thresholds`, { method: "PATCH", body: { thresholds: [90, 50, 50] }, as: assigneeId })).status).toBe(400);
+
+    expect((await request(`/api/keys/${keyId}/warning-thresholds`, { method: "PATCH", body: { thresholds: [90, 50, 50] } })).status).toBe(200);
+    await addUsage(5_500_000);
+
+    const result = await checkQuotaLimit(keyId, "pro", SONNET);
+    expect(result.warnings).toEqual([{ window: "5h", windowHours: 5, percentage: 55, thresholds: [50] }]);
+    const quota = (await (await request(`/api/keys/${keyId}/quota`)).json()).quota;
+    expect(quota.warningThresholds).toEqual([50, 90]);
+
+    await request(`/api/keys/${keyId}/warning-thresholds`, { method: "PATCH", body: { thresholds: [] } });
+    expect((await checkQuotaLimit(keyId, "pro", SONNET)).warnings).toEqual([]);
+  });
+
+  test("should list and mark notifications as read", async () => {
+    await addUsage(8_100_000);
+    await proxy();
+    await waitForNotifications(assigneeId, 1);
+
+    const { notifications } = await (await request("/api/notifications?unread=true", { as: assigneeId })).json();
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ type: "quota_threshold", keyId, readAt: null });
+    expect(notifications[0].message).toContain("CI key has used 81% of its 5h quota");
+
+    expect((await request(`/api/notifications/${notifications[0].id}/read`, { method: "POST" })).status).toBe(404);
+    expect((await request(`/api/notifications/${notifications[0].id}/read`, { method: "POST", as: assigneeId })).status).toBe(200);
+
+    expect((await (await request("/api/notifications?unread=true", { as: assigneeId })).json()).notifications).toEqual([]);
+    expect((await (await request("/api/notifications", { as: assigneeId })).json()).notifications).toHaveLength(1);
+  });
+});
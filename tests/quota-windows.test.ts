@@ -0,0 +1,141 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { checkQuotaLimit } from "../src/quota";
+import { getQuotaWindows } from "../src/limits";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, deleteTestUsers } from "./support/fixtures";
+import jwt from "jsonwebtoken";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("Concurrent quota windows", () => {
+  let fake: FakeAnthropic;
+  let userId: string;
+  let keyId: string;
+  let apiKey: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(() => {
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    ({ userId, keyId, apiKey } = await createProxyFixture("windows"));
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    await deleteTestUsers(userId);
+  });
+
+  async function addUsage(model: string, credits: number, timestamp: number) {
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, timestamp, model, credits, credits]
+    );
+  }
+
+  function proxy(model: string) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json" },
+      body: JSON.stringify({ model, max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+    });
+  }
+
+  test("should list the primary window followed by the weekly caps", () => {
+    expect(getQuotaWindows("pro").map((w) => w.name)).toEqual(["5h", "7d", "7d_opus"]);
+    expect(getQuotaWindows("free").map((w) => w.name)).toEqual(["24h"]);
+  });
+
+  test("should block on the weekly window when the 5-hour window has room", async () => {
+    const usedAt = Date.now() - 2 * DAY_MS;
+    await addUsage("claude-sonnet-4-20250514", 100_000_000, usedAt);
+
+    const result = await checkQuotaLimit(keyId, "pro", "claude-sonnet-4-20250514");
+
+    expect(result.allowed).toBe(false);
+    expect(result.exceededWindow?.name).toBe("7d");
+    expect(result.reason).toContain("pro plan 7d limit");
+    expect(result.resetTime.getTime()).toBe(usedAt + 7 * DAY_MS);
+    expect(result.windows.find((w) => w.name === "5h")?.percentages.isOverLimit).toBe(false);
+  });
+
+  test("should report the weekly reset time on a proxied 429", async () => {
+    await addUsage("claude-sonnet-4-20250514", 100_000_000, Date.now() - 2 * DAY_MS);
+
+    const response = await proxy("claude-sonnet-4-20250514");
+    const body = await response.json();
+
+    expect(response.status).toBe(429);
+    expect(body.error.quota_exceeded.window).toBe("7d");
+    expect(response.headers.get("X-RateLimit-Limit")).toBe("100000000");
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(4 * 24 * 60 * 60);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  test("should apply the weekly Opus cap to Opus requests only", async () => {
+    await addUsage("claude-opus-4-20250514", 20_000_000, Date.now() - DAY_MS);
+
+    const opus = await proxy("claude-opus-4-20250514");
+    expect(opus.status).toBe(429);
+    expect((await opus.json()).error.quota_exceeded.window).toBe("7d_opus");
+
+    const sonnet = await proxy("claude-sonnet-4-20250514");
+    expect(sonnet.status).toBe(200);
+  });
+
+  test("should scale every window by the key's quota percentage", async () => {
+    await pool.query("UPDATE api_keys SET quota_percentage = 10 WHERE id = $1", [keyId]);
+    await addUsage("claude-sonnet-4-20250514", 10_000_000, Date.now() - 2 * DAY_MS);
+
+    const result = await checkQuotaLimit(keyId, "pro", "claude-sonnet-4-20250514");
+
+    expect(result.allowed).toBe(false);
+    expect(result.exceededWindow?.effectiveCredits).toBe(10_000_000);
+    expect(result.reason).toContain("10% of pro plan 7d limit");
+  });
+
+  test("should report the key's share of the primary window in rate limit headers", async () => {
+    await pool.query("UPDATE api_keys SET quota_percentage = 10 WHERE id = $1", [keyId]);
+    await addUsage("claude-sonnet-4-20250514", 200_000, Date.now() - 60 * 60 * 1000);
+
+    const response = await proxy("claude-sonnet-4-20250514");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-RateLimit-Limit")).toBe("1000000");
+    expect(response.headers.get("X-RateLimit-Remaining")).toBe("800000");
+    expect(response.headers.get("X-Quota-Percentage")).toBe("20.00");
+  });
+
+  test("should report each window's usage and reset time from the quota endpoint", async () => {
+    const opusAt = Date.now() - 3 * DAY_MS;
+    await addUsage("claude-opus-4-20250514", 5_000_000, opusAt);
+    await addUsage("claude-sonnet-4-20250514", 1_000_000, Date.now() - 60 * 60 * 1000);
+    const token = jwt.sign({ userId, email: `windows-${userId}@example.com` }, JWT_SECRET, { expiresIn: "1h" });
+
+    const response = await app.request(`/api/keys/${keyId}/quota`, { headers: { Authorization: `Bearer ${token}` } });
+    const { quota } = await response.json();
+
+    expect(response.status).toBe(200);
+    const windows = Object.fromEntries(quota.windows.map((w: any) => [w.name, w]));
+    expect(windows["5h"].credits).toBe(1_000_000);
+    expect(windows["5h"].percentage).toBe(10);
+    expect(windows["7d"].credits).toBe(6_000_000);
+    expect(windows["7d_opus"].credits).toBe(5_000_000);
+    expect(windows["7d_opus"].models).toEqual(["opus"]);
+    expect(windows["7d_opus"].percentage).toBe(25);
+    expect(windows["7d_opus"].nextResetAt).toBe(new Date(opusAt + 7 * DAY_MS).toISOString());
+    expect(quota.percentages.overall).toBe(25);
+  });
+});
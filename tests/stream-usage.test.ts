@@ -0,0 +1,211 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import pool from "../src/db";
+import { proxyToClaudeAPIGeneric } from "../src/proxy";
+import { SSEParser, StreamUsage, trackStreamUsage } from "../src/stream";
+import bcrypt from "bcryptjs";
+import { randomUUID } from "crypto";
+import { legacyApiKey, legacyKeyPrefix } from "./support/fixtures";
+
+const encoder = new TextEncoder();
+
+function sseEvent(type: string, data: object): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+const MESSAGE_START = sseEvent("message_start", {
+  message: {
+    id: "msg_stream",
+    model: "claude-opus-4-20250514",
+    usage: { input_tokens: 1200, output_tokens: 1, cache_creation_input_tokens: 300, cache_read_input_tokens: 50 },
+  },
+});
+const CONTENT_DELTA = sseEvent("content_block_delta", { index: 0, delta: { type: "text_delta", text: "Hello" } });
+const MESSAGE_DELTA = sseEvent("message_delta", { delta: { stop_reason: "end_turn" }, usage: { output_tokens: 420 } });
+const MESSAGE_STOP = sseEvent("message_stop", {});
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+describe("SSE Usage Tracking", () => {
+  describe("SSEParser", () => {
+    test("should parse events split across chunk boundaries", () => {
+      const parser = new SSEParser();
+      const full = MESSAGE_START + MESSAGE_DELTA;
+
+      const events = [
+        ...parser.push(full.slice(0, 17)),
+        ...parser.push(full.slice(17, 90)),
+        ...parser.push(full.slice(90)),
+      ];
+
+      expect(events.length).toBe(2);
+      expect(events[0].event).toBe("message_start");
+      expect(events[1].event).toBe("message_delta");
+      expect(JSON.parse(events[1].data).usage.output_tokens).toBe(420);
+    });
+
+    test("should handle CRLF line endings", () => {
+      const parser = new SSEParser();
+      const events = parser.push(MESSAGE_STOP.replace(/\n/g, "\r\n"));
+
+      expect(events.length).toBe(1);
+      expect(events[0].event).toBe("message_stop");
+    });
+  });
+
+  describe("trackStreamUsage", () => {
+    test("should pass bytes through unchanged and report final usage", async () => {
+      let reported: StreamUsage | null = null;
+      let calls = 0;
+
+      const chunks = [MESSAGE_START, CONTENT_DELTA, MESSAGE_DELTA, MESSAGE_STOP];
+      const tracked = trackStreamUsage(streamOf(chunks), (usage) => {
+        calls++;
+        reported = usage;
+      });
+
+      const text = await new Response(tracked).text();
+
+      expect(text).toBe(chunks.join(""));
+      expect(calls).toBe(1);
+      expect(reported).toEqual({
+        model: "claude-opus-4-20250514",
+        input_tokens: 1200,
+        output_tokens: 420,
+        cache_creation_input_tokens: 300,
+        cache_read_input_tokens: 50,
+      });
+    });
+
+    test("should report null when no usage events were seen", async () => {
+      let reported: StreamUsage | null | undefined = undefined;
+      const tracked = trackStreamUsage(streamOf([CONTENT_DELTA]), (usage) => {
+        reported = usage;
+      });
+
+      await new Response(tracked).text();
+
+      expect(reported).toBeNull();
+    });
+
+    test("should report partial usage once when the client cancels mid-stream", async () => {
+      let calls = 0;
+      let reported: StreamUsage | null = null;
+      let upstreamCancelled = false;
+
+      // Upstream sends the start event and then stalls
+      const upstream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(MESSAGE_START));
+          controller.enqueue(encoder.encode(sseEvent("message_delta", { usage: { output_tokens: 37 } })));
+        },
+        cancel() {
+          upstreamCancelled = true;
+        },
+      });
+
+      const tracked = trackStreamUsage(upstream, (usage) => {
+        calls++;
+        reported = usage;
+      });
+
+      const reader = tracked.getReader();
+      await reader.read();
+      await reader.read();
+      await reader.cancel("client disconnected");
+
+      expect(upstreamCancelled).toBe(true);
+      expect(calls).toBe(1);
+      expect(reported!.input_tokens).toBe(1200);
+      expect(reported!.output_tokens).toBe(37);
+    });
+  });
+
+  describe("Proxy integration", () => {
+    let testUserId: string;
+    let testKeyId: string;
+    let testApiKey: string;
+    const originalFetch = global.fetch;
+
+    beforeEach(async () => {
+      testUserId = randomUUID();
+      testKeyId = `stream-key-${randomUUID()}`;
+      testApiKey = legacyApiKey();
+
+      await pool.query(
+        "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+        [testUserId, `stream-${testUserId}@example.com`, "hash", "pro"]
+      );
+      await pool.query(
+        `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at)
+         VALUES ($1, $2, $3, $4)`,
+        [testUserId, "test-access-token", "test-refresh-token", Date.now() + 60 * 60 * 1000]
+      );
+      await pool.query(
+        "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name) VALUES ($1, $2, $3, $4, $5)",
+        [testKeyId, testUserId, await bcrypt.hash(testApiKey, 4), legacyKeyPrefix(testApiKey), "Stream Test Key"]
+      );
+      await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [testKeyId]);
+
+      global.fetch = (async () =>
+        new Response(streamOf([MESSAGE_START, CONTENT_DELTA, MESSAGE_DELTA, MESSAGE_STOP]), {
+          status: 200,
+          headers: { "content-type": "text/event-stream" },
+        })) as unknown as typeof fetch;
+    });
+
+    afterEach(async () => {
+      global.fetch = originalFetch;
+      await pool.query("DELETE FROM api_keys WHERE id = $1", [testKeyId]);
+      await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+    });
+
+    test("should record usage history for a streamed /v1/messages response", async () => {
+      const request = new Request("http://localhost:3000/v1/messages", {
+        method: "POST",
+        headers: {
+          authorization: `Bearer ${testApiKey}`,
+          "content-type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "claude-opus-4-20250514",
+          max_tokens: 1024,
+          stream: true,
+          messages: [{ role: "user", content: "Hello" }],
+        }),
+      });
+
+      const response = await proxyToClaudeAPIGeneric(request, "/v1/messages", "POST");
+      expect(response.status).toBe(200);
+      expect(await response.text()).toContain("message_stop");
+
+      // Usage is written after the final chunk is consumed
+      await Bun.sleep(50);
+
+      const history = await pool.query(
+        "SELECT * FROM api_key_usage_history WHERE key_id = $1",
+        [testKeyId]
+      );
+      expect(history.rows.length).toBe(1);
+      expect(history.rows[0].model).toBe("claude-opus-4-20250514");
+      expect(Number(history.rows[0].input_tokens)).toBe(1200);
+      expect(Number(history.rows[0].output_tokens)).toBe(420);
+      expect(Number(history.rows[0].cache_creation_tokens)).toBe(300);
+      expect(Number(history.rows[0].cache_read_tokens)).toBe(50);
+      // (1200 + 420 + 300 + 50) * 5.0 opus weight
+      expect(Number(history.rows[0].credits_used)).toBe(9850);
+
+      const aggregate = await pool.query("SELECT request_count FROM api_key_usage WHERE key_id = $1", [testKeyId]);
+      expect(Number(aggregate.rows[0].request_count)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Fake Anthropic service for end-to-end tests
+ * Implements the parts of the Claude API and OAuth server the proxy talks to:
+ * /v1/messages (JSON and SSE), /v1/messages/count_tokens, /v1/models and /v1/oauth/token.
+ * Point the proxy at it with configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url }).
+ */
+
+export interface FakeUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+/** One scripted response, consumed by the next request to a matching path */
+export interface FakeResponseScript {
+  path?: string;
+  status?: number;
+  // Anthropic-style error; sent as { type: "error", error } with `status` (default 400)
+  error?: { type: string; message: string };
+  usage?: Partial<FakeUsage>;
+  text?: string;
+  delayMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Headers;
+  body: any;
+}
+
+export interface FakeAnthropic {
+  url: string;
+  requests: RecordedRequest[];
+  /** Usage reported when a request has no scripted usage */
+  defaultUsage: FakeUsage;
+  /** Latency added to every response */
+  defaultDelayMs: number;
+  /** Queue a one-off response for the next matching request */
+  enqueue(script: FakeResponseScript): void;
+  /** Queue a 429 with retry-after and rate-limit headers */
+  rateLimitNext(retryAfterSeconds?: number, path?: string): void;
+  /** Make an access token fail with 401 from now on */
+  revokeAccessToken(token: string): void;
+  /** Make a refresh token fail with invalid_grant from now on */
+  revokeRefreshToken(token: string): void;
+  /** Access and refresh tokens most recently issued by /v1/oauth/token */
+  lastIssuedTokens(): { access_token: string; refresh_token: string } | null;
+  reset(): void;
+  stop(): void;
+}
+
+const MODELS = [
+  { id: "claude-opus-4-20250514", display_name: "Claude Opus 4" },
+  { id: "claude-sonnet-4-20250514", display_name: "Claude Sonnet 4" },
+  { id: "claude-haiku-4-20250514", display_name: "Claude Haiku 4" },
+];
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", "request-id": `req_fake_${crypto.randomUUID()}`, ...headers },
+  });
+}
+
+function sse(events: { event: string; data: unknown }[], headers: Record<string, string>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const { event, data } of events) {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, {
+    status: 200,
+    headers: { "content-type": "text/event-stream", "cache-control": "no-cache", ...headers },
+  });
+}
+
+function rateLimitHeaders(remaining: number): Record<string, string> {
+  return {
+    "anthropic-ratelimit-requests-limit": "1000",
+    "anthropic-ratelimit-requests-remaining": String(remaining),
+    "anthropic-ratelimit-requests-reset": new Date(Date.now() + 60 * 1000).toISOString(),
+  };
+}
+
+/**
+ * Start a fake Anthropic server on a random local port
+ */
+export function startFakeAnthropic(): FakeAnthropic {
+  let scripts: FakeResponseScript[] = [];
+  let revokedAccessTokens = new Set<string>();
+  let revokedRefreshTokens = new Set<string>();
+  let issued: { access_token: string; refresh_token: string } | null = null;
+  // Account each live refresh token belongs to
+  const refreshTokenAccounts = new Map<string, string>();
+  let tokenCounter = 0;
+
+  function issueTokens(accountUuid: string) {
+    tokenCounter++;
+    issued = {
+      access_token: `sk-ant-oat-fake-${tokenCounter}-${crypto.randomUUID()}`,
+      refresh_token: `sk-ant-ort-fake-${tokenCounter}-${crypto.randomUUID()}`,
+    };
+    refreshTokenAccounts.set(issued.refresh_token, accountUuid);
+    return json({
+      ...issued,
+      token_type: "Bearer",
+      expires_in: 3600,
+      account: { uuid: accountUuid, email_address: `${accountUuid}@fake.example.com` },
+    });
+  }
+
+  function takeScript(path: string): FakeResponseScript | undefined {
+    const index = scripts.findIndex((script) => !script.path || script.path === path);
+    return index === -1 ? undefined : scripts.splice(index, 1)[0];
+  }
+
+  function handleOAuth(body: any): Response {
+    if (body?.grant_type === "authorization_code") {
+      if (!body.code || !body.code_verifier) {
+        return json({ error: "invalid_request", error_description: "code and code_verifier are required" }, 400);
+      }
+      // The code doubles as the account identity, so tests can connect several accounts
+      return issueTokens(`account-${body.code}`);
+    }
+
+    if (body?.grant_type === "refresh_token") {
+      if (!body.refresh_token || revokedRefreshTokens.has(body.refresh_token)) {
+        return json({ error: "invalid_grant", error_description: "Refresh token is invalid or has been revoked" }, 400);
+      }
+      // Refresh tokens rotate: the used one cannot be spent again
+      revokedRefreshTokens.add(body.refresh_token);
+      return issueTokens(refreshTokenAccounts.get(body.refresh_token) ?? "unknown");
+    }
+
+    return json({ error: "unsupported_grant_type" }, 400);
+  }
+
+  function handleMessages(body: any, script: FakeResponseScript | undefined): Response {
+    const usage: FakeUsage = {
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+      ...fake.defaultUsage,
+      ...script?.usage,
+    };
+    const text = script?.text ?? "Hello from the fake Anthropic API";
+    const model = body?.model || "claude-sonnet-4-20250514";
+    const id = `msg_fake_${crypto.randomUUID()}`;
+    const headers = { ...rateLimitHeaders(999), ...script?.headers };
+
+    if (body?.stream) {
+      return sse([
+        {
+          event: "message_start",
+          data: {
+            type: "message_start",
+            message: {
+              id, type: "message", role: "assistant", model, content: [], stop_reason: null,
+              usage: { ...usage, output_tokens: 1 },
+            },
+          },
+        },
+        { event: "content_block_start", data: { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } } },
+        { event: "ping", data: { type: "ping" } },
+        { event: "content_block_delta", data: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text } } },
+        { event: "content_block_stop", data: { type: "content_block_stop", index: 0 } },
+        {
+          event: "message_delta",
+          data: { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: usage.output_tokens } },
+        },
+        { event: "message_stop", data: { type: "message_stop" } },
+      ], headers);
+    }
+
+    return json({
+      id,
+      type: "message",
+      role: "assistant",
+      model,
+      content: [{ type: "text", text }],
+      stop_reason: "end_turn",
+      stop_sequence: null,
+      usage,
+    }, 200, headers);
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const body = request.method === "GET" ? null : await request.json().catch(() => null);
+    fake.requests.push({ method: request.method, path, headers: request.headers, body });
+
+    const script = takeScript(path);
+    const delayMs = script?.delayMs ?? fake.defaultDelayMs;
+    if (delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    if (path === "/v1/oauth/token") {
+      return handleOAuth(body);
+    }
+
+    const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+    if (!token || revokedAccessTokens.has(token)) {
+      return json({ type: "error", error: { type: "authentication_error", message: "OAuth token has been revoked" } }, 401);
+    }
+
+    if (script?.error || (script?.status && script.status >= 400)) {
+      return json(
+        { type: "error", error: script.error ?? { type: "api_error", message: "Scripted error" } },
+        script.status ?? 400,
+        script.headers
+      );
+    }
+
+    if (path === "/v1/messages" && request.method === "POST") {
+      return handleMessages(body, script);
+    }
+    if (path === "/v1/messages/count_tokens" && request.method === "POST") {
+      const input = JSON.stringify(body?.messages ?? []).length;
+      return json({ input_tokens: script?.usage?.input_tokens ?? Math.ceil(input / 4) });
+    }
+    if (path === "/v1/models" && request.method === "GET") {
+      return json({
+        data: MODELS.map((model) => ({ type: "model", created_at: "2025-05-14T00:00:00Z", ...model })),
+        has_more: false,
+        first_id: MODELS[0].id,
+        last_id: MODELS[MODELS.length - 1].id,
+      });
+    }
+
+    return json({ type: "error", error: { type: "not_found_error", message: `Not found: ${request.method} ${path}` } }, 404);
+  }
+
+  const server = Bun.serve({ port: 0, fetch: handle });
+
+  const fake: FakeAnthropic = {
+    url: `http://localhost:${server.port}`,
+    requests: [],
+    defaultUsage: { input_tokens: 100, output_tokens: 50 },
+    defaultDelayMs: 0,
+    enqueue(script) {
+      scripts.push(script);
+    },
+    rateLimitNext(retryAfterSeconds = 30, path = "/v1/messages") {
+      scripts.push({
+        path,
+        status: 429,
+        error: { type: "rate_limit_error", message: "Number of requests has exceeded your rate limit" },
+        headers: { "retry-after": String(retryAfterSeconds), ...rateLimitHeaders(0) },
+      });
+    },
+    revokeAccessToken(token) {
+      revokedAccessTokens.add(token);
+    },
+    revokeRefreshToken(token) {
+      revokedRefreshTokens.add(token);
+    },
+    lastIssuedTokens() {
+      return issued;
+    },
+    reset() {
+      scripts = [];
+      revokedAccessTokens = new Set();
+      revokedRefreshTokens = new Set();
+      issued = null;
+      refreshTokenAccounts.clear();
+      fake.requests = [];
+      fake.defaultUsage = { input_tokens: 100, output_tokens: 50 };
+      fake.defaultDelayMs = 0;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+
+  return fake;
+}
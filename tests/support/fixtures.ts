@@ -0,0 +1,84 @@
+/**
+ * Database fixtures for tests that proxy requests
+ * createProxyFixture() sets up a key owner with a connected Claude account and an API key,
+ * ready to call /v1/messages against the fake Anthropic server. Deleting the users with
+ * deleteTestUsers() removes everything else through ON DELETE CASCADE.
+ */
+
+import pool from "../../src/db";
+import bcrypt from "bcryptjs";
+import { randomBytes, randomUUID } from "crypto";
+
+export interface ProxyFixture {
+  userId: string;
+  keyId: string;
+  // The raw key value, sent as x-api-key
+  apiKey: string;
+}
+
+export interface ProxyFixtureOptions {
+  // Give the key to an existing user instead of creating its owner
+  userId?: string;
+  planType?: string;
+  keyName?: string;
+  // Assign the key to this user, as if they had accepted an invitation
+  assignedToUserId?: string;
+}
+
+/**
+ * Generate a key in the format issued before lookup ids (sk-proj-<64 hex>), for rows stored bcrypt-hashed
+ */
+export function legacyApiKey(): string {
+  return `sk-proj-${randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * The key_prefix stored with a legacy key, which validation looks it up by
+ */
+export function legacyKeyPrefix(apiKey: string): string {
+  return `${apiKey.substring(0, 15)}...`;
+}
+
+/**
+ * Create a user with the email <prefix>-<id>@example.com
+ * @returns The new user's ID
+ */
+export async function createTestUser(prefix: string, planType = "pro"): Promise<string> {
+  const userId = randomUUID();
+  await pool.query(
+    "INSERT INTO users (id, email, password_hash, plan_type) VALUES ($1, $2, $3, $4)",
+    [userId, `${prefix}-${userId}@example.com`, "hash", planType]
+  );
+  return userId;
+}
+
+/**
+ * Create a key owner with a connected Claude account (tokens owner-access / owner-refresh) and an API key
+ * @param prefix - Prefix of the owner's email and the key ID
+ */
+export async function createProxyFixture(prefix: string, options: ProxyFixtureOptions = {}): Promise<ProxyFixture> {
+  const userId = options.userId ?? await createTestUser(prefix, options.planType);
+  const keyId = `${prefix}-key-${randomUUID()}`;
+  const apiKey = legacyApiKey();
+
+  await pool.query(
+    "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at) VALUES ($1, $2, $3, $4)",
+    [userId, "owner-access", "owner-refresh", Date.now() + 60 * 60 * 1000]
+  );
+  await pool.query(
+    `INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name, assigned_to_user_id, assignment_status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [keyId, userId, await bcrypt.hash(apiKey, 4), legacyKeyPrefix(apiKey), options.keyName ?? null,
+     options.assignedToUserId ?? null, options.assignedToUserId ? "accepted" : "unassigned"]
+  );
+  await pool.query("INSERT INTO api_key_usage (key_id) VALUES ($1)", [keyId]);
+
+  return { userId, keyId, apiKey };
+}
+
+/**
+ * Delete test users along with their keys, accounts, usage and logs
+ */
+export async function deleteTestUsers(...userIds: string[]): Promise<void> {
+  await pool.query("DELETE FROM users WHERE id = ANY($1)", [userIds]);
+}
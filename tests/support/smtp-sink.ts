@@ -0,0 +1,109 @@
+/**
+ * Local SMTP sink for notification tests
+ * Accepts every message without authentication or TLS and keeps it in memory.
+ * Point the proxy at it with configureChannels({ smtpUrl: sink.url }).
+ */
+
+import { createServer, type Server, type Socket } from "net";
+
+export interface SinkMessage {
+  from: string;
+  to: string[];
+  // Raw message (headers and body) as sent after DATA
+  raw: string;
+  subject: string | null;
+}
+
+export interface SmtpSink {
+  url: string;
+  messages: SinkMessage[];
+  /** Reject the next n messages with a 451 temporary failure */
+  failNext(count?: number): void;
+  reset(): void;
+  stop(): Promise<void>;
+}
+
+export async function startSmtpSink(): Promise<SmtpSink> {
+  const messages: SinkMessage[] = [];
+  let failures = 0;
+
+  const server: Server = createServer((socket: Socket) => {
+    let buffer = "";
+    let inData = false;
+    let envelope: { from: string; to: string[] } = { from: "", to: [] };
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply("220 smtp-sink ready");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          const raw = buffer.slice(0, end).replace(/^\.\./gm, ".");
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          if (failures > 0) {
+            failures--;
+            reply("451 Temporary failure");
+          } else {
+            // Long headers are folded onto continuation lines
+            const headers = raw.split("\r\n\r\n")[0].replace(/\r\n[ \t]+/g, " ");
+            const subject = /^Subject: (.*)$/m.exec(headers)?.[1] ?? null;
+            messages.push({ ...envelope, raw, subject });
+            reply("250 OK queued");
+          }
+          envelope = { from: "", to: [] };
+          continue;
+        }
+
+        const newline = buffer.indexOf("\r\n");
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === "EHLO" || command === "HELO") {
+          reply("250 smtp-sink");
+        } else if (command === "MAIL") {
+          envelope.from = /<(.*)>/.exec(line)?.[1] ?? "";
+          reply("250 OK");
+        } else if (command === "RCPT") {
+          envelope.to.push(/<(.*)>/.exec(line)?.[1] ?? "");
+          reply("250 OK");
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+          return;
+        } else {
+          reply("250 OK");
+        }
+      }
+    });
+    socket.on("error", () => {});
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+
+  return {
+    url: `smtp://127.0.0.1:${port}`,
+    messages,
+    failNext(count = 1) {
+      failures = count;
+    },
+    reset() {
+      messages.length = 0;
+      failures = 0;
+    },
+    stop() {
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import pool, { initializeDatabase } from "../src/db";
+import { encryptTokens, decryptTokens, reencryptTokens, getActiveKeyId, DERIVED_KEY_ID } from "../src/crypto";
+import { saveOAuthTokens, getOAuthTokens, ensureValidToken, reencryptAllOAuthTokens } from "../src/oauth";
+import { randomBytes, randomUUID } from "crypto";
+
+const KEY_V1 = `v1:${randomBytes(32).toString("base64")}`;
+const KEY_V2 = `v2:${randomBytes(32).toString("base64")}`;
+
+describe("OAuth token encryption", () => {
+  const originalKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+
+  afterEach(() => {
+    if (originalKeys === undefined) {
+      delete process.env.TOKEN_ENCRYPTION_KEYS;
+    } else {
+      process.env.TOKEN_ENCRYPTION_KEYS = originalKeys;
+    }
+  });
+
+  describe("crypto", () => {
+    test("should round-trip a token pair", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V1;
+
+      const encrypted = encryptTokens("access-secret", "refresh-secret");
+
+      expect(encrypted.encryption_key_id).toBe("v1");
+      expect(encrypted.access_token).not.toContain("access-secret");
+      expect(encrypted.refresh_token).not.toContain("refresh-secret");
+      expect(decryptTokens(encrypted)).toEqual({ access_token: "access-secret", refresh_token: "refresh-secret" });
+    });
+
+    test("should use a fresh data key and IV per encryption", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V1;
+
+      const first = encryptTokens("same", "same");
+      const second = encryptTokens("same", "same");
+
+      expect(first.access_token).not.toBe(second.access_token);
+      expect(first.encrypted_data_key).not.toBe(second.encrypted_data_key);
+    });
+
+    test("should reject tampered ciphertext and swapped fields", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V1;
+      const encrypted = encryptTokens("access-secret", "refresh-secret");
+
+      const tampered = Buffer.from(encrypted.access_token, "base64");
+      tampered[tampered.length - 1] ^= 1;
+      expect(() => decryptTokens({ ...encrypted, access_token: tampered.toString("base64") })).toThrow();
+
+      expect(() => decryptTokens({
+        ...encrypted,
+        access_token: encrypted.refresh_token,
+        refresh_token: encrypted.access_token,
+      })).toThrow();
+    });
+
+    test("should pass through legacy plaintext rows", () => {
+      expect(decryptTokens({ access_token: "plain-access", refresh_token: "plain-refresh", encryption_key_id: null }))
+        .toEqual({ access_token: "plain-access", refresh_token: "plain-refresh" });
+    });
+
+    test("should derive a key from JWT_SECRET when no keys are configured", () => {
+      delete process.env.TOKEN_ENCRYPTION_KEYS;
+
+      expect(getActiveKeyId()).toBe(DERIVED_KEY_ID);
+      const encrypted = encryptTokens("a", "r");
+      expect(decryptTokens(encrypted).access_token).toBe("a");
+    });
+
+    test("should re-wrap the data key without re-encrypting tokens on key rotation", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V1;
+      const encrypted = encryptTokens("access-secret", "refresh-secret");
+
+      process.env.TOKEN_ENCRYPTION_KEYS = `${KEY_V2},${KEY_V1}`;
+      const rotated = reencryptTokens(encrypted);
+
+      expect(rotated.encryption_key_id).toBe("v2");
+      expect(rotated.access_token).toBe(encrypted.access_token);
+
+      // The old key is no longer needed once re-wrapped
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V2;
+      expect(decryptTokens(rotated).refresh_token).toBe("refresh-secret");
+      expect(() => decryptTokens(encrypted)).toThrow("Unknown token encryption key id: v1");
+    });
+
+    test("should reject malformed key configuration", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = "v1:too-short";
+      expect(() => getActiveKeyId()).toThrow("Invalid TOKEN_ENCRYPTION_KEYS entry");
+    });
+  });
+
+  describe("storage", () => {
+    let testUserId: string;
+    const originalFetch = global.fetch;
+
+    beforeAll(async () => {
+      await initializeDatabase();
+    });
+
+    beforeEach(async () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V1;
+      testUserId = randomUUID();
+      await pool.query(
+        "INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)",
+        [testUserId, `crypto-${testUserId}@example.com`, "hash"]
+      );
+    });
+
+    afterEach(async () => {
+      global.fetch = originalFetch;
+      await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+    });
+
+    test("saveOAuthTokens should store ciphertext and getOAuthTokens should decrypt it", async () => {
+      await saveOAuthTokens(testUserId, {
+        access_token: "sk-ant-oat-live",
+        refresh_token: "sk-ant-ort-live",
+        expires_at: Date.now() + 60 * 60 * 1000,
+      });
+
+      const raw = await pool.query("SELECT * FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      expect(raw.rows[0].access_token).not.toContain("sk-ant-oat-live");
+      expect(raw.rows[0].refresh_token).not.toContain("sk-ant-ort-live");
+      expect(raw.rows[0].encryption_key_id).toBe("v1");
+
+      const tokens = await getOAuthTokens(testUserId);
+      expect(tokens!.access_token).toBe("sk-ant-oat-live");
+      expect(tokens!.refresh_token).toBe("sk-ant-ort-live");
+    });
+
+    test("ensureValidToken should refresh with the decrypted refresh token and store the result encrypted", async () => {
+      await saveOAuthTokens(testUserId, {
+        access_token: "expired-access",
+        refresh_token: "sk-ant-ort-live",
+        expires_at: Date.now() - 1000,
+      });
+
+      let sentRefreshToken: string | undefined;
+      global.fetch = (async (_url: string, options?: RequestInit) => {
+        sentRefreshToken = JSON.parse(options!.body as string).refresh_token;
+        return new Response(
+          JSON.stringify({ access_token: "fresh-access", refresh_token: "fresh-refresh", expires_in: 3600 }),
+          { status: 200, headers: { "content-type": "application/json" } }
+        );
+      }) as unknown as typeof fetch;
+
+      const result = await ensureValidToken(testUserId);
+
+      expect(sentRefreshToken).toBe("sk-ant-ort-live");
+      expect(result.accessToken).toBe("fresh-access");
+
+      const raw = await pool.query("SELECT access_token FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+      expect(raw.rows[0].access_token).not.toContain("fresh-access");
+    });
+
+    test("reencryptAllOAuthTokens should encrypt plaintext rows and rotate old keys", async () => {
+      await pool.query(
+        `INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, account_uuid)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [testUserId, "legacy-access", "legacy-refresh", Date.now() + 60 * 60 * 1000, "legacy"]
+      );
+      await saveOAuthTokens(testUserId, {
+        access_token: "v1-access",
+        refresh_token: "v1-refresh",
+        expires_at: Date.now() + 60 * 60 * 1000,
+        account_uuid: "current",
+      });
+
+      process.env.TOKEN_ENCRYPTION_KEYS = `${KEY_V2},${KEY_V1}`;
+      await reencryptAllOAuthTokens();
+
+      const raw = await pool.query(
+        "SELECT account_uuid, access_token, encryption_key_id FROM oauth_tokens WHERE user_id = $1 ORDER BY account_uuid",
+        [testUserId]
+      );
+      expect(raw.rows.map((r) => r.encryption_key_id)).toEqual(["v2", "v2"]);
+      expect(raw.rows[0].access_token).not.toBe("v1-access");
+      expect(raw.rows[1].access_token).not.toBe("legacy-access");
+
+      process.env.TOKEN_ENCRYPTION_KEYS = KEY_V2;
+      const tokens = await getOAuthTokens(testUserId);
+      expect(["legacy-access", "v1-access"]).toContain(tokens!.access_token);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect, beforeAll, beforeEach, afterEach } from "bun:test";
+import pool, { initializeDatabase } from "../src/db";
+import { saveOAuthTokens, getOAuthAccount, ensureValidToken, refreshExpiringTokens } from "../src/oauth";
+import { randomUUID } from "crypto";
+
+const MINUTE = 60 * 1000;
+
+describe("OAuth token refresh", () => {
+  let testUserId: string;
+  let refreshCalls: string[];
+  let refreshStatus: number;
+  const originalFetch = global.fetch;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+  });
+
+  beforeEach(async () => {
+    testUserId = randomUUID();
+    refreshCalls = [];
+    refreshStatus = 200;
+
+    await pool.query(
+      "INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)",
+      [testUserId, `refresh-${testUserId}@example.com`, "hash"]
+    );
+
+    global.fetch = (async (_url: string, options?: RequestInit) => {
+      const { refresh_token } = JSON.parse(options!.body as string);
+      refreshCalls.push(refresh_token);
+      // Simulate upstream latency so concurrent callers overlap
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      if (refreshStatus !== 200) {
+        return new Response(JSON.stringify({ error: "invalid_grant" }), { status: refreshStatus });
+      }
+      return new Response(
+        JSON.stringify({ access_token: `access-${refreshCalls.length}`, refresh_token: `refresh-${refreshCalls.length}`, expires_in: 3600 }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      );
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await pool.query("DELETE FROM oauth_tokens WHERE user_id = $1", [testUserId]);
+    await pool.query("DELETE FROM users WHERE id = $1", [testUserId]);
+  });
+
+  async function connect(expiresAt: number, accountUuid = "account"): Promise<string> {
+    return saveOAuthTokens(testUserId, {
+      access_token: "original-access",
+      refresh_token: "original-refresh",
+      expires_at: expiresAt,
+      account_uuid: accountUuid,
+    });
+  }
+
+  test("should not refresh a token that is far from expiry", async () => {
+    await connect(Date.now() + 60 * MINUTE);
+
+    const result = await ensureValidToken(testUserId);
+
+    expect(result.accessToken).toBe("original-access");
+    expect(refreshCalls).toHaveLength(0);
+  });
+
+  test("should refresh proactively shortly before expiry", async () => {
+    await connect(Date.now() + 2 * MINUTE);
+
+    const result = await ensureValidToken(testUserId);
+
+    expect(result.accessToken).toBe("access-1");
+    expect(refreshCalls).toEqual(["original-refresh"]);
+  });
+
+  test("should share one refresh between concurrent requests", async () => {
+    await connect(Date.now() - MINUTE);
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => ensureValidToken(testUserId)));
+
+    expect(refreshCalls).toHaveLength(1);
+    expect(results.every((r) => r.success && r.accessToken === "access-1")).toBe(true);
+  });
+
+  test("should use a token refreshed by another process while waiting for the lock", async () => {
+    const accountId = await connect(Date.now() - MINUTE);
+
+    // Another process holds the refresh lock for this account
+    const otherProcess = await pool.connect();
+    try {
+      await otherProcess.query("SELECT pg_advisory_lock(hashtextextended($1, 0))", [`oauth_refresh:${accountId}`]);
+
+      const pending = ensureValidToken(testUserId);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await saveOAuthTokens(testUserId, {
+        access_token: "other-process-access",
+        refresh_token: "other-process-refresh",
+        expires_at: Date.now() + 60 * MINUTE,
+      }, accountId);
+      await otherProcess.query("SELECT pg_advisory_unlock(hashtextextended($1, 0))", [`oauth_refresh:${accountId}`]);
+
+      const result = await pending;
+      expect(result.accessToken).toBe("other-process-access");
+      expect(refreshCalls).toHaveLength(0);
+    } finally {
+      otherProcess.release();
+    }
+  });
+
+  test("should keep using a still-valid token when an early refresh fails", async () => {
+    await connect(Date.now() + 2 * MINUTE);
+    refreshStatus = 400;
+
+    const result = await ensureValidToken(testUserId);
+
+    expect(result.success).toBe(true);
+    expect(result.accessToken).toBe("original-access");
+  });
+
+  test("should fail when an expired token cannot be refreshed", async () => {
+    await connect(Date.now() - MINUTE);
+    refreshStatus = 400;
+
+    const result = await ensureValidToken(testUserId);
+
+    expect(result.success).toBe(false);
+  });
+
+  test("refreshExpiringTokens should renew only tokens expiring within the window", async () => {
+    const soonId = await connect(Date.now() + 10 * MINUTE, "soon");
+    const laterId = await connect(Date.now() + 120 * MINUTE, "later");
+
+    const result = await refreshExpiringTokens(15 * MINUTE);
+
+    expect(result.refreshed).toBeGreaterThanOrEqual(1);
+    expect(refreshCalls).toEqual(["original-refresh"]);
+
+    const soon = await getOAuthAccount(testUserId, soonId);
+    expect(soon!.access_token).toBe("access-1");
+    expect(soon!.refresh_token).toBe("refresh-1");
+    const later = await getOAuthAccount(testUserId, laterId);
+    expect(later!.access_token).toBe("original-access");
+  });
+
+  test("should not refresh revoked accounts", async () => {
+    const accountId = await connect(Date.now() - MINUTE);
+    await pool.query("UPDATE oauth_tokens SET health_status = 'revoked' WHERE id = $1", [accountId]);
+
+    await refreshExpiringTokens(15 * MINUTE);
+    const result = await ensureValidToken(testUserId, accountId);
+
+    expect(result.success).toBe(false);
+    expect(result.revoked).toBe(true);
+    expect(refreshCalls).not.toContain("original-refresh");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { initTracing, shutdownTracing } from "../src/tracing";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, deleteTestUsers } from "./support/fixtures";
+import { InMemorySpanExporter, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+
+const CLIENT_TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const CLIENT_SPAN_ID = "00f067aa0ba902b7";
+
+describe("OpenTelemetry tracing", () => {
+  let fake: FakeAnthropic;
+  const exporter = new InMemorySpanExporter();
+  let userId: string;
+  let keyId: string;
+  let apiKey: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    initTracing(exporter);
+    fake = startFakeAnthropic();
+  });
+
+  afterAll(async () => {
+    fake.stop();
+    await shutdownTracing();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+
+    ({ userId, keyId, apiKey } = await createProxyFixture("tracing"));
+    exporter.reset();
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    await deleteTestUsers(userId);
+  });
+
+  function proxy(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    return app.request("/v1/messages", {
+      method: "POST",
+      headers: { "x-api-key": apiKey, "content-type": "application/json", ...headers },
+      body: JSON.stringify({ model: "claude-haiku-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }], ...body }),
+    });
+  }
+
+  function span(name: string): ReadableSpan {
+    const found = exporter.getFinishedSpans().find((s) => s.name === name);
+    expect(found).toBeDefined();
+    return found!;
+  }
+
+  test("should continue the client's traceparent", async () => {
+    await proxy({}, { traceparent: `00-${CLIENT_TRACE_ID}-${CLIENT_SPAN_ID}-01` });
+
+    const server = span("POST /v1/messages");
+    expect(server.spanContext().traceId).toBe(CLIENT_TRACE_ID);
+    expect(server.parentSpanContext?.spanId).toBe(CLIENT_SPAN_ID);
+  });
+
+  test("should record child spans for each step with key id and model", async () => {
+    const response = await proxy({});
+    expect(response.status).toBe(200);
+
+    const server = span("POST /v1/messages");
+    expect(server.attributes["claude_proxy.key_id"]).toBe(keyId);
+    expect(server.attributes["gen_ai.request.model"]).toBe("claude-haiku-4-20250514");
+    expect(server.attributes["http.response.status_code"]).toBe(200);
+
+    const serverSpanId = server.spanContext().spanId;
+    for (const name of ["validateApiKey", "hasOAuthConnection", "checkQuotaLimit", "ensureValidToken", "upstream POST /v1/messages", "updateKeyUsage"]) {
+      const child = span(name);
+      expect(child.spanContext().traceId).toBe(server.spanContext().traceId);
+      expect(child.parentSpanContext?.spanId).toBe(serverSpanId);
+    }
+
+    expect(span("checkQuotaLimit").attributes["claude_proxy.key_id"]).toBe(keyId);
+    expect(span("updateKeyUsage").attributes["gen_ai.request.model"]).toBe("claude-haiku-4-20250514");
+    expect(span("upstream POST /v1/messages").attributes["http.response.status_code"]).toBe(200);
+  });
+
+  test("should end a streaming request's span after the stream, with usage recorded inside it", async () => {
+    const response = await proxy({ stream: true });
+    expect(exporter.getFinishedSpans().find((s) => s.name === "POST /v1/messages")).toBeUndefined();
+
+    await response.text();
+
+    const server = span("POST /v1/messages");
+    expect(server.attributes["claude_proxy.stream"]).toBe(true);
+    expect(span("updateKeyUsage").parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+  });
+
+  test("should mark upstream server errors on the span", async () => {
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url, retryMaxAttempts: 1 });
+    fake.enqueue({ path: "/v1/messages", status: 529, error: { type: "overloaded_error", message: "Overloaded" } });
+
+    await proxy({});
+
+    const server = span("POST /v1/messages");
+    expect(server.attributes["http.response.status_code"]).toBe(529);
+    expect(server.attributes["error.type"]).toBe("overloaded_error");
+    expect(server.status.code).toBe(2);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { configureUpstream, UpstreamTimeoutError } from "../src/upstream";
+import { withRetry, getRetryDelay, parseRetryAfter, type UpstreamAttempt } from "../src/retry";
+
+function respond(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(status === 200 ? { id: "msg" } : { type: "error", error: { type: "overloaded_error" } }), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+}
+
+// A send function that returns the given statuses in order and counts calls
+function sequence(...statuses: (number | Error)[]) {
+  const calls: number[] = [];
+  const send = async () => {
+    const next = statuses[Math.min(calls.length, statuses.length - 1)];
+    calls.push(calls.length + 1);
+    if (next instanceof Error) throw next;
+    return respond(next);
+  };
+  return { send, calls };
+}
+
+describe("Upstream retries", () => {
+  afterEach(() => {
+    configureUpstream();
+  });
+
+  test("parseRetryAfter should accept seconds and HTTP dates", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+
+    const date = new Date(Date.now() + 10_000).toUTCString();
+    expect(parseRetryAfter(date)).toBeGreaterThan(8000);
+    expect(parseRetryAfter(date)).toBeLessThanOrEqual(10_000);
+  });
+
+  test("backoff should grow exponentially within the configured bounds", () => {
+    configureUpstream({ retryBaseDelayMs: 100, retryMaxDelayMs: 250 });
+
+    for (let i = 0; i < 50; i++) {
+      expect(getRetryDelay(1, null)).toBeLessThanOrEqual(100);
+      expect(getRetryDelay(2, null)).toBeLessThanOrEqual(200);
+      expect(getRetryDelay(5, null)).toBeLessThanOrEqual(250);
+    }
+    expect(getRetryDelay(1, "2")).toBe(2000);
+  });
+
+  test("should retry 529 and 5xx until a response succeeds", async () => {
+    configureUpstream({ retryBaseDelayMs: 1, retryMaxAttempts: 3 });
+    const { send, calls } = sequence(529, 503, 200);
+    const attempts: UpstreamAttempt[] = [];
+
+    const response = await withRetry(send, { onAttempt: (a) => { attempts.push(a); } });
+
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(3);
+    expect(attempts.map((a) => [a.status, a.outcome])).toEqual([[529, "retried"], [503, "retried"], [200, "success"]]);
+    expect(attempts[0].error).toBe("overloaded_error");
+  });
+
+  test("should return the last response once attempts run out", async () => {
+    configureUpstream({ retryBaseDelayMs: 1, retryMaxAttempts: 2 });
+    const { send, calls } = sequence(529);
+    const attempts: UpstreamAttempt[] = [];
+
+    const response = await withRetry(send, { onAttempt: (a) => { attempts.push(a); } });
+
+    expect(response.status).toBe(529);
+    expect(calls).toHaveLength(2);
+    expect(attempts[1].outcome).toBe("failed");
+    expect(attempts[1].retryDelayMs).toBeNull();
+  });
+
+  test("should not retry client errors", async () => {
+    configureUpstream({ retryBaseDelayMs: 1 });
+    const { send, calls } = sequence(400, 200);
+
+    const response = await withRetry(send);
+
+    expect(response.status).toBe(400);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("should only retry the statuses it is given", async () => {
+    configureUpstream({ retryBaseDelayMs: 1 });
+    const { send, calls } = sequence(429, 200);
+
+    const response = await withRetry(send, { retryableStatuses: [529] });
+
+    expect(response.status).toBe(429);
+    expect(calls).toHaveLength(1);
+  });
+
+  test("should not wait past the retry budget", async () => {
+    configureUpstream({ retryBudgetMs: 1000 });
+    let calls = 0;
+    const started = Date.now();
+
+    const response = await withRetry(async () => {
+      calls++;
+      return respond(429, { "retry-after": "5" });
+    });
+
+    expect(response.status).toBe(429);
+    expect(calls).toBe(1);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  test("should retry network errors but not timeouts", async () => {
+    configureUpstream({ retryBaseDelayMs: 1 });
+    const network = sequence(new TypeError("fetch failed"), 200);
+    expect((await withRetry(network.send)).status).toBe(200);
+    expect(network.calls).toHaveLength(2);
+
+    const timeout = sequence(new UpstreamTimeoutError("api", 50), 200);
+    await expect(withRetry(timeout.send)).rejects.toBeInstanceOf(UpstreamTimeoutError);
+    expect(timeout.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import pool, { initializeDatabase } from "../src/db";
+import { proxyToClaudeAPIGeneric } from "../src/proxy";
+import { generateAuthUrl, refreshAccessToken } from "../src/oauth";
+import { configureUpstream, getUpstreamConfig, upstreamFetch, UpstreamTimeoutError } from "../src/upstream";
+import { createProxyFixture, deleteTestUsers } from "./support/fixtures";
+import { randomUUID } from "crypto";
+
+describe("Upstream configuration", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let baseUrl: string;
+  let received: { path: string; headers: Headers; body: any }[];
+
+  beforeAll(async () => {
+    await initializeDatabase();
+
+    // Minimal local stand-in for the Anthropic API and OAuth server
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+        received.push({ path: url.pathname, headers: request.headers, body: await request.json().catch(() => null) });
+
+        if (url.pathname === "/slow/v1/messages") {
+          await new Promise((resolve) => setTimeout(resolve, 500));
+        }
+        if (url.pathname.endsWith("/v1/oauth/token")) {
+          return Response.json({ access_token: "fake-access", refresh_token: "fake-refresh", expires_in: 3600 });
+        }
+        return Response.json({ id: "msg_fake", usage: { input_tokens: 1, output_tokens: 1 } });
+      },
+    });
+    baseUrl = `http://localhost:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  afterEach(() => {
+    configureUpstream();
+  });
+
+  test("should default to the Anthropic hosts", () => {
+    const config = getUpstreamConfig();
+
+    expect(config.apiBaseUrl).toBe("https://api.anthropic.com");
+    expect(config.oauthBaseUrl).toBe("https://console.anthropic.com");
+    expect(config.anthropicVersion).toBe("2023-06-01");
+  });
+
+  test("should read base URLs and default headers from the environment", () => {
+    const original = { ...process.env };
+    process.env.ANTHROPIC_API_BASE_URL = "https://egress.internal/anthropic/";
+    process.env.UPSTREAM_DEFAULT_HEADERS = '{"x-egress-token":"secret"}';
+    try {
+      const config = getUpstreamConfig();
+      expect(config.apiBaseUrl).toBe("https://egress.internal/anthropic");
+      expect(config.defaultHeaders).toEqual({ "x-egress-token": "secret" });
+    } finally {
+      delete process.env.ANTHROPIC_API_BASE_URL;
+      delete process.env.UPSTREAM_DEFAULT_HEADERS;
+      Object.assign(process.env, original);
+    }
+  });
+
+  test("OAuth calls should use the OAuth base URL and authorize URL", async () => {
+    configureUpstream({ oauthBaseUrl: `${baseUrl}/oauth`, authorizeUrl: `${baseUrl}/authorize` });
+
+    const result = await refreshAccessToken("refresh-token");
+
+    expect(result.success).toBe(true);
+    expect(result.tokens.access_token).toBe("fake-access");
+    expect(received[0].path).toBe("/oauth/v1/oauth/token");
+    expect(received[0].body.refresh_token).toBe("refresh-token");
+
+    const userId = randomUUID();
+    await pool.query("INSERT INTO users (id, email, password_hash) VALUES ($1, $2, $3)", [userId, `upstream-${userId}@example.com`, "hash"]);
+    try {
+      const { url } = await generateAuthUrl(userId);
+      expect(url.startsWith(`${baseUrl}/authorize?`)).toBe(true);
+    } finally {
+      await pool.query("DELETE FROM users WHERE id = $1", [userId]);
+    }
+  });
+
+  test("upstreamFetch should add default headers and let call headers override them", async () => {
+    configureUpstream({ apiBaseUrl: baseUrl, defaultHeaders: { "x-egress-token": "secret", "anthropic-version": "old" } });
+
+    await upstreamFetch("api", "/v1/models", { headers: { "anthropic-version": "2023-06-01" } });
+
+    expect(received[0].headers.get("x-egress-token")).toBe("secret");
+    expect(received[0].headers.get("anthropic-version")).toBe("2023-06-01");
+  });
+
+  test("upstreamFetch should time out waiting for a response", async () => {
+    configureUpstream({ apiBaseUrl: `${baseUrl}/slow`, apiTimeoutMs: 50 });
+
+    await expect(upstreamFetch("api", "/v1/messages", { method: "POST", body: "{}" })).rejects.toBeInstanceOf(UpstreamTimeoutError);
+  });
+
+  describe("proxy", () => {
+    let userId: string;
+    let keyId: string;
+    let apiKey: string;
+
+    beforeEach(async () => {
+      ({ userId, keyId, apiKey } = await createProxyFixture("upstream"));
+    });
+
+    afterEach(async () => {
+      await deleteTestUsers(userId);
+    });
+
+    function messagesRequest(): Request {
+      return new Request("http://localhost:3000/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": apiKey, "content-type": "application/json" },
+        body: JSON.stringify({ model: "claude-haiku-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+      });
+    }
+
+    test("should forward to the configured API base URL", async () => {
+      configureUpstream({ apiBaseUrl: baseUrl, anthropicBeta: "custom-beta" });
+
+      const response = await proxyToClaudeAPIGeneric(messagesRequest(), "/v1/messages", "POST");
+
+      expect(response.status).toBe(200);
+      expect(received[0].path).toBe("/v1/messages");
+      expect(received[0].headers.get("authorization")).toBe("Bearer owner-access");
+      expect(received[0].headers.get("anthropic-beta")).toBe("custom-beta");
+    });
+
+    test("should return 504 when the upstream times out", async () => {
+      configureUpstream({ apiBaseUrl: `${baseUrl}/slow`, apiTimeoutMs: 50 });
+
+      const response = await proxyToClaudeAPIGeneric(messagesRequest(), "/v1/messages", "POST");
+
+      expect(response.status).toBe(504);
+      const body = await response.json();
+      expect(body.error.type).toBe("timeout_error");
+    });
+  });
+});
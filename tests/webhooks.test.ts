@@ -0,0 +1,292 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from "bun:test";
+import { app } from "../src/index";
+import pool, { initializeDatabase } from "../src/db";
+import { configureUpstream } from "../src/upstream";
+import { configureChannels, isPrivateAddress, signWebhookPayload } from "../src/channels";
+import { processOutbox } from "../src/outbox";
+import { generateApiKey, deleteApiKey, assignKey, acceptInvitation } from "../src/keys";
+import { setConnectionHealth, disconnectOAuth } from "../src/oauth";
+import { startFakeAnthropic, type FakeAnthropic } from "./support/fake-anthropic";
+import { createProxyFixture, createTestUser, deleteTestUsers } from "./support/fixtures";
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+
+const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
+
+describe("Webhook endpoints", () => {
+  let fake: FakeAnthropic;
+  let receiver: ReturnType<typeof Bun.serve>;
+  let received: Array<{ path: string; headers: Headers; body: any; raw: string }>;
+  let failWith: number | null;
+  let ownerId: string;
+  let otherId: string;
+
+  beforeAll(async () => {
+    await initializeDatabase();
+    fake = startFakeAnthropic();
+    receiver = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const raw = await request.text();
+        const path = new URL(request.url).pathname;
+        received.push({ path, headers: request.headers, body: JSON.parse(raw), raw });
+        if (path === "/redirect") {
+          return new Response(null, { status: 302, headers: { Location: "/hook" } });
+        }
+        return new Response(failWith ? "down" : "ok", { status: failWith ?? 200 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    receiver.stop(true);
+    fake.stop();
+  });
+
+  beforeEach(async () => {
+    fake.reset();
+    configureUpstream({ apiBaseUrl: fake.url, oauthBaseUrl: fake.url });
+    // The receiver listens on localhost
+    configureChannels({ allowPrivateWebhookUrls: true });
+    received = [];
+    failWith = null;
+    await pool.query("DELETE FROM notification_outbox");
+
+    ownerId = await createTestUser("hooks");
+    otherId = await createTestUser("hooks");
+  });
+
+  afterEach(async () => {
+    configureUpstream();
+    configureChannels();
+    await pool.query("DELETE FROM notification_outbox");
+    await deleteTestUsers(ownerId, otherId);
+  });
+
+  function request(path: string, options: { method?: string; body?: unknown; as?: string } = {}) {
+    const userId = options.as ?? ownerId;
+    const token = jwt.sign({ userId, email: `hooks-${userId}@example.com` }, JWT_SECRET);
+    return app.request(path, {
+      method: options.method || "GET",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  async function createEndpoint(events: string[] = [], path = "/hook") {
+    const response = await request("/api/webhooks", {
+      method: "POST",
+      body: { url: `http://localhost:${receiver.port}${path}`, events },
+    });
+    expect(response.status).toBe(201);
+    return response.json();
+  }
+
+  test("should register, list, update and delete endpoints", async () => {
+    const { endpoint, secret } = await createEndpoint(["key.created"]);
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(endpoint).toMatchObject({ events: ["key.created"], isActive: true, description: null });
+
+    const list = await (await request("/api/webhooks")).json();
+    expect(list.endpoints.map((e: any) => e.id)).toEqual([endpoint.id]);
+    expect(list.endpoints[0].secret).toBeUndefined();
+    expect(list.availableEvents).toContain("oauth.refresh_failed");
+
+    const updated = await request(`/api/webhooks/${endpoint.id}`, {
+      method: "PATCH",
+      body: { events: ["key.deleted"], description: "Audit bot", isActive: false },
+    });
+    expect((await updated.json()).endpoint).toMatchObject({ events: ["key.deleted"], description: "Audit bot", isActive: false });
+
+    // Other users can't see or change it
+    expect((await request(`/api/webhooks/${endpoint.id}`, { method: "PATCH", body: { isActive: true }, as: otherId })).status).toBe(404);
+    expect((await request(`/api/webhooks/${endpoint.id}/deliveries`, { as: otherId })).status).toBe(404);
+    expect((await request(`/api/webhooks/${endpoint.id}`, { method: "DELETE", as: otherId })).status).toBe(404);
+
+    expect((await request(`/api/webhooks/${endpoint.id}`, { method: "DELETE" })).status).toBe(200);
+    expect((await (await request("/api/webhooks")).json()).endpoints).toEqual([]);
+  });
+
+  test("should reject invalid endpoints", async () => {
+    const badUrl = await request("/api/webhooks", { method: "POST", body: { url: "ftp://example.com" } });
+    expect(badUrl.status).toBe(400);
+
+    const badEvent = await request("/api/webhooks", {
+      method: "POST",
+      body: { url: "https://example.com/hook", events: ["key.created", "key.exploded"] },
+    });
+    expect(badEvent.status).toBe(400);
+    expect((await badEvent.json()).error).toContain("Unknown events: key.exploded");
+  });
+
+  test("should only accept public https URLs unless private URLs are allowed", async () => {
+    configureChannels({ allowPrivateWebhookUrls: false });
+
+    for (const url of [
+      `http://localhost:${receiver.port}/hook`,
+      "https://localhost/hook",
+      "https://127.0.0.1/hook",
+      "https://10.1.2.3/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://[::1]/hook",
+      "https://[::ffff:192.168.0.1]/hook",
+      "https://localhost./hook",
+    ]) {
+      const response = await request("/api/webhooks", { method: "POST", body: { url } });
+      expect(response.status).toBe(400);
+    }
+
+    const insecure = await request("/api/webhooks", { method: "POST", body: { url: "http://hooks.example.com/claude" } });
+    expect((await insecure.json()).error).toBe("url must use https");
+    expect((await request("/api/webhooks", { method: "POST", body: { url: "https://hooks.example.com/claude" } })).status).toBe(201);
+  });
+
+  test("should classify private addresses", () => {
+    for (const address of ["127.0.0.1", "10.0.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ["8.8.8.8", "172.32.0.1", "93.184.216.34", "2606:4700::1111"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  test("should not deliver to a host that resolves to a private address", async () => {
+    // Registered while private URLs were allowed; the machine's own name resolves to one of its addresses
+    const { endpoint } = await createEndpoint(["key.created"]);
+    await pool.query("UPDATE webhook_endpoints SET url = $1 WHERE id = $2", [`https://${hostname()}:${receiver.port}/hook`, endpoint.id]);
+    configureChannels({ allowPrivateWebhookUrls: false });
+    await generateApiKey(ownerId, "CI");
+
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 1 });
+    expect(received).toEqual([]);
+    const log = await (await request(`/api/webhooks/${endpoint.id}/deliveries`)).json();
+    expect(log.deliveries[0].lastError).toBe("Webhook url resolves to a private or loopback address");
+  });
+
+  test("should not follow redirects", async () => {
+    const { endpoint } = await createEndpoint(["key.created"], "/redirect");
+    await generateApiKey(ownerId, "CI");
+
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 1 });
+    expect(received.map((r) => r.path)).toEqual(["/redirect"]);
+    const log = await (await request(`/api/webhooks/${endpoint.id}/deliveries`)).json();
+    expect(log.deliveries[0]).toMatchObject({ status: "pending", responseStatus: 302, lastError: "Webhook responded with 302" });
+  });
+
+  test("should sign key events with the endpoint's secret and honour event filters", async () => {
+    const all = await createEndpoint([], "/all");
+    await createEndpoint(["key.deleted"], "/deleted");
+
+    const key = await generateApiKey(ownerId, "CI");
+    const keyId = (await pool.query("SELECT id FROM api_keys WHERE user_id = $1", [ownerId])).rows[0].id;
+    expect(await deleteApiKey(keyId, ownerId)).toBe(true);
+    expect(await processOutbox()).toEqual({ sent: 3, failed: 0 });
+
+    const toAll = received.filter((r) => r.path === "/all");
+    expect(toAll.map((r) => r.body.event)).toEqual(["key.created", "key.deleted"]);
+    expect(toAll[0].body.data).toEqual({ keyId, name: "CI", keyPrefix: key.prefix });
+    const timestamp = Number(toAll[0].headers.get("x-webhook-timestamp"));
+    expect(toAll[0].headers.get("x-webhook-signature")).toBe(`sha256=${signWebhookPayload(all.secret, timestamp, toAll[0].raw)}`);
+
+    expect(received.filter((r) => r.path === "/deleted").map((r) => r.body.event)).toEqual(["key.deleted"]);
+  });
+
+  test("should log failed deliveries, retry them and replay them", async () => {
+    const { endpoint } = await createEndpoint(["key.created"]);
+    failWith = 503;
+    await generateApiKey(ownerId, "CI");
+
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 1 });
+    let log = await (await request(`/api/webhooks/${endpoint.id}/deliveries`)).json();
+    expect(log.deliveries).toEqual([
+      expect.objectContaining({ event: "key.created", status: "pending", attempts: 1, responseStatus: 503, lastError: "Webhook responded with 503" }),
+    ]);
+    expect(log.deliveries[0].nextAttemptAt).toBeGreaterThan(Date.now() + 20 * 1000);
+
+    failWith = null;
+    await pool.query("UPDATE notification_outbox SET next_attempt_at = $1", [Date.now()]);
+    expect(await processOutbox()).toEqual({ sent: 1, failed: 0 });
+
+    const originalId = log.deliveries[0].id;
+    const replay = await request(`/api/webhooks/${endpoint.id}/deliveries/${originalId}/replay`, { method: "POST" });
+    expect(replay.status).toBe(202);
+    expect(await processOutbox()).toEqual({ sent: 1, failed: 0 });
+
+    log = await (await request(`/api/webhooks/${endpoint.id}/deliveries?limit=1`)).json();
+    expect(log.deliveries).toEqual([
+      expect.objectContaining({ status: "sent", responseStatus: 200, replayOf: originalId, event: "key.created" }),
+    ]);
+    expect(log.next_cursor).toBe(log.deliveries[0].id);
+    expect(received).toHaveLength(3);
+    expect(received[2].body.data).toEqual(received[1].body.data);
+
+    expect((await request(`/api/webhooks/${endpoint.id}/deliveries/999999999/replay`, { method: "POST" })).status).toBe(404);
+    expect((await request(`/api/webhooks/${endpoint.id}/deliveries?cursor=99999999999`)).status).toBe(400);
+  });
+
+  test("should not send to disabled endpoints", async () => {
+    const { endpoint } = await createEndpoint();
+    await generateApiKey(ownerId, "Before");
+    await request(`/api/webhooks/${endpoint.id}`, { method: "PATCH", body: { isActive: false } });
+    await generateApiKey(ownerId, "After");
+
+    expect(await processOutbox()).toEqual({ sent: 0, failed: 1 });
+    expect(received).toEqual([]);
+    const log = await (await request(`/api/webhooks/${endpoint.id}/deliveries`)).json();
+    expect(log.deliveries).toEqual([expect.objectContaining({ status: "failed", lastError: "Webhook endpoint is disabled" })]);
+  });
+
+  test("should send quota.exceeded once per window", async () => {
+    await createEndpoint(["quota.exceeded"]);
+    const { keyId, apiKey } = await createProxyFixture("hooks", { userId: ownerId, keyName: "Build bot" });
+    await pool.query(
+      "INSERT INTO api_key_usage_history (key_id, timestamp, model, total_tokens, credits_used) VALUES ($1, $2, $3, 0, $4)",
+      [keyId, Date.now() - 60 * 1000, "claude-sonnet-4-20250514", 10_500_000]
+    );
+
+    for (let i = 0; i < 2; i++) {
+      const response = await app.request("/v1/messages", {
+        method: "POST",
+        headers: { "x-api-key": apiKey, "content-type": "application/json" },
+        body: JSON.stringify({ model: "claude-sonnet-4-20250514", max_tokens: 16, messages: [{ role: "user", content: "Hi" }] }),
+      });
+      expect(response.status).toBe(429);
+    }
+    await processOutbox();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toMatchObject({
+      event: "quota.exceeded",
+      subject: "API key Build bot has exhausted its 5h quota",
+      data: { keyId, window: "5h", scope: "key" },
+    });
+  });
+
+  test("should send invitation and Claude account events to the owner", async () => {
+    await createEndpoint(["invitation.accepted", "oauth.revoked", "oauth.refresh_failed", "oauth.disconnected"]);
+    const keyId = `hooks-key-${randomUUID()}`;
+    await pool.query(
+      "INSERT INTO api_keys (id, user_id, key_hash, key_prefix, name) VALUES ($1, $2, $3, $4, $5)",
+      [keyId, ownerId, `hash-${keyId}`, "sk-test", "Shared"]
+    );
+    await assignKey(keyId, ownerId, `hooks-${otherId}@example.com`);
+    const token = (await pool.query("SELECT invitation_token FROM api_keys WHERE id = $1", [keyId])).rows[0].invitation_token;
+    expect((await acceptInvitation(token, otherId)).success).toBe(true);
+
+    const account = await pool.query(
+      "INSERT INTO oauth_tokens (user_id, access_token, refresh_token, expires_at, label) VALUES ($1, 'a', 'r', $2, 'Work') RETURNING id",
+      [ownerId, Date.now() + 60 * 60 * 1000]
+    );
+    const accountId = account.rows[0].id;
+    await setConnectionHealth(accountId, "refresh_failed", "HTTP 502");
+    await setConnectionHealth(accountId, "refresh_failed", "HTTP 502");
+    await setConnectionHealth(accountId, "revoked", "invalid_grant");
+    await disconnectOAuth(ownerId, accountId);
+    await processOutbox();
+
+    expect(received.map((r) => r.body.event)).toEqual(["invitation.accepted", "oauth.refresh_failed", "oauth.revoked", "oauth.disconnected"]);
+    expect(received[0].body.data).toEqual({ keyId, assignedToEmail: `hooks-${otherId}@example.com`, assignedToUserId: otherId });
+    expect(received[2].body.data).toMatchObject({ accountId, label: "Work", error: "invalid_grant" });
+  });
+});